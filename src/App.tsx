@@ -1,11 +1,60 @@
 import { useState, useMemo } from "react";
 import SurfaceInspector from "./components/SurfaceInspector";
 import SurfaceDraggable from "./components/SurfaceDraggable";
-import GradientField3D from "./components/GradientField3D"; // ⬅️ nuevo import
+import GradientField3D, { type FlowKind } from "./components/GradientField3D"; // ⬅️ nuevo import
 import SurfaceIntersection from "./components/SurfaceIntersection";
-import { compileExpression3 } from "./utils/compileExpression";
+import SpaceCurveViewer from "./components/SpaceCurveViewer";
+import CurveInputs, { type TBounds } from "./components/CurveInputs";
+import VectorField3D from "./components/VectorField3D";
+import VectorFieldInputs from "./components/VectorFieldInputs";
+import SolidOfRevolution from "./components/SolidOfRevolution";
+import RevolutionInputs, { type RevolutionFields } from "./components/RevolutionInputs";
+import ParameterSliders from "./components/ParameterSliders";
+import ParametricInputs, { type UvBounds } from "./components/ParametricInputs";
+import ImplicitInputs, { type ZBounds } from "./components/ImplicitInputs";
+import CoordinateInputs from "./components/CoordinateInputs";
+import LayerList from "./components/LayerList";
+import RegionInputs, { type RegionFields, type RegionKind } from "./components/RegionInputs";
+import DomainInputs from "./components/DomainInputs";
+import {
+  checkExpression,
+  compileDefinitions,
+  compileDerivatives3,
+  compileExpression2,
+  compileExpression3,
+  coordinateVariables,
+  evaluateConstant,
+  findFreeParameters,
+  tryCompileVectorField,
+  type Component,
+  type CoordinateSystem,
+} from "./utils/compileExpression";
+import { parameterValues, type ParameterSetting } from "./utils/parameterSettings";
+import type { ImplicitSource } from "./utils/implicitMesh";
+import type { ParametricSource } from "./utils/parametricMesh";
+import type { CurveSource } from "./utils/spaceCurve";
+import type { FieldDisplay, VectorFieldSource } from "./utils/vectorField";
+import type { RevolutionAxis, RevolutionSource } from "./utils/revolution";
+import type { SurfaceLayer } from "./utils/surfaceLayers";
+import type { PlotRegion } from "./utils/plotRegion";
+import { combineDomain, type DomainCombine } from "./utils/domainMask";
 
-type Viewer = "inspector" | "draggable" | "gradient" | "intersection";
+type Viewer = "inspector" | "draggable" | "gradient" | "intersection" | "curve" | "field" | "revolution";
+type SurfaceType = "explicit" | "parametric" | "implicit";
+type Coordinates = "cartesian" | CoordinateSystem;
+const UVT = ["u", "v", "t"];
+const XYZ = ["x", "y", "z"];
+const X = ["x"];
+const Y = ["y"];
+const XY = ["x", "y"];
+const T = ["t"];
+// límites constantes que usa cada forma de región (las de tipo I/II suman sus dos curvas)
+const REGION_LIMITS: Record<RegionKind, Array<keyof RegionFields>> = {
+  square: [],
+  box: ["xMin", "xMax", "yMin", "yMax"],
+  typeI: ["xMin", "xMax"],
+  typeII: ["yMin", "yMax"],
+};
 export default function App() {
    const [expr, setExpr] = useState<string>("sin(x*2 + y) - 0.5*sin(t*2)");
    const [range, setRange] = useState<number>(4);
@@ -23,9 +72,428 @@ export default function App() {
    const [vectorScale, setVectorScale] = useState<number>(0.55); // escala de largo
    const [step, setStep] = useState<number>(1e-3);         // h derivadas
    const [tParam, setTParam] = useState<number>(0);        // parámetro t
+   const [flow, setFlow] = useState<FlowKind>("descent");  // campo de las líneas de flujo
+
+   // Funciones del visor de intersección (elevadas aquí para detectar sus parámetros)
+   const [interExpr1, setInterExpr1] = useState<string>("sin(x)*cos(y)");
+   const [interExpr2, setInterExpr2] = useState<string>("cos(x)*sin(y)");
+
+   // Superficie paramétrica r(u,v,t) (Inspector y Draggable); por defecto un toro
+   const [surfaceType, setSurfaceType] = useState<SurfaceType>("explicit");
+   const [paramExprs, setParamExprs] = useState<Record<Component, string>>({
+     x: "(2 + cos(v))*cos(u)",
+     y: "(2 + cos(v))*sin(u)",
+     z: "sin(v)",
+   });
+   const [uvBounds, setUvBounds] = useState<UvBounds>({ uMin: "0", uMax: "2*pi", vMin: "0", vMax: "2*pi" });
+   const [uvCells, setUvCells] = useState({ u: 64, v: 32 });
+   const isSurfaceViewer =
+     viewer !== "intersection" && viewer !== "curve" && viewer !== "field" && viewer !== "revolution";
+   const isParametric = surfaceType === "parametric" && isSurfaceViewer;
+
+   // Superficie explícita en otras coordenadas: z = f(r,θ), r = f(θ,z) o ρ = f(θ,φ), muestreada en su dominio natural
+   const [coordinates, setCoordinates] = useState<Coordinates>("cartesian");
+   const [coordExprs, setCoordExprs] = useState<Record<CoordinateSystem, string>>({
+     polar: "r*cos(3*theta)*exp(-r^2/4)",
+     cylindrical: "1 + 0.3*cos(4*theta)*cos(z)",
+     spherical: "2 + 0.3*sin(3*theta)*sin(phi)^2",
+   });
+   const [coordBounds, setCoordBounds] = useState<Record<CoordinateSystem, UvBounds>>({
+     polar: { uMin: "0", uMax: "3", vMin: "0", vMax: "2*pi" },
+     cylindrical: { uMin: "0", uMax: "2*pi", vMin: "-2", vMax: "2" },
+     spherical: { uMin: "0", uMax: "2*pi", vMin: "0", vMax: "pi" },
+   });
+   const coordSystem = surfaceType === "explicit" && isSurfaceViewer && coordinates !== "cartesian" ? coordinates : null;
+
+   // Superficie implícita F(x,y,z) = c (Inspector y Draggable); por defecto un hiperboloide de una hoja
+   const [implicitExpr, setImplicitExpr] = useState<string>("x^2 + y^2 - z^2");
+   const [level, setLevel] = useState<number>(1);
+   const [zBounds, setZBounds] = useState<ZBounds>({ zMin: "-3", zMax: "3" });
+   const [implicitCells, setImplicitCells] = useState<number>(48);
+   const isImplicit = surfaceType === "implicit" && isSurfaceViewer;
+
+   // Curva r(t) del visor de curvas; por defecto una hélice
+   const [curveExprs, setCurveExprs] = useState<Record<Component, string>>({ x: "cos(t)", y: "sin(t)", z: "t/3" });
+   const [tBounds, setTBounds] = useState<TBounds>({ tMin: "0", tMax: "4*pi" });
+   const [curveSamples, setCurveSamples] = useState<number>(400);
+
+   // Campo vectorial F = (P, Q, R) del visor de campos; por defecto un remolino
+   const [fieldExprs, setFieldExprs] = useState<Record<Component, string>>({ x: "-y", y: "x", z: "0.3*z" });
+   const [fieldPlanar, setFieldPlanar] = useState<boolean>(false);
+   const [fieldDisplay, setFieldDisplay] = useState<FieldDisplay>({
+     mode: "lattice",
+     density: 7,
+     scale: 0.9,
+     slices: { x: { enabled: false, at: 0 }, y: { enabled: false, at: 0 }, z: { enabled: true, at: 0 } },
+     coloring: "curl",
+   });
+
+   // Capas z = g(x,y,t) extra del Inspector y el Draggable (comparar f con Taylor, otra candidata...)
+   const [layers, setLayers] = useState<SurfaceLayer[]>([]);
+   const hasLayers = viewer === "inspector" || viewer === "draggable";
+
+   // Región de z = f(x,y) en Inspector y Draggable: el cuadrado ±rango, un rectángulo o una región tipo I/II
+   const [regionKind, setRegionKind] = useState<RegionKind>("square");
+   const [regionFields, setRegionFields] = useState<RegionFields>({
+     xMin: "0",
+     xMax: "2",
+     yMin: "-2",
+     yMax: "2",
+     lower: "0",
+     upper: "sqrt(x)",
+   });
+   const isCartesianGraph = !isParametric && !isImplicit && !coordSystem;
+   const hasRegion = hasLayers && isCartesianGraph;
+   const regionCurves = regionKind === "typeI" || regionKind === "typeII";
+
+   // Dominio h(x,y) ≤ 0 de z = f(x,y) en todos los visores de gráficos: varias restricciones con Y u O
+   const [domainConstraints, setDomainConstraints] = useState<string[]>([""]);
+   const [domainCombine, setDomainCombine] = useState<DomainCombine>("and");
+   const hasDomain = viewer === "intersection" || (isCartesianGraph && (hasLayers || viewer === "gradient"));
+   const domainExpression = hasDomain ? combineDomain(domainConstraints, domainCombine) : undefined;
+
+   // Sólido de revolución: región entre g y h en [a, b] girada alrededor de y = c o x = c
+   const [revolutionFields, setRevolutionFields] = useState<RevolutionFields>({
+     outer: "sqrt(x)",
+     inner: "0",
+     a: "0",
+     b: "4",
+     axisAt: "0",
+   });
+   const [revolutionAxis, setRevolutionAxis] = useState<RevolutionAxis>("horizontal");
+   const [revolutionSamples, setRevolutionSamples] = useState<number>(120);
+
+   // Definiciones compartidas (una por línea): r = sqrt(x^2+y^2), g(u) = exp(-u^2)...
+   const [defsText, setDefsText] = useState<string>("");
+   const { definitions, error: defsError } = useMemo(() => compileDefinitions(defsText), [defsText]);
+
+   // Parámetros libres (a, b, k...) detectados en las expresiones activas
+   const [paramSettings, setParamSettings] = useState<Record<string, ParameterSetting>>({});
+   const viewerParamNames = useMemo(() => {
+     if (viewer === "intersection") return findFreeParameters([interExpr1, interExpr2], definitions);
+     if (viewer === "field") {
+       const exprs = fieldPlanar ? [fieldExprs.x, fieldExprs.y] : Object.values(fieldExprs);
+       return findFreeParameters(exprs, definitions, fieldPlanar ? XY : XYZ);
+     }
+     if (viewer === "revolution") {
+       const { outer, inner, ...constants } = revolutionFields;
+       const names = new Set([
+         ...findFreeParameters([outer, inner], definitions, X),
+         ...findFreeParameters(Object.values(constants), definitions, []),
+       ]);
+       return [...names].sort();
+     }
+     if (viewer === "curve") {
+       const names = new Set([
+         ...findFreeParameters([curveExprs.x, curveExprs.y, curveExprs.z], definitions, T),
+         ...findFreeParameters(Object.values(tBounds), definitions, []),
+       ]);
+       return [...names].sort();
+     }
+     if (isImplicit) {
+       const names = new Set([
+         ...findFreeParameters([implicitExpr], definitions, XYZ),
+         ...findFreeParameters(Object.values(zBounds), definitions, []),
+       ]);
+       return [...names].sort();
+     }
+     if (coordSystem) {
+       const names = new Set([
+         ...findFreeParameters([coordExprs[coordSystem]], definitions, coordinateVariables(coordSystem)),
+         ...findFreeParameters(Object.values(coordBounds[coordSystem]), definitions, []),
+       ]);
+       return [...names].sort();
+     }
+     if (viewer === "gradient" && flow === "field") {
+       const names = new Set([
+         ...findFreeParameters([expr], definitions),
+         ...findFreeParameters([fieldExprs.x, fieldExprs.y], definitions, XY),
+       ]);
+       return [...names].sort();
+     }
+     if (!isParametric) return findFreeParameters([expr, density, constraint], definitions);
+     const names = new Set([
+       ...findFreeParameters([paramExprs.x, paramExprs.y, paramExprs.z], definitions, UVT),
+       ...findFreeParameters(Object.values(uvBounds), definitions, []),
+     ]);
+     return [...names].sort();
+   }, [
+     viewer,
+     isParametric,
+     isImplicit,
+     coordSystem,
+     coordExprs,
+     coordBounds,
+     expr,
+     density,
+     constraint,
+     interExpr1,
+     interExpr2,
+     curveExprs,
+     tBounds,
+     revolutionFields,
+     fieldExprs,
+     fieldPlanar,
+     flow,
+     paramExprs,
+     uvBounds,
+     implicitExpr,
+     zBounds,
+     definitions,
+   ]);
+   // más los de las capas (también las ocultas, para que sus expresiones sigan validándose), la región y el dominio
+   const paramNames = useMemo(() => {
+     const withRegion = hasRegion && regionKind !== "square";
+     if ((!hasLayers || layers.length === 0) && !withRegion && !domainExpression) return viewerParamNames;
+     const names = new Set([
+       ...viewerParamNames,
+       ...(hasLayers ? findFreeParameters(layers.map((layer) => layer.expression), definitions) : []),
+       ...(domainExpression ? findFreeParameters([domainExpression], definitions, XY) : []),
+     ]);
+     if (withRegion) {
+       const limits = REGION_LIMITS[regionKind].map((field) => regionFields[field]);
+       findFreeParameters(limits, definitions, []).forEach((name) => names.add(name));
+       if (regionCurves) {
+         const curves = [regionFields.lower, regionFields.upper];
+         findFreeParameters(curves, definitions, regionKind === "typeII" ? Y : X).forEach((name) => names.add(name));
+       }
+     }
+     return [...names].sort();
+   }, [
+     viewerParamNames,
+     hasLayers,
+     layers,
+     hasRegion,
+     regionKind,
+     regionCurves,
+     regionFields,
+     domainExpression,
+     definitions,
+   ]);
+   const parameters = useMemo(() => parameterValues(paramNames, paramSettings), [paramNames, paramSettings]);
 
    // Compilar la expresión una vez
-  const compiledFn = useMemo(() => compileExpression3(expr), [expr]);
+  const compiledFn = useMemo(
+    () => compileExpression3(expr, parameters, definitions),
+    [expr, parameters, definitions]
+  );
+  // Derivadas simbólicas (null si la expresión no es válida)
+  const derivatives = useMemo(
+    () => compileDerivatives3(expr, parameters, definitions),
+    [expr, parameters, definitions]
+  );
+
+  // Errores de sintaxis (con posición) para mostrar bajo cada campo
+  const exprError = useMemo(
+    () => checkExpression(expr, undefined, parameters, definitions),
+    [expr, parameters, definitions]
+  );
+  const densityError = useMemo(
+    () => checkExpression(density, ["x", "y"], parameters, definitions),
+    [density, parameters, definitions]
+  );
+  const constraintError = useMemo(
+    () => checkExpression(constraint, ["x", "y"], parameters, definitions),
+    [constraint, parameters, definitions]
+  );
+  const domainErrors = useMemo(
+    () => domainConstraints.map((constraint) => checkExpression(constraint, XY, parameters, definitions)),
+    [domainConstraints, parameters, definitions]
+  );
+  // el visor de gradiente recibe funciones ya compiladas, como f
+  const domainFn = useMemo(
+    () => compileExpression2(domainExpression, parameters, definitions),
+    [domainExpression, parameters, definitions]
+  );
+  const layerErrors = useMemo(
+    () =>
+      Object.fromEntries(
+        layers.map((layer) => [layer.id, checkExpression(layer.expression, undefined, parameters, definitions)])
+      ),
+    [layers, parameters, definitions]
+  );
+
+  // Región de f(x,y): límites constantes y curvas en x (tipo I) o en y (tipo II)
+  const regionChecks = useMemo(() => {
+    const { xMin, xMax, yMin, yMax, lower, upper } = regionFields;
+    const limits = {
+      xMin: evaluateConstant(xMin, parameters, definitions),
+      xMax: evaluateConstant(xMax, parameters, definitions),
+      yMin: evaluateConstant(yMin, parameters, definitions),
+      yMax: evaluateConstant(yMax, parameters, definitions),
+    };
+    const curveVariables = regionKind === "typeII" ? Y : X;
+    return {
+      limits,
+      errors: {
+        xMin: limits.xMin.error,
+        xMax: limits.xMax.error,
+        yMin: limits.yMin.error,
+        yMax: limits.yMax.error,
+        lower: regionCurves ? checkExpression(lower, curveVariables, parameters, definitions) : null,
+        upper: regionCurves ? checkExpression(upper, curveVariables, parameters, definitions) : null,
+      },
+    };
+  }, [regionKind, regionCurves, regionFields, parameters, definitions]);
+  const region = useMemo<PlotRegion | undefined>(() => {
+    if (!hasRegion || regionKind === "square") return undefined;
+    const { xMin, xMax, yMin, yMax } = regionChecks.limits;
+    const { lower, upper } = regionFields;
+    if (regionKind === "box") {
+      return { kind: "box", xMin: xMin.value, xMax: xMax.value, yMin: yMin.value, yMax: yMax.value };
+    }
+    return regionKind === "typeI"
+      ? { kind: "typeI", xMin: xMin.value, xMax: xMax.value, lower, upper }
+      : { kind: "typeII", yMin: yMin.value, yMax: yMax.value, lower, upper };
+  }, [hasRegion, regionKind, regionFields, regionChecks]);
+
+  // Superficie paramétrica: validación de cada entrada y dominio numérico
+  const paramErrors = useMemo(
+    () => ({
+      x: checkExpression(paramExprs.x, UVT, parameters, definitions),
+      y: checkExpression(paramExprs.y, UVT, parameters, definitions),
+      z: checkExpression(paramExprs.z, UVT, parameters, definitions),
+    }),
+    [paramExprs, parameters, definitions]
+  );
+  const coordError = useMemo(
+    () =>
+      coordSystem
+        ? checkExpression(coordExprs[coordSystem], coordinateVariables(coordSystem), parameters, definitions)
+        : null,
+    [coordSystem, coordExprs, parameters, definitions]
+  );
+  // límites de (u, v), o de las dos coordenadas del sistema activo
+  const activeBounds = coordSystem ? coordBounds[coordSystem] : uvBounds;
+  const uvLimits = useMemo(() => {
+    const limit = (text: string) => evaluateConstant(text, parameters, definitions);
+    return {
+      uMin: limit(activeBounds.uMin),
+      uMax: limit(activeBounds.uMax),
+      vMin: limit(activeBounds.vMin),
+      vMax: limit(activeBounds.vMax),
+    };
+  }, [activeBounds, parameters, definitions]);
+  const parametric = useMemo<ParametricSource | undefined>(() => {
+    if (!isParametric && !coordSystem) return undefined;
+    const domain = {
+      uMin: uvLimits.uMin.value,
+      uMax: uvLimits.uMax.value,
+      vMin: uvLimits.vMin.value,
+      vMax: uvLimits.vMax.value,
+      uCells: uvCells.u,
+      vCells: uvCells.v,
+    };
+    return coordSystem ? { system: coordSystem, expression: coordExprs[coordSystem], domain } : { ...paramExprs, domain };
+  }, [isParametric, coordSystem, coordExprs, paramExprs, uvLimits, uvCells]);
+  const uvBoundErrors = {
+    uMin: uvLimits.uMin.error,
+    uMax: uvLimits.uMax.error,
+    vMin: uvLimits.vMin.error,
+    vMax: uvLimits.vMax.error,
+  };
+
+  // Curva r(t): validación de cada componente y del intervalo de t
+  const curveErrors = useMemo(
+    () => ({
+      x: checkExpression(curveExprs.x, T, parameters, definitions),
+      y: checkExpression(curveExprs.y, T, parameters, definitions),
+      z: checkExpression(curveExprs.z, T, parameters, definitions),
+    }),
+    [curveExprs, parameters, definitions]
+  );
+  const tLimits = useMemo(
+    () => ({
+      tMin: evaluateConstant(tBounds.tMin, parameters, definitions),
+      tMax: evaluateConstant(tBounds.tMax, parameters, definitions),
+    }),
+    [tBounds, parameters, definitions]
+  );
+  const curve = useMemo<CurveSource>(
+    () => ({ ...curveExprs, tMin: tLimits.tMin.value, tMax: tLimits.tMax.value, samples: curveSamples }),
+    [curveExprs, tLimits, curveSamples]
+  );
+
+  // Sólido de revolución: validación de las curvas en x y de los límites y el eje (constantes)
+  const revolutionChecks = useMemo(() => {
+    const { outer, inner, a, b, axisAt } = revolutionFields;
+    const limits = {
+      a: evaluateConstant(a, parameters, definitions),
+      b: evaluateConstant(b, parameters, definitions),
+      axisAt: evaluateConstant(axisAt, parameters, definitions),
+    };
+    return {
+      limits,
+      errors: {
+        outer: checkExpression(outer, X, parameters, definitions),
+        inner: checkExpression(inner, X, parameters, definitions),
+        a: limits.a.error,
+        b: limits.b.error,
+        axisAt: limits.axisAt.error,
+      },
+    };
+  }, [revolutionFields, parameters, definitions]);
+  const revolution = useMemo<RevolutionSource>(
+    () => ({
+      outer: revolutionFields.outer,
+      inner: revolutionFields.inner,
+      a: revolutionChecks.limits.a.value,
+      b: revolutionChecks.limits.b.value,
+      axis: revolutionAxis,
+      axisAt: revolutionChecks.limits.axisAt.value,
+      samples: revolutionSamples,
+    }),
+    [revolutionFields, revolutionChecks, revolutionAxis, revolutionSamples]
+  );
+
+  // Campo vectorial: validación de cada componente (en el plano R no se usa)
+  const fieldErrors = useMemo(() => {
+    const variables = fieldPlanar ? XY : XYZ;
+    return {
+      x: checkExpression(fieldExprs.x, variables, parameters, definitions),
+      y: checkExpression(fieldExprs.y, variables, parameters, definitions),
+      z: fieldPlanar ? null : checkExpression(fieldExprs.z, variables, parameters, definitions),
+    };
+  }, [fieldExprs, fieldPlanar, parameters, definitions]);
+  const field = useMemo<VectorFieldSource>(
+    () => ({ ...fieldExprs, z: fieldPlanar ? "0" : fieldExprs.z, planar: fieldPlanar }),
+    [fieldExprs, fieldPlanar]
+  );
+
+  // Líneas de flujo del visor de gradiente con un campo plano (P, Q) propio
+  const flowField = useMemo(
+    () =>
+      viewer === "gradient" && flow === "field"
+        ? tryCompileVectorField({ ...fieldExprs, z: "0" }, true, parameters, definitions)
+        : null,
+    [viewer, flow, fieldExprs, parameters, definitions]
+  );
+
+  // Superficie implícita: validación de F y de los límites de z
+  const implicitError = useMemo(
+    () => checkExpression(implicitExpr, XYZ, parameters, definitions),
+    [implicitExpr, parameters, definitions]
+  );
+  const zLimits = useMemo(
+    () => ({
+      zMin: evaluateConstant(zBounds.zMin, parameters, definitions),
+      zMax: evaluateConstant(zBounds.zMax, parameters, definitions),
+    }),
+    [zBounds, parameters, definitions]
+  );
+  const implicit = useMemo<ImplicitSource | undefined>(
+    () =>
+      isImplicit
+        ? {
+            expression: implicitExpr,
+            level,
+            zMin: zLimits.zMin.value,
+            zMax: zLimits.zMax.value,
+            cells: implicitCells,
+          }
+        : undefined,
+    [isImplicit, implicitExpr, level, zLimits, implicitCells]
+  );
 
   return (
     <div className="app">
@@ -44,6 +512,9 @@ export default function App() {
             <option value="draggable">Draggable (pan/zoom/rotar con mouse)</option>
             <option value="gradient">Campo gradiente 3D (flechas en z=0)</option>
               <option value="intersection">Intersección (curva entre dos superficies)</option>
+            <option value="curve">Curva r(t) (Frenet, curvatura, torsión)</option>
+            <option value="field">Campo vectorial F (div, rot, cortes)</option>
+            <option value="revolution">Sólido de revolución (discos y capas)</option>
           </select>
           <div className="form-text">
             En <b>Draggable</b> no se calculan densidad/Lagrange; es para mover la gráfica.
@@ -51,19 +522,174 @@ export default function App() {
         </div>
 
         <div className="mb-3">
-          <label className="form-label">Función z = f(x,y,t)</label>
-          <input
-            type="text"
-            className="form-control form-control-sm"
-            value={expr}
-            onChange={(e) => setExpr(e.target.value)}
-            placeholder="p.ej. sin(x+y) - 0.5*cos(t)"
+          <label className="form-label">Definiciones (opcional)</label>
+          <textarea
+            className={`form-control form-control-sm font-monospace${defsError ? " is-invalid" : ""}`}
+            rows={3}
+            value={defsText}
+            onChange={(e) => setDefsText(e.target.value)}
+            placeholder={"g(u) = exp(-u^2)\nr = sqrt(x^2+y^2)"}
           />
+          {defsError && <div className="invalid-feedback d-block">{defsError.message}</div>}
           <div className="form-text">
-            Usa <code>x</code>, <code>y</code>, <code>t</code> y funciones tipo <code>sin</code>, <code>cos</code>, <code>sqrt</code>.
+            Una por línea; se pueden usar en z, σ y g.
           </div>
         </div>
 
+        {isSurfaceViewer && (
+          <div className="mb-3">
+            <label className="form-label">Tipo de superficie</label>
+            <select
+              className="form-select form-select-sm"
+              value={surfaceType}
+              onChange={(e) => setSurfaceType(e.target.value as SurfaceType)}
+            >
+              <option value="explicit">Explícita (una expresión)</option>
+              <option value="parametric">Paramétrica r(u,v,t)</option>
+              <option value="implicit">Implícita F(x,y,z) = c</option>
+            </select>
+          </div>
+        )}
+
+        {isSurfaceViewer && surfaceType === "explicit" && (
+          <div className="mb-3">
+            <label className="form-label">Coordenadas</label>
+            <select
+              className="form-select form-select-sm"
+              value={coordinates}
+              onChange={(e) => setCoordinates(e.target.value as Coordinates)}
+            >
+              <option value="cartesian">Cartesianas z = f(x,y,t)</option>
+              <option value="polar">Polares z = f(r,θ,t)</option>
+              <option value="cylindrical">Cilíndricas r = f(θ,z,t)</option>
+              <option value="spherical">Esféricas ρ = f(θ,φ,t)</option>
+            </select>
+          </div>
+        )}
+
+        {viewer === "field" ? (
+          <VectorFieldInputs
+            exprs={fieldExprs}
+            planar={fieldPlanar}
+            display={fieldDisplay}
+            range={range}
+            exprErrors={fieldErrors}
+            onExprChange={(component, value) => setFieldExprs((prev) => ({ ...prev, [component]: value }))}
+            onPlanarChange={setFieldPlanar}
+            onDisplayChange={setFieldDisplay}
+          />
+        ) : viewer === "revolution" ? (
+          <RevolutionInputs
+            fields={revolutionFields}
+            axis={revolutionAxis}
+            samples={revolutionSamples}
+            errors={revolutionChecks.errors}
+            onFieldChange={(field, value) => setRevolutionFields((prev) => ({ ...prev, [field]: value }))}
+            onAxisChange={setRevolutionAxis}
+            onSamplesChange={setRevolutionSamples}
+          />
+        ) : viewer === "curve" ? (
+          <CurveInputs
+            exprs={curveExprs}
+            bounds={tBounds}
+            samples={curveSamples}
+            exprErrors={curveErrors}
+            boundErrors={{ tMin: tLimits.tMin.error, tMax: tLimits.tMax.error }}
+            onExprChange={(component, value) => setCurveExprs((prev) => ({ ...prev, [component]: value }))}
+            onBoundChange={(bound, value) => setTBounds((prev) => ({ ...prev, [bound]: value }))}
+            onSamplesChange={setCurveSamples}
+          />
+        ) : isParametric ? (
+          <ParametricInputs
+            exprs={paramExprs}
+            bounds={uvBounds}
+            cells={uvCells}
+            exprErrors={paramErrors}
+            boundErrors={uvBoundErrors}
+            onExprChange={(component, value) => setParamExprs((prev) => ({ ...prev, [component]: value }))}
+            onBoundChange={(bound, value) => setUvBounds((prev) => ({ ...prev, [bound]: value }))}
+            onCellsChange={setUvCells}
+          />
+        ) : isImplicit ? (
+          <ImplicitInputs
+            expression={implicitExpr}
+            level={level}
+            bounds={zBounds}
+            cells={implicitCells}
+            exprError={implicitError}
+            boundErrors={{ zMin: zLimits.zMin.error, zMax: zLimits.zMax.error }}
+            onExpressionChange={setImplicitExpr}
+            onLevelChange={setLevel}
+            onBoundChange={(bound, value) => setZBounds((prev) => ({ ...prev, [bound]: value }))}
+            onCellsChange={setImplicitCells}
+          />
+        ) : coordSystem ? (
+          <CoordinateInputs
+            system={coordSystem}
+            expression={coordExprs[coordSystem]}
+            bounds={coordBounds[coordSystem]}
+            cells={uvCells}
+            exprError={coordError}
+            boundErrors={uvBoundErrors}
+            onExpressionChange={(value) => setCoordExprs((prev) => ({ ...prev, [coordSystem]: value }))}
+            onBoundChange={(bound, value) =>
+              setCoordBounds((prev) => ({ ...prev, [coordSystem]: { ...prev[coordSystem], [bound]: value } }))
+            }
+            onCellsChange={setUvCells}
+          />
+        ) : (
+          <div className="mb-3">
+            <label className="form-label">Función z = f(x,y,t)</label>
+            <textarea
+              className={`form-control form-control-sm font-monospace${exprError ? " is-invalid" : ""}`}
+              rows={2}
+              value={expr}
+              onChange={(e) => setExpr(e.target.value)}
+              placeholder="p.ej. sin(x+y) - 0.5*cos(t)"
+            />
+            {exprError && <div className="invalid-feedback d-block">{exprError.message}</div>}
+            <div className="form-text">
+              Usa <code>x</code>, <code>y</code>, <code>t</code> y funciones tipo <code>sin</code>, <code>cos</code>, <code>sqrt</code>.
+              Otros nombres (<code>a</code>, <code>k</code>...) se vuelven parámetros con slider.
+              Admite varias líneas: definiciones y al final <code>z = ...</code>.
+              A trozos: <code>x^2+y^2 &lt; 1 ? 1 - x^2 - y^2 : 0</code> o{" "}
+              <code>piecewise(cond1, expr1, cond2, expr2, defecto)</code>, con <code>&lt; &lt;= == !=</code>,{" "}
+              <code>and</code>, <code>or</code>, <code>not</code>.
+              Especiales: <code>gamma</code>, <code>erf</code>, <code>erfc</code>, <code>j0</code>, <code>j1</code>,{" "}
+              <code>sinc</code>, <code>heaviside</code>, <code>clamp(v, a, b)</code>, <code>mod(a, b)</code>,{" "}
+              <code>fact(n)</code>, <code>binom(n, k)</code> y <code>noise(x, y, semilla)</code>.
+            </div>
+          </div>
+        )}
+
+        {hasRegion && (
+          <RegionInputs
+            kind={regionKind}
+            fields={regionFields}
+            errors={regionChecks.errors}
+            onKindChange={setRegionKind}
+            onFieldChange={(field, value) => setRegionFields((prev) => ({ ...prev, [field]: value }))}
+          />
+        )}
+
+        {hasDomain && (
+          <DomainInputs
+            constraints={domainConstraints}
+            combine={domainCombine}
+            errors={domainErrors}
+            onConstraintsChange={setDomainConstraints}
+            onCombineChange={setDomainCombine}
+          />
+        )}
+
+        {hasLayers && <LayerList layers={layers} errors={layerErrors} onChange={setLayers} template={expr} />}
+
+        <ParameterSliders
+          names={paramNames}
+          settings={paramSettings}
+          onChange={(name, setting) => setParamSettings((prev) => ({ ...prev, [name]: setting }))}
+        />
+
         <div className="mb-3">
           <label className="form-label d-flex justify-content-between">
             <span>Rango (±)</span>
@@ -143,9 +769,18 @@ export default function App() {
                 value={step}
                 step="0.0005"
                 min="0.0001"
+                disabled={derivatives !== null}
                 onChange={(e) => setStep(Number(e.target.value))}
               />
-              <div className="form-text">Se usa en diferencias finitas centrales para f<sub>x</sub>, f<sub>y</sub>.</div>
+              <div className="form-text">
+                {derivatives ? (
+                  <>
+                    f<sub>x</sub>, f<sub>y</sub> se calculan simbólicamente: {derivatives.text.fx}, {derivatives.text.fy}
+                  </>
+                ) : (
+                  <>Se usa en diferencias finitas centrales para f<sub>x</sub>, f<sub>y</sub>.</>
+                )}
+              </div>
             </div>
 
             <div className="mb-3">
@@ -163,6 +798,36 @@ export default function App() {
                 onChange={(e) => setTParam(Number(e.target.value))}
               />
             </div>
+
+            <div className="mb-3">
+              <label className="form-label">Líneas de flujo de</label>
+              <select
+                className="form-select form-select-sm"
+                value={flow}
+                onChange={(e) => setFlow(e.target.value as FlowKind)}
+              >
+                <option value="descent">-∇f (descenso)</option>
+                <option value="ascent">∇f (ascenso)</option>
+                <option value="field">Campo F = (P, Q)</option>
+              </select>
+              {flow === "field" &&
+                (["x", "y"] as const).map((component) => (
+                  <div key={component} className="input-group input-group-sm mt-2">
+                    <span className="input-group-text font-monospace">{component === "x" ? "P" : "Q"} =</span>
+                    <input
+                      type="text"
+                      className={`form-control font-monospace${
+                        flowField?.error?.component === component ? " is-invalid" : ""
+                      }`}
+                      value={fieldExprs[component]}
+                      onChange={(e) => setFieldExprs({ ...fieldExprs, [component]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              <div className="form-text">
+                Clic en el plano z=0 para sembrar; el rastrillo reparte semillas entre las dos últimas.
+              </div>
+            </div>
           </>
         )}
 
@@ -174,22 +839,24 @@ export default function App() {
             <label className="form-label">Densidad σ(x,y) (opcional)</label>
             <input
               type="text"
-              className="form-control form-control-sm"
+              className={`form-control form-control-sm${densityError ? " is-invalid" : ""}`}
               value={density}
               onChange={(e) => setDensity(e.target.value)}
               placeholder="p.ej. 1 + 0.2*x*x"
             />
+            {densityError && <div className="invalid-feedback d-block">{densityError.message}</div>}
           </div>
 
           <div className="mb-2">
             <label className="form-label">Restricción g(x,y)=0 (Lagrange, opcional)</label>
             <input
               type="text"
-              className="form-control form-control-sm"
+              className={`form-control form-control-sm${constraintError ? " is-invalid" : ""}`}
               value={constraint}
               onChange={(e) => setConstraint(e.target.value)}
               placeholder="p.ej. x*x + y*y - 9"
             />
+            {constraintError && <div className="invalid-feedback d-block">{constraintError.message}</div>}
           </div>
 
           {viewer !== "inspector" && (
@@ -205,18 +872,56 @@ export default function App() {
           <SurfaceInspector
             expression={expr}
             range={range}
+            region={region}
+            domainExpression={domainExpression}
             resolution={res}
             densityExpression={density || undefined}
             constraintExpression={constraint || undefined}
+            parameters={parameters}
+            definitions={definitions}
+            parametric={parametric}
+            implicit={implicit}
+            layers={layers}
           />
         ) : viewer === "draggable" ? (
           <SurfaceDraggable
             expression={expr}
             range={range}
+            region={region}
+            domainExpression={domainExpression}
             resolution={res}
+            parameters={parameters}
+            definitions={definitions}
+            parametric={parametric}
+            implicit={implicit}
+            layers={layers}
+          />
+        ) : viewer === "field" ? (
+          <VectorField3D
+            field={field}
+            range={range}
+            display={fieldDisplay}
+            parameters={parameters}
+            definitions={definitions}
           />
+        ) : viewer === "revolution" ? (
+          <SolidOfRevolution solid={revolution} parameters={parameters} definitions={definitions} />
+        ) : viewer === "curve" ? (
+          <SpaceCurveViewer curve={curve} parameters={parameters} definitions={definitions} />
         ) : viewer === "intersection" ? (
-          <SurfaceIntersection />
+          <SurfaceIntersection
+            expr1={interExpr1}
+            expr2={interExpr2}
+            onExpr1Change={setInterExpr1}
+            onExpr2Change={setInterExpr2}
+            parameters={parameters}
+            definitions={definitions}
+            domainExpression={domainExpression}
+          />
+        ) : isParametric || isImplicit || coordSystem ? (
+          <div className="p-4 text-secondary">
+            El campo gradiente necesita un gráfico z = f(x,y); elige <b>Explícita</b> en <b>cartesianas</b> o cambia de visor.
+          </div>
         ) : (
           <GradientField3D
             expression={compiledFn}
@@ -225,7 +930,11 @@ export default function App() {
             vectors={vectors}
             vectorScale={vectorScale}
             step={step}
+            gradient={derivatives}
             t={tParam}
+            flow={flow}
+            flowField={flowField}
+            domain={domainFn}
           />
         )}
       </main>
@@ -0,0 +1,104 @@
+// CoordinateInputs.tsx
+// Entradas de una superficie en polares, cilíndricas o esféricas: la expresión, el intervalo de cada
+// coordenada (admite expresiones constantes como 2*pi) y la resolución de cada eje.
+
+import type { CoordinateSystem, ExpressionError } from "../utils/compileExpression";
+import type { UvBounds } from "./ParametricInputs";
+
+/** Cómo se lee cada sistema: la coordenada que da la expresión y las dos que recorre. */
+const SYSTEM_TEXT: Record<CoordinateSystem, { label: string; result: string; axes: [string, string]; hint: string }> = {
+    polar: {
+        label: "Superficie z = f(r,θ,t)",
+        result: "z",
+        axes: ["r", "θ"],
+        hint: "Usa r y theta. Con r desde un valor > 0 el dominio es una corona.",
+    },
+    cylindrical: {
+        label: "Superficie r = f(θ,z,t)",
+        result: "r",
+        axes: ["θ", "z"],
+        hint: "Usa theta y z; r es la distancia al eje z.",
+    },
+    spherical: {
+        label: "Superficie ρ = f(θ,φ,t)",
+        result: "ρ",
+        axes: ["θ", "φ"],
+        hint: "Usa theta (alrededor del eje z) y phi (ángulo desde el eje z, entre 0 y pi).",
+    },
+};
+
+type Props = {
+    system: CoordinateSystem;
+    expression: string;
+    /** límites de las dos coordenadas, en el orden de SYSTEM_TEXT[system].axes */
+    bounds: UvBounds;
+    cells: { u: number; v: number };
+    exprError: ExpressionError | null;
+    boundErrors: Record<keyof UvBounds, ExpressionError | null>;
+    onExpressionChange: (value: string) => void;
+    onBoundChange: (bound: keyof UvBounds, value: string) => void;
+    onCellsChange: (cells: { u: number; v: number }) => void;
+};
+
+export default function CoordinateInputs({
+    system,
+    expression,
+    bounds,
+    cells,
+    exprError,
+    boundErrors,
+    onExpressionChange,
+    onBoundChange,
+    onCellsChange,
+}: Props) {
+    const text = SYSTEM_TEXT[system];
+    const boundInput = (bound: keyof UvBounds) => (
+        <input
+            type="text"
+            className={`form-control form-control-sm font-monospace${boundErrors[bound] ? " is-invalid" : ""}`}
+            value={bounds[bound]}
+            onChange={(e) => onBoundChange(bound, e.target.value)}
+            title={boundErrors[bound]?.message}
+        />
+    );
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">{text.label}</label>
+            <div className="input-group input-group-sm mb-2">
+                <span className="input-group-text font-monospace">{text.result} =</span>
+                <input
+                    type="text"
+                    className={`form-control font-monospace${exprError ? " is-invalid" : ""}`}
+                    value={expression}
+                    onChange={(e) => onExpressionChange(e.target.value)}
+                />
+            </div>
+            {exprError && <div className="invalid-feedback d-block mb-2">{exprError.message}</div>}
+
+            {(["u", "v"] as const).map((axis, index) => (
+                <div key={axis} className="mb-2">
+                    <div className="input-group input-group-sm">
+                        {boundInput(axis === "u" ? "uMin" : "vMin")}
+                        <span className="input-group-text font-monospace">≤ {text.axes[index]} ≤</span>
+                        {boundInput(axis === "u" ? "uMax" : "vMax")}
+                    </div>
+                    <label className="form-label d-flex justify-content-between mt-1 mb-0">
+                        <span>Resolución en {text.axes[index]}</span>
+                        <span className="badge bg-dark-subtle text-dark-emphasis">{cells[axis]}</span>
+                    </label>
+                    <input
+                        type="range"
+                        min="8"
+                        max="200"
+                        step="4"
+                        className="form-range"
+                        value={cells[axis]}
+                        onChange={(e) => onCellsChange({ ...cells, [axis]: Number(e.target.value) })}
+                    />
+                </div>
+            ))}
+            <div className="form-text">{text.hint}</div>
+        </div>
+    );
+}
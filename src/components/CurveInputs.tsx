@@ -0,0 +1,85 @@
+// CurveInputs.tsx
+// Entradas de una curva r(t) = (x(t), y(t), z(t)): las tres componentes, el intervalo de t
+// (admite expresiones constantes como 4*pi) y la cantidad de tramos del muestreo.
+
+import type { Component, ExpressionError } from "../utils/compileExpression";
+
+/** Límites de t tal como los escribe el usuario. */
+export type TBounds = { tMin: string; tMax: string };
+
+type Props = {
+    exprs: Record<Component, string>;
+    bounds: TBounds;
+    samples: number;
+    exprErrors: Record<Component, ExpressionError | null>;
+    boundErrors: Record<keyof TBounds, ExpressionError | null>;
+    onExprChange: (component: Component, value: string) => void;
+    onBoundChange: (bound: keyof TBounds, value: string) => void;
+    onSamplesChange: (samples: number) => void;
+};
+
+export default function CurveInputs({
+    exprs,
+    bounds,
+    samples,
+    exprErrors,
+    boundErrors,
+    onExprChange,
+    onBoundChange,
+    onSamplesChange,
+}: Props) {
+    const boundInput = (bound: keyof TBounds) => (
+        <input
+            type="text"
+            className={`form-control form-control-sm font-monospace${boundErrors[bound] ? " is-invalid" : ""}`}
+            value={bounds[bound]}
+            onChange={(e) => onBoundChange(bound, e.target.value)}
+            title={boundErrors[bound]?.message}
+        />
+    );
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">Curva r(t) = (x, y, z)</label>
+            {(["x", "y", "z"] as const).map((component) => (
+                <div key={component} className="mb-2">
+                    <div className="input-group input-group-sm">
+                        <span className="input-group-text font-monospace">{component} =</span>
+                        <input
+                            type="text"
+                            className={`form-control font-monospace${exprErrors[component] ? " is-invalid" : ""}`}
+                            value={exprs[component]}
+                            onChange={(e) => onExprChange(component, e.target.value)}
+                        />
+                    </div>
+                    {exprErrors[component] && (
+                        <div className="invalid-feedback d-block">{exprErrors[component]!.message}</div>
+                    )}
+                </div>
+            ))}
+
+            <div className="input-group input-group-sm mb-2">
+                {boundInput("tMin")}
+                <span className="input-group-text font-monospace">≤ t ≤</span>
+                {boundInput("tMax")}
+            </div>
+            <label className="form-label d-flex justify-content-between mb-0">
+                <span>Tramos</span>
+                <span className="badge bg-dark-subtle text-dark-emphasis">{samples}</span>
+            </label>
+            <input
+                type="range"
+                min="50"
+                max="2000"
+                step="50"
+                className="form-range"
+                value={samples}
+                onChange={(e) => onSamplesChange(Number(e.target.value))}
+            />
+            <div className="form-text">
+                Ejemplos: hélice <code>(cos(t), sin(t), t/3)</code>, nudo de trébol{" "}
+                <code>(sin(t) + 2*sin(2*t), cos(t) - 2*cos(2*t), -sin(3*t))</code>.
+            </div>
+        </div>
+    );
+}
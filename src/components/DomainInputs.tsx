@@ -0,0 +1,74 @@
+// DomainInputs.tsx
+// Dominio de z = f(x,y) como restricciones h(x,y) ≤ 0: añadir y quitar restricciones y elegir si deben
+// cumplirse todas (Y) o alguna (O). Fuera del dominio no se dibuja ni se integra.
+
+import type { ExpressionError } from "../utils/compileExpression";
+import type { DomainCombine } from "../utils/domainMask";
+
+type Props = {
+    constraints: string[];
+    combine: DomainCombine;
+    /** error de cada restricción, en el mismo orden */
+    errors: Array<ExpressionError | null>;
+    onConstraintsChange: (constraints: string[]) => void;
+    onCombineChange: (combine: DomainCombine) => void;
+};
+
+export default function DomainInputs({ constraints, combine, errors, onConstraintsChange, onCombineChange }: Props) {
+    const update = (index: number, value: string) =>
+        onConstraintsChange(constraints.map((constraint, k) => (k === index ? value : constraint)));
+
+    return (
+        <div className="mb-3">
+            <div className="d-flex justify-content-between align-items-center mb-1">
+                <label className="form-label mb-0">Dominio h(x,y) ≤ 0 (opcional)</label>
+                <button
+                    type="button"
+                    className="btn btn-sm btn-outline-secondary py-0"
+                    onClick={() => onConstraintsChange([...constraints, ""])}
+                >
+                    Añadir
+                </button>
+            </div>
+            {constraints.length > 1 && (
+                <select
+                    className="form-select form-select-sm mb-1"
+                    value={combine}
+                    onChange={(e) => onCombineChange(e.target.value as DomainCombine)}
+                >
+                    <option value="and">Todas (Y): intersección</option>
+                    <option value="or">Alguna (O): unión</option>
+                </select>
+            )}
+            {constraints.map((constraint, index) => (
+                <div key={index} className="mb-1">
+                    <div className="input-group input-group-sm">
+                        <span className="input-group-text font-monospace">h{index + 1} =</span>
+                        <input
+                            type="text"
+                            className={`form-control font-monospace${errors[index] ? " is-invalid" : ""}`}
+                            value={constraint}
+                            onChange={(e) => update(index, e.target.value)}
+                            placeholder="p.ej. x^2 + y^2 - 4"
+                        />
+                        <span className="input-group-text font-monospace">≤ 0</span>
+                        <button
+                            type="button"
+                            className="btn btn-outline-danger"
+                            onClick={() => onConstraintsChange(constraints.filter((_, k) => k !== index))}
+                            title="Quitar la restricción"
+                        >
+                            ×
+                        </button>
+                    </div>
+                    {errors[index] && <div className="invalid-feedback d-block">{errors[index]!.message}</div>}
+                </div>
+            ))}
+            <div className="form-text">
+                Vacío = todo el plano. Recorta la malla en todos los visores de z = f(x,y) y, en el Inspector,
+                las integrales y la búsqueda de extremos. Ejemplo: <code>-x</code> y <code>x^2 + y^2 - 9</code>{" "}
+                con Y dan el semidisco x ≥ 0.
+            </div>
+        </div>
+    );
+}
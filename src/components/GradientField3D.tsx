@@ -1,8 +1,25 @@
 // src/components/GradientField3D.tsx
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import type { Fn3 } from "../utils/compileExpression";
+import {
+    EvaluationBudgetError,
+    evaluationBudget,
+    type Fn2,
+    type Fn3,
+    type VectorField,
+} from "../utils/compileExpression";
+import type { Vec3 } from "../utils/parametricMesh";
+import {
+    planeStreamlineOptions,
+    seedRake,
+    traceStreamline,
+    type StopReason,
+    type Streamline,
+    type Velocity,
+} from "../utils/streamlines";
+import { fieldAt } from "../utils/vectorField";
+import ViewerError from "./ViewerError";
 
 
 /**
@@ -17,6 +34,13 @@ import type { Fn3 } from "../utils/compileExpression";
  *  - t: parámetro de tiempo t
  *  - vectorScale: factor de escala para el largo de las flechas
  *  - step: h para diferencias finitas (derivadas parciales)
+ *  - gradient: derivadas parciales exactas (simbólicas); si se pasan, `step` no se usa
+ *  - flow: campo de las líneas de flujo: -∇f (descenso), ∇f (ascenso) o `flowField`
+ *  - flowField: campo plano (P, Q) para flow = "field"
+ *  - domain: h(x,y); solo se dibuja donde h ≤ 0 (superficie, flechas y líneas de flujo)
+ *
+ * Un clic (sin arrastrar) en el plano z=0 siembra una línea de flujo; se dibuja en el plano y
+ * elevada sobre la superficie.
  */
 type Props = {
     expression: Fn3;
@@ -26,7 +50,23 @@ type Props = {
     t?: number;
     vectorScale?: number;
     step?: number;
+    gradient?: { fx: Fn3; fy: Fn3 } | null;
     height?: number; // altura a la que se dibuja la superficie centrada (default 0)
+    flow?: FlowKind;
+    flowField?: VectorField | null;
+    domain?: Fn2 | null;
+};
+
+export type FlowKind = "descent" | "ascent" | "field";
+
+// semillas que reparte el rastrillo entre las dos últimas
+const RAKE_SEEDS = 12;
+
+const STOP_LABEL: Record<StopReason, string> = {
+    critical: "punto crítico",
+    boundary: "borde",
+    undefined: "valor indefinido",
+    length: "largo máximo",
 };
 
 export default function GradientField3D({
@@ -37,12 +77,62 @@ export default function GradientField3D({
     t = 0,
     vectorScale = 0.5,
     step = 1e-3,
+    gradient = null,
     height = 0,
+    flow = "descent",
+    flowField = null,
+    domain = null,
 }: Props) {
     const containerRef = useRef<HTMLDivElement | null>(null);
+    // mensaje si la evaluación superó el presupuesto de tiempo
+    const [budgetError, setBudgetError] = useState<string | null>(null);
+
+    // —— líneas de flujo: semillas (x, y, 0) puestas con clic o con el rastrillo
+    const [seeds, setSeeds] = useState<Vec3[]>([]);
+    const streamGroupRef = useRef<THREE.Group | null>(null);
+
+    const velocity = useMemo<Velocity>(() => {
+        if (flow === "field") {
+            return ([x, y]) => {
+                if (!flowField) return [NaN, NaN, 0];
+                const [p, q] = fieldAt(flowField, x, y, 0);
+                return [p, q, 0];
+            };
+        }
+        const sign = flow === "ascent" ? 1 : -1;
+        return ([x, y]) => {
+            const fx = gradient
+                ? gradient.fx(x, y, t)
+                : (expression(x + step, y, t) - expression(x - step, y, t)) / (2 * step);
+            const fy = gradient
+                ? gradient.fy(x, y, t)
+                : (expression(x, y + step, t) - expression(x, y - step, t)) / (2 * step);
+            return [sign * fx, sign * fy, 0];
+        };
+    }, [flow, flowField, expression, gradient, step, t]);
+
+    const { streamlines, streamError } = useMemo(() => {
+        // fuera del dominio la línea se corta como en el borde de la caja
+        const options = {
+            ...planeStreamlineOptions(range),
+            inside: domain ? ([x, y]: Vec3) => domain(x, y) <= 0 : undefined,
+        };
+        const tick = evaluationBudget();
+        const timed: Velocity = (p) => {
+            tick();
+            return velocity(p);
+        };
+        try {
+            return { streamlines: seeds.map((seed) => traceStreamline(timed, seed, options)), streamError: null };
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            return { streamlines: [] as Streamline[], streamError: error.message };
+        }
+    }, [seeds, velocity, range, domain]);
 
     useEffect(() => {
         if (!containerRef.current) return;
+        setBudgetError(null);
 
         // --- Escena básica ---
         const scene = new THREE.Scene();
@@ -98,14 +188,25 @@ export default function GradientField3D({
 
         const pos = surfaceGeom.attributes.position as THREE.BufferAttribute;
         const validity: boolean[] = new Array(pos.count).fill(false);
-        for (let i = 0; i < pos.count; i++) {
-            const x = pos.getX(i);
-            const y = pos.getZ(i); // tras la rotación, Z del geometry es Y del mundo
-            const rawZ = expression(x, y, t);
-            const isValid = Number.isFinite(rawZ);
-            validity[i] = isValid;
-            const z = (isValid ? Number(rawZ) : 0) + height;
-            pos.setY(i, z);
+        // una sola pasada con presupuesto para superficie y flechas; si se agota no se dibuja nada
+        const tick = evaluationBudget();
+        let stalled = false;
+        try {
+            for (let i = 0; i < pos.count; i++) {
+                tick();
+                const x = pos.getX(i);
+                const y = pos.getZ(i); // tras la rotación, Z del geometry es Y del mundo
+                const rawZ = expression(x, y, t);
+                const isValid = Number.isFinite(rawZ) && (!domain || domain(x, y) <= 0);
+                validity[i] = isValid;
+                const z = (isValid ? Number(rawZ) : 0) + height;
+                pos.setY(i, z);
+            }
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            stalled = true;
+            validity.fill(false);
+            setBudgetError(error.message);
         }
         surfaceGeom.computeVertexNormals();
 
@@ -142,42 +243,96 @@ export default function GradientField3D({
         // --- Campo gradiente (flechas) en z=0 ---
         const arrowsGroup = new THREE.Group();
         world.add(arrowsGroup);
+        const disposeArrows = () => {
+            arrowsGroup.children.forEach((obj) => {
+                const a = obj as THREE.ArrowHelper;
+                (a.line.material as THREE.Material).dispose();
+                (a.cone.material as THREE.Material).dispose();
+                a.cone.geometry.dispose();
+                a.line.geometry.dispose();
+            });
+            arrowsGroup.clear();
+        };
 
         // Malla regular para las flechas
         const n = Math.max(2, vectors);
-        for (let i = 0; i < n; i++) {
-            const xi = -range + (2 * range * i) / (n - 1);
-            for (let j = 0; j < n; j++) {
-                const yj = -range + (2 * range * j) / (n - 1);
-
-                // Derivadas numéricas centrales
-                const fx =
-                    (expression(xi + step, yj, t) - expression(xi - step, yj, t)) /
-                    (2 * step);
-                const fy =
-                    (expression(xi, yj + step, t) - expression(xi, yj - step, t)) /
-                    (2 * step);
-
-                // Vector en el plano (fx, fy, 0)
-                const v = new THREE.Vector3(fx, 0, fy);
-                const length = v.length();
-
-                if (Number.isFinite(length) && length > 1e-9) {
-                    const dirNorm = v.clone().normalize();
-                    const arrow = new THREE.ArrowHelper(
-                        dirNorm,
-                        new THREE.Vector3(xi, 0, yj),
-                        Math.min(range * 0.35, length * vectorScale),
-                        0x0033cc,
-                        // tamaños de cabeza: proporcionados al largo
-                        Math.min(0.35, 0.15 + 0.6 * Math.tanh(length)),
-                        Math.min(0.2, 0.08 + 0.4 * Math.tanh(length))
-                    );
-                    arrowsGroup.add(arrow);
+        if (!stalled) {
+            try {
+                for (let i = 0; i < n; i++) {
+                    const xi = -range + (2 * range * i) / (n - 1);
+                    for (let j = 0; j < n; j++) {
+                        tick();
+                        const yj = -range + (2 * range * j) / (n - 1);
+                        if (domain && !(domain(xi, yj) <= 0)) continue;
+
+                        // Derivadas exactas si hay forma simbólica; si no, numéricas centrales
+                        const fx = gradient
+                            ? gradient.fx(xi, yj, t)
+                            : (expression(xi + step, yj, t) - expression(xi - step, yj, t)) /
+                              (2 * step);
+                        const fy = gradient
+                            ? gradient.fy(xi, yj, t)
+                            : (expression(xi, yj + step, t) - expression(xi, yj - step, t)) /
+                              (2 * step);
+
+                        // Vector en el plano (fx, fy, 0)
+                        const v = new THREE.Vector3(fx, 0, fy);
+                        const length = v.length();
+
+                        if (Number.isFinite(length) && length > 1e-9) {
+                            const dirNorm = v.clone().normalize();
+                            const arrow = new THREE.ArrowHelper(
+                                dirNorm,
+                                new THREE.Vector3(xi, 0, yj),
+                                Math.min(range * 0.35, length * vectorScale),
+                                0x0033cc,
+                                // tamaños de cabeza: proporcionados al largo
+                                Math.min(0.35, 0.15 + 0.6 * Math.tanh(length)),
+                                Math.min(0.2, 0.08 + 0.4 * Math.tanh(length))
+                            );
+                            arrowsGroup.add(arrow);
+                        }
+                    }
                 }
+            } catch (error) {
+                if (!(error instanceof EvaluationBudgetError)) throw error;
+                setBudgetError(error.message);
+                surfaceGeom.setIndex([]);
+                disposeArrows();
             }
         }
 
+        // --- Líneas de flujo (las dibuja el efecto de abajo) y siembra con clic en z=0 ---
+        const streamGroup = new THREE.Group();
+        world.add(streamGroup);
+        streamGroupRef.current = streamGroup;
+
+        const raycaster = new THREE.Raycaster();
+        const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+        let down: { x: number; y: number } | null = null;
+        const onPointerDown = (e: PointerEvent) => {
+            down = { x: e.clientX, y: e.clientY };
+        };
+        const onPointerUp = (e: PointerEvent) => {
+            // un arrastre es para girar la cámara; solo un clic quieto siembra
+            if (!down || Math.hypot(e.clientX - down.x, e.clientY - down.y) > 4) return;
+            down = null;
+            const rect = renderer.domElement.getBoundingClientRect();
+            const ndc = new THREE.Vector2(
+                ((e.clientX - rect.left) / rect.width) * 2 - 1,
+                -((e.clientY - rect.top) / rect.height) * 2 + 1
+            );
+            raycaster.setFromCamera(ndc, camera);
+            const hit = raycaster.ray.intersectPlane(groundPlane, new THREE.Vector3());
+            // en la escena el eje Z es la y del plano
+            const inDomain = !domain || (hit !== null && domain(hit.x, hit.z) <= 0);
+            if (hit && Math.abs(hit.x) <= range && Math.abs(hit.z) <= range && inDomain) {
+                setSeeds((prev) => [...prev, [hit.x, hit.z, 0]]);
+            }
+        };
+        renderer.domElement.addEventListener("pointerdown", onPointerDown);
+        renderer.domElement.addEventListener("pointerup", onPointerUp);
+
         // --- Render loop ---
         let raf = 0;
         const render = () => {
@@ -202,17 +357,15 @@ export default function GradientField3D({
         return () => {
             cancelAnimationFrame(raf);
             window.removeEventListener("resize", onResize);
+            renderer.domElement.removeEventListener("pointerdown", onPointerDown);
+            renderer.domElement.removeEventListener("pointerup", onPointerUp);
+            disposeStreamlines(streamGroup);
+            streamGroupRef.current = null;
             controls.dispose();
             renderer.dispose();
             surfaceGeom.dispose();
             (surfaceMat as THREE.Material).dispose();
-            arrowsGroup.children.forEach((obj) => {
-                const a = obj as THREE.ArrowHelper;
-                (a.line.material as THREE.Material).dispose();
-                (a.cone.material as THREE.Material).dispose();
-                a.cone.geometry.dispose();
-                a.line.geometry.dispose();
-            });
+            disposeArrows();
             grid.geometry.dispose();
             (grid.material as THREE.Material).dispose();
             axes.geometry.dispose();
@@ -220,7 +373,56 @@ export default function GradientField3D({
             scene.clear();
             renderer.domElement.remove();
         };
-    }, [expression, range, resolution, vectors, t, vectorScale, step, height]);
+    }, [expression, range, resolution, vectors, t, vectorScale, step, gradient, height, domain]);
+
+    // Dibuja las líneas en el grupo del efecto principal; repite sus dependencias para volver a dibujar
+    // cuando ese efecto rehace la escena, sin reiniciar la cámara al sembrar.
+    useEffect(() => {
+        const group = streamGroupRef.current;
+        if (!group) return;
+        const lift = 0.01 * range;
+        const planeMat = new THREE.LineBasicMaterial({ color: 0x7b2cbf });
+        const surfaceMat = new THREE.LineBasicMaterial({ color: 0x222222 });
+        const seedGeom = new THREE.SphereGeometry(0.012 * range + 0.03, 12, 12);
+        const seedMat = new THREE.MeshBasicMaterial({ color: 0x7b2cbf });
+
+        for (const seed of seeds) {
+            const marker = new THREE.Mesh(seedGeom, seedMat);
+            marker.position.set(seed[0], lift, seed[1]);
+            group.add(marker);
+        }
+        for (const line of streamlines) {
+            const plane = line.points.map(([x, y]) => new THREE.Vector3(x, lift, y));
+            group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(plane), planeMat));
+            // sobre la superficie se corta en los tramos donde f no está definida
+            let run: THREE.Vector3[] = [];
+            const flush = () => {
+                if (run.length > 1) group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(run), surfaceMat));
+                run = [];
+            };
+            for (const [x, y] of line.points) {
+                const z = expression(x, y, t);
+                if (Number.isFinite(z)) run.push(new THREE.Vector3(x, z + height + lift, y));
+                else flush();
+            }
+            flush();
+        }
+
+        return () => {
+            disposeStreamlines(group);
+            planeMat.dispose();
+            surfaceMat.dispose();
+            seedGeom.dispose();
+            seedMat.dispose();
+        };
+    }, [seeds, streamlines, expression, range, resolution, vectors, t, vectorScale, step, gradient, height, domain]);
+
+    // resumen de por qué se cortaron las líneas (ambas mitades)
+    const stops = new Map<StopReason, number>();
+    for (const line of streamlines) {
+        for (const reason of [line.backward, line.forward]) stops.set(reason, (stops.get(reason) ?? 0) + 1);
+    }
+    const fieldError = flow === "field" && flowField?.error ? flowField.error.error.message : null;
 
     return (
         <div
@@ -231,6 +433,63 @@ export default function GradientField3D({
                 minHeight: 420,
                 position: "relative",
             }}
-        />
+        >
+            <ViewerError message={budgetError} />
+            <div
+                style={{
+                    position: "absolute",
+                    bottom: 8,
+                    left: 8,
+                    maxWidth: 300,
+                    padding: "6px 10px",
+                    background: "rgba(255,255,255,0.92)",
+                    border: "1px solid #ddd",
+                    borderRadius: 8,
+                    fontFamily: "Arial, sans-serif",
+                    fontSize: 12,
+                }}
+            >
+                <div>
+                    <b>Líneas de flujo</b> ({seeds.length}): clic en el plano para sembrar
+                </div>
+                {stops.size > 0 && (
+                    <div style={{ color: "#555" }}>
+                        Cortes:{" "}
+                        {[...stops].map(([reason, count]) => `${count} en ${STOP_LABEL[reason]}`).join(", ")}
+                    </div>
+                )}
+                {(streamError || fieldError) && <div style={{ color: "#c00" }}>{streamError ?? fieldError}</div>}
+                <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+                    <button
+                        className="btn btn-sm btn-outline-secondary py-0"
+                        disabled={seeds.length < 2}
+                        title={`Reparte ${RAKE_SEEDS} semillas entre las dos últimas`}
+                        onClick={() =>
+                            setSeeds((prev) => [
+                                ...prev.slice(0, -2),
+                                ...seedRake(prev[prev.length - 2], prev[prev.length - 1], RAKE_SEEDS),
+                            ])
+                        }
+                    >
+                        Rastrillo
+                    </button>
+                    <button
+                        className="btn btn-sm btn-outline-secondary py-0"
+                        disabled={seeds.length === 0}
+                        onClick={() => setSeeds([])}
+                    >
+                        Borrar
+                    </button>
+                </div>
+            </div>
+        </div>
     );
 }
+
+/** Quita y libera las líneas del grupo; los materiales compartidos los libera quien los creó. */
+function disposeStreamlines(group: THREE.Group) {
+    group.children.forEach((obj) => {
+        if (obj instanceof THREE.Line) obj.geometry.dispose();
+    });
+    group.clear();
+}
@@ -0,0 +1,99 @@
+// ImplicitInputs.tsx
+// Entradas de una superficie implícita F(x,y,z) = c: la expresión, el nivel c, el intervalo de z
+// (admite expresiones constantes) y las celdas por eje de la grilla 3D de marching cubes.
+
+import type { ExpressionError } from "../utils/compileExpression";
+
+/** Límites de z tal como los escribe el usuario. */
+export type ZBounds = { zMin: string; zMax: string };
+
+type Props = {
+    expression: string;
+    level: number;
+    bounds: ZBounds;
+    cells: number;
+    exprError: ExpressionError | null;
+    boundErrors: Record<keyof ZBounds, ExpressionError | null>;
+    onExpressionChange: (value: string) => void;
+    onLevelChange: (value: number) => void;
+    onBoundChange: (bound: keyof ZBounds, value: string) => void;
+    onCellsChange: (cells: number) => void;
+};
+
+export default function ImplicitInputs({
+    expression,
+    level,
+    bounds,
+    cells,
+    exprError,
+    boundErrors,
+    onExpressionChange,
+    onLevelChange,
+    onBoundChange,
+    onCellsChange,
+}: Props) {
+    const boundInput = (bound: keyof ZBounds) => (
+        <input
+            type="text"
+            className={`form-control form-control-sm font-monospace${boundErrors[bound] ? " is-invalid" : ""}`}
+            value={bounds[bound]}
+            onChange={(e) => onBoundChange(bound, e.target.value)}
+            title={boundErrors[bound]?.message}
+        />
+    );
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">Superficie F(x,y,z) = c</label>
+            <div className="input-group input-group-sm mb-2">
+                <span className="input-group-text font-monospace">F =</span>
+                <input
+                    type="text"
+                    className={`form-control font-monospace${exprError ? " is-invalid" : ""}`}
+                    value={expression}
+                    onChange={(e) => onExpressionChange(e.target.value)}
+                />
+            </div>
+            {exprError && <div className="invalid-feedback d-block mb-2">{exprError.message}</div>}
+
+            <label className="form-label d-flex justify-content-between mb-0">
+                <span>Nivel c</span>
+                <span className="badge bg-dark-subtle text-dark-emphasis">{level.toFixed(1)}</span>
+            </label>
+            <input
+                type="range"
+                min="-5"
+                max="5"
+                step="0.1"
+                className="form-range"
+                value={level}
+                onChange={(e) => onLevelChange(Number(e.target.value))}
+            />
+
+            <div className="input-group input-group-sm mb-2">
+                {boundInput("zMin")}
+                <span className="input-group-text font-monospace">≤ z ≤</span>
+                {boundInput("zMax")}
+            </div>
+
+            <label className="form-label d-flex justify-content-between mb-0">
+                <span>Celdas por eje</span>
+                <span className="badge bg-dark-subtle text-dark-emphasis">{cells}</span>
+            </label>
+            <input
+                type="range"
+                min="16"
+                max="96"
+                step="8"
+                className="form-range"
+                value={cells}
+                onChange={(e) => onCellsChange(Number(e.target.value))}
+            />
+            <div className="form-text">
+                x e y recorren el rango (±) de abajo. Ejemplos: hiperboloide <code>x^2 + y^2 - z^2</code> con c = 1,
+                esfera <code>x^2 + y^2 + z^2</code> con c = 4, toro{" "}
+                <code>(sqrt(x^2 + y^2) - 2)^2 + z^2</code> con c = 0.5.
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,132 @@
+// LayerList.tsx
+// Lista de capas z = g(x,y,t) que se dibujan junto a la superficie principal: añadir, quitar, ocultar,
+// reordenar y, por capa, color, opacidad y modo alambre.
+
+import type { ExpressionError } from "../utils/compileExpression";
+import { createLayer, type SurfaceLayer } from "../utils/surfaceLayers";
+
+type Props = {
+    layers: SurfaceLayer[];
+    /** error de compilación de cada capa, por id */
+    errors: Record<number, ExpressionError | null>;
+    onChange: (layers: SurfaceLayer[]) => void;
+    /** expresión con la que nace una capa nueva (p.ej. la f actual, para editarla) */
+    template: string;
+};
+
+export default function LayerList({ layers, errors, onChange, template }: Props) {
+    const update = (id: number, patch: Partial<SurfaceLayer>) =>
+        onChange(layers.map((layer) => (layer.id === id ? { ...layer, ...patch } : layer)));
+    const move = (index: number, offset: number) => {
+        const next = [...layers];
+        const [layer] = next.splice(index, 1);
+        next.splice(index + offset, 0, layer);
+        onChange(next);
+    };
+    const add = () => {
+        const id = layers.reduce((max, layer) => Math.max(max, layer.id + 1), 0);
+        onChange([...layers, createLayer(id, template)]);
+    };
+
+    return (
+        <div className="mb-3">
+            <div className="d-flex justify-content-between align-items-center mb-1">
+                <label className="form-label mb-0">Capas z = g(x,y,t)</label>
+                <button type="button" className="btn btn-sm btn-outline-secondary py-0" onClick={add}>
+                    Añadir capa
+                </button>
+            </div>
+            {layers.map((layer, index) => {
+                const error = errors[layer.id];
+                return (
+                    <div key={layer.id} className="border rounded p-2 mb-2" style={{ opacity: layer.visible ? 1 : 0.6 }}>
+                        <div className="input-group input-group-sm">
+                            <span className="input-group-text p-1">
+                                <input
+                                    type="checkbox"
+                                    className="form-check-input mt-0"
+                                    checked={layer.visible}
+                                    onChange={(e) => update(layer.id, { visible: e.target.checked })}
+                                    title="Mostrar u ocultar la capa"
+                                />
+                            </span>
+                            <input
+                                type="color"
+                                className="form-control form-control-color p-1"
+                                style={{ maxWidth: 34 }}
+                                value={layer.color}
+                                onChange={(e) => update(layer.id, { color: e.target.value })}
+                                title="Color de la capa"
+                            />
+                            <input
+                                type="text"
+                                className={`form-control font-monospace${error ? " is-invalid" : ""}`}
+                                value={layer.expression}
+                                onChange={(e) => update(layer.id, { expression: e.target.value })}
+                                placeholder="p.ej. 1 + x + y"
+                            />
+                        </div>
+                        {error && <div className="invalid-feedback d-block">{error.message}</div>}
+                        <div className="d-flex align-items-center gap-2 mt-1">
+                            <input
+                                type="range"
+                                min="0.1"
+                                max="1"
+                                step="0.05"
+                                className="form-range flex-grow-1"
+                                value={layer.opacity}
+                                onChange={(e) => update(layer.id, { opacity: Number(e.target.value) })}
+                                title="Opacidad"
+                            />
+                            <span className="badge bg-dark-subtle text-dark-emphasis">{layer.opacity.toFixed(2)}</span>
+                            <div className="form-check form-switch mb-0" title="Dibujar como malla de alambre">
+                                <input
+                                    id={`layer-wire-${layer.id}`}
+                                    type="checkbox"
+                                    className="form-check-input"
+                                    checked={layer.wireframe}
+                                    onChange={(e) => update(layer.id, { wireframe: e.target.checked })}
+                                />
+                                <label className="form-check-label" htmlFor={`layer-wire-${layer.id}`}>
+                                    Alambre
+                                </label>
+                            </div>
+                            <div className="btn-group btn-group-sm">
+                                <button
+                                    type="button"
+                                    className="btn btn-outline-secondary py-0"
+                                    disabled={index === 0}
+                                    onClick={() => move(index, -1)}
+                                    title="Subir"
+                                >
+                                    ↑
+                                </button>
+                                <button
+                                    type="button"
+                                    className="btn btn-outline-secondary py-0"
+                                    disabled={index === layers.length - 1}
+                                    onClick={() => move(index, 1)}
+                                    title="Bajar"
+                                >
+                                    ↓
+                                </button>
+                                <button
+                                    type="button"
+                                    className="btn btn-outline-danger py-0"
+                                    onClick={() => onChange(layers.filter((other) => other.id !== layer.id))}
+                                    title="Quitar la capa"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+            <div className="form-text">
+                Se dibujan en Inspector y Draggable junto a la superficie principal; p.ej. f y su plano tangente o su
+                polinomio de Taylor. El orden de la lista es el orden de dibujo de las capas translúcidas.
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+// ParameterSliders.tsx
+// Un slider por cada parámetro libre detectado en las expresiones (a, b, k...), con min/max/paso editables.
+
+import { useState } from "react";
+import { parameterSetting, type ParameterSetting } from "../utils/parameterSettings";
+
+type Props = {
+    /** nombres de los parámetros libres, en el orden en que se muestran */
+    names: string[];
+    /** configuración guardada por nombre (los que falten usan la de por defecto) */
+    settings: Record<string, ParameterSetting>;
+    onChange: (name: string, setting: ParameterSetting) => void;
+};
+
+export default function ParameterSliders({ names, settings, onChange }: Props) {
+    if (names.length === 0) return null;
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">Parámetros</label>
+            {names.map((name) => {
+                const setting = parameterSetting(settings, name);
+                const update = (patch: Partial<ParameterSetting>) => onChange(name, { ...setting, ...patch });
+                // acotar el valor cuando se confirman los límites
+                const updateBounds = (min: number, max: number) => {
+                    if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) return;
+                    update({ min, max, value: Math.min(max, Math.max(min, setting.value)) });
+                };
+                return (
+                    <div key={name} className="mb-2">
+                        <div className="d-flex justify-content-between">
+                            <code>{name}</code>
+                            <span className="badge bg-dark-subtle text-dark-emphasis">{setting.value}</span>
+                        </div>
+                        <input
+                            type="range"
+                            className="form-range"
+                            min={setting.min}
+                            max={setting.max}
+                            step={setting.step}
+                            value={setting.value}
+                            onChange={(e) => update({ value: Number(e.target.value) })}
+                        />
+                        <div className="d-flex gap-1">
+                            <BoundInput
+                                title="mínimo"
+                                value={setting.min}
+                                onCommit={(min) => updateBounds(min, setting.max)}
+                            />
+                            <BoundInput
+                                title="máximo"
+                                value={setting.max}
+                                onCommit={(max) => updateBounds(setting.min, max)}
+                            />
+                            <input
+                                type="number"
+                                className="form-control form-control-sm"
+                                title="paso"
+                                min="0"
+                                value={setting.step}
+                                onChange={(e) => {
+                                    const step = Number(e.target.value);
+                                    if (step > 0) update({ step });
+                                }}
+                            />
+                        </div>
+                    </div>
+                );
+            })}
+            <div className="form-text">
+                Identificadores distintos de <code>x</code>, <code>y</code>, <code>t</code>; se aplican en todos los visores.
+            </div>
+        </div>
+    );
+}
+
+type BoundInputProps = {
+    title: string;
+    value: number;
+    onCommit: (value: number) => void;
+};
+
+/**
+ * Límite del slider: lo escrito es un borrador que se aplica al salir del campo o con Enter, para que
+ * los valores intermedios ("", "-", el 1 de 10) no recorten el valor del parámetro.
+ */
+function BoundInput({ title, value, onCommit }: BoundInputProps) {
+    const [draft, setDraft] = useState<string | null>(null);
+    const commit = () => {
+        if (draft !== null && draft.trim() !== "" && Number.isFinite(Number(draft))) onCommit(Number(draft));
+        setDraft(null);
+    };
+
+    return (
+        <input
+            type="number"
+            className="form-control form-control-sm"
+            title={title}
+            value={draft ?? value}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === "Enter") commit();
+                if (e.key === "Escape") setDraft(null);
+            }}
+        />
+    );
+}
@@ -0,0 +1,92 @@
+// ParametricInputs.tsx
+// Entradas de una superficie paramétrica r(u,v,t): las tres componentes, los intervalos de u y v
+// (admiten expresiones constantes como 2*pi) y la resolución de cada eje.
+
+import type { Component, ExpressionError } from "../utils/compileExpression";
+
+/** Límites de u y v tal como los escribe el usuario. */
+export type UvBounds = { uMin: string; uMax: string; vMin: string; vMax: string };
+
+type Props = {
+    exprs: Record<Component, string>;
+    bounds: UvBounds;
+    /** celdas de la malla en u y en v */
+    cells: { u: number; v: number };
+    /** errores por componente y por límite (null si es válido) */
+    exprErrors: Record<Component, ExpressionError | null>;
+    boundErrors: Record<keyof UvBounds, ExpressionError | null>;
+    onExprChange: (component: Component, value: string) => void;
+    onBoundChange: (bound: keyof UvBounds, value: string) => void;
+    onCellsChange: (cells: { u: number; v: number }) => void;
+};
+
+export default function ParametricInputs({
+    exprs,
+    bounds,
+    cells,
+    exprErrors,
+    boundErrors,
+    onExprChange,
+    onBoundChange,
+    onCellsChange,
+}: Props) {
+    const boundInput = (bound: keyof UvBounds) => (
+        <input
+            type="text"
+            className={`form-control form-control-sm font-monospace${boundErrors[bound] ? " is-invalid" : ""}`}
+            value={bounds[bound]}
+            onChange={(e) => onBoundChange(bound, e.target.value)}
+            title={boundErrors[bound]?.message}
+        />
+    );
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">Superficie r(u,v,t) = (x, y, z)</label>
+            {(["x", "y", "z"] as const).map((component) => (
+                <div key={component} className="mb-2">
+                    <div className="input-group input-group-sm">
+                        <span className="input-group-text font-monospace">{component} =</span>
+                        <input
+                            type="text"
+                            className={`form-control font-monospace${exprErrors[component] ? " is-invalid" : ""}`}
+                            value={exprs[component]}
+                            onChange={(e) => onExprChange(component, e.target.value)}
+                        />
+                    </div>
+                    {exprErrors[component] && (
+                        <div className="invalid-feedback d-block">{exprErrors[component]!.message}</div>
+                    )}
+                </div>
+            ))}
+
+            {(["u", "v"] as const).map((axis) => (
+                <div key={axis} className="mb-2">
+                    <div className="input-group input-group-sm">
+                        {boundInput(axis === "u" ? "uMin" : "vMin")}
+                        <span className="input-group-text font-monospace">≤ {axis} ≤</span>
+                        {boundInput(axis === "u" ? "uMax" : "vMax")}
+                    </div>
+                    <label className="form-label d-flex justify-content-between mt-1 mb-0">
+                        <span>Resolución en {axis}</span>
+                        <span className="badge bg-dark-subtle text-dark-emphasis">{cells[axis]}</span>
+                    </label>
+                    <input
+                        type="range"
+                        min="8"
+                        max="200"
+                        step="4"
+                        className="form-range"
+                        value={cells[axis]}
+                        onChange={(e) => onCellsChange({ ...cells, [axis]: Number(e.target.value) })}
+                    />
+                </div>
+            ))}
+            <div className="form-text">
+                Los límites admiten expresiones constantes (<code>2*pi</code>) y parámetros. Ejemplos: toro{" "}
+                <code>((2+cos(v))*cos(u), (2+cos(v))*sin(u), sin(v))</code>, helicoide{" "}
+                <code>(v*cos(u), v*sin(u), u/2)</code>.
+            </div>
+        </div>
+    );
+}
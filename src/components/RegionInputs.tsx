@@ -0,0 +1,83 @@
+// RegionInputs.tsx
+// Región del plano para z = f(x,y): el cuadrado ±rango, un rectángulo [xmin, xmax] × [ymin, ymax] o una
+// región tipo I (a ≤ x ≤ b, g1(x) ≤ y ≤ g2(x)) o tipo II (c ≤ y ≤ d, h1(y) ≤ x ≤ h2(y)).
+
+import type { ExpressionError } from "../utils/compileExpression";
+
+/** Forma de la región; "square" es el cuadrado [-rango, rango]² de siempre. */
+export type RegionKind = "square" | "box" | "typeI" | "typeII";
+
+/** Límites y curvas tal como los escribe el usuario (los límites admiten expresiones constantes). */
+export type RegionFields = { xMin: string; xMax: string; yMin: string; yMax: string; lower: string; upper: string };
+
+type Props = {
+    kind: RegionKind;
+    fields: RegionFields;
+    errors: Record<keyof RegionFields, ExpressionError | null>;
+    onKindChange: (kind: RegionKind) => void;
+    onFieldChange: (field: keyof RegionFields, value: string) => void;
+};
+
+export default function RegionInputs({ kind, fields, errors, onKindChange, onFieldChange }: Props) {
+    const input = (field: keyof RegionFields) => (
+        <input
+            type="text"
+            className={`form-control font-monospace${errors[field] ? " is-invalid" : ""}`}
+            value={fields[field]}
+            onChange={(e) => onFieldChange(field, e.target.value)}
+            title={errors[field]?.message}
+        />
+    );
+    // en tipo I las curvas son funciones de x y acotan y; en tipo II, al revés
+    const [free, bounded] = kind === "typeII" ? ["y", "x"] : ["x", "y"];
+    const curveError = errors.lower ?? errors.upper;
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">Región de f(x,y)</label>
+            <select
+                className="form-select form-select-sm mb-2"
+                value={kind}
+                onChange={(e) => onKindChange(e.target.value as RegionKind)}
+            >
+                <option value="square">Cuadrado ±rango</option>
+                <option value="box">Rectángulo [xmin, xmax] × [ymin, ymax]</option>
+                <option value="typeI">Tipo I: a ≤ x ≤ b, g1(x) ≤ y ≤ g2(x)</option>
+                <option value="typeII">Tipo II: c ≤ y ≤ d, h1(y) ≤ x ≤ h2(y)</option>
+            </select>
+
+            {(kind === "box" || kind === "typeI") && (
+                <div className="input-group input-group-sm mb-1">
+                    {input("xMin")}
+                    <span className="input-group-text font-monospace">≤ x ≤</span>
+                    {input("xMax")}
+                </div>
+            )}
+            {(kind === "box" || kind === "typeII") && (
+                <div className="input-group input-group-sm mb-1">
+                    {input("yMin")}
+                    <span className="input-group-text font-monospace">≤ y ≤</span>
+                    {input("yMax")}
+                </div>
+            )}
+            {(kind === "typeI" || kind === "typeII") && (
+                <>
+                    <div className="input-group input-group-sm mb-1">
+                        {input("lower")}
+                        <span className="input-group-text font-monospace">≤ {bounded} ≤</span>
+                        {input("upper")}
+                    </div>
+                    {curveError && <div className="invalid-feedback d-block">{curveError.message}</div>}
+                    <div className="form-text">
+                        Curvas en {free}. Ejemplo: <code>0 ≤ x ≤ 1</code>, <code>x^2 ≤ y ≤ sqrt(x)</code>.
+                    </div>
+                </>
+            )}
+            {kind === "box" && (
+                <div className="form-text">
+                    P.ej. <code>log(x)</code> en [0.01, 4] × [-2, 2], sin malla desperdiciada en x ≤ 0.
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+// RevolutionInputs.tsx
+// Entradas del sólido de revolución: las curvas y = g(x) e y = h(x) que encierran la región, el
+// intervalo [a, b], el eje de giro (y = c o x = c; admiten expresiones constantes) y los tramos.
+
+import type { ExpressionError } from "../utils/compileExpression";
+import type { RevolutionAxis } from "../utils/revolution";
+
+/** Curvas, límites y eje tal como los escribe el usuario. */
+export type RevolutionFields = { outer: string; inner: string; a: string; b: string; axisAt: string };
+
+type Props = {
+    fields: RevolutionFields;
+    axis: RevolutionAxis;
+    samples: number;
+    errors: Record<keyof RevolutionFields, ExpressionError | null>;
+    onFieldChange: (field: keyof RevolutionFields, value: string) => void;
+    onAxisChange: (axis: RevolutionAxis) => void;
+    onSamplesChange: (samples: number) => void;
+};
+
+export default function RevolutionInputs({
+    fields,
+    axis,
+    samples,
+    errors,
+    onFieldChange,
+    onAxisChange,
+    onSamplesChange,
+}: Props) {
+    const input = (field: keyof RevolutionFields, placeholder?: string) => (
+        <input
+            type="text"
+            className={`form-control font-monospace${errors[field] ? " is-invalid" : ""}`}
+            value={fields[field]}
+            placeholder={placeholder}
+            onChange={(e) => onFieldChange(field, e.target.value)}
+            title={errors[field]?.message}
+        />
+    );
+    const curveError = errors.outer ?? errors.inner;
+
+    return (
+        <div className="mb-3">
+            <label className="form-label">Región entre dos curvas</label>
+            <div className="input-group input-group-sm mb-1">
+                <span className="input-group-text font-monospace">y = g(x) =</span>
+                {input("outer")}
+            </div>
+            <div className="input-group input-group-sm mb-1">
+                <span className="input-group-text font-monospace">y = h(x) =</span>
+                {input("inner", "0")}
+            </div>
+            {curveError && <div className="invalid-feedback d-block">{curveError.message}</div>}
+
+            <div className="input-group input-group-sm mb-2 mt-2">
+                {input("a")}
+                <span className="input-group-text font-monospace">≤ x ≤</span>
+                {input("b")}
+            </div>
+
+            <label className="form-label mb-1">Eje de giro</label>
+            <div className="input-group input-group-sm mb-2">
+                <select
+                    className="form-select"
+                    value={axis}
+                    onChange={(e) => onAxisChange(e.target.value as RevolutionAxis)}
+                >
+                    <option value="horizontal">Horizontal y =</option>
+                    <option value="vertical">Vertical x =</option>
+                </select>
+                {input("axisAt")}
+            </div>
+
+            <label className="form-label d-flex justify-content-between mb-0">
+                <span>Tramos</span>
+                <span className="badge bg-dark-subtle text-dark-emphasis">{samples}</span>
+            </label>
+            <input
+                type="range"
+                min="20"
+                max="400"
+                step="10"
+                className="form-range"
+                value={samples}
+                onChange={(e) => onSamplesChange(Number(e.target.value))}
+            />
+            <div className="form-text">
+                h vacía equivale a <code>0</code> (la región bajo g). Ejemplos: esfera <code>sqrt(1 - x^2)</code> en
+                [-1, 1] alrededor de y = 0; arandelas entre <code>x</code> y <code>x^2</code> alrededor de y = -1.
+            </div>
+        </div>
+    );
+}
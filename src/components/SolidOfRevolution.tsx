@@ -0,0 +1,345 @@
+// src/components/SolidOfRevolution.tsx
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import {
+    EvaluationBudgetError,
+    tryCompileProfile,
+    type Definitions,
+    type Parameters,
+} from "../utils/compileExpression";
+import {
+    buildRevolutionMesh,
+    revolutionVolumes,
+    type Profile,
+    type RevolutionSource,
+} from "../utils/revolution";
+
+/**
+ * Componente: SolidOfRevolution
+ * Gira la región entre y = g(x) e y = h(x), x ∈ [a, b], alrededor de una recta horizontal o vertical
+ * del plano. El ángulo barrido se elige con el deslizador (o se anima de 0 a 2π); el panel compara el
+ * volumen por discos/arandelas y por capas cilíndricas.
+ */
+type Props = {
+    solid: RevolutionSource;
+    /** valores de los parámetros libres (a, b, k...) usados en las curvas */
+    parameters?: Parameters;
+    /** definiciones compartidas (variables y funciones de usuario) */
+    definitions?: Definitions;
+};
+
+const PANEL_STYLE: CSSProperties = {
+    position: "absolute",
+    top: 8,
+    left: 8,
+    padding: "10px 12px",
+    background: "rgba(255,255,255,0.95)",
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    fontFamily: "Arial, sans-serif",
+    fontSize: 12,
+    boxShadow: "0 4px 12px rgba(0,0,0,0.08)",
+    maxWidth: 440,
+};
+
+// segundos que tarda el giro completo
+const LOOP_SECONDS = 6;
+const FULL_TURN = 2 * Math.PI;
+
+export default function SolidOfRevolution({ solid, parameters, definitions }: Props) {
+    const mountRef = useRef<HTMLDivElement | null>(null);
+    const outer = useMemo(
+        () => tryCompileProfile(solid.outer, parameters, definitions),
+        [solid.outer, parameters, definitions]
+    );
+    const inner = useMemo(
+        () => tryCompileProfile(solid.inner.trim() ? solid.inner : "0", parameters, definitions),
+        [solid.inner, parameters, definitions]
+    );
+    const profile = useMemo<Profile>(() => ({ outer: outer.fn, inner: inner.fn }), [outer, inner]);
+    const { a, b, axis, axisAt } = solid;
+    const emptyInterval = !(b > a) || !Number.isFinite(axisAt);
+
+    // volúmenes por ambos métodos (o el error si las curvas superan el presupuesto de evaluación)
+    const { volumes, budgetError } = useMemo(() => {
+        if (outer.error || inner.error || emptyInterval) return { volumes: null, budgetError: null };
+        try {
+            return { volumes: revolutionVolumes(profile, solid), budgetError: null };
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            return { volumes: null, budgetError: error.message };
+        }
+    }, [profile, solid, outer.error, inner.error, emptyInterval]);
+
+    // ángulo barrido, animable de 0 a 2π
+    const [sweep, setSweep] = useState(FULL_TURN);
+    const [playing, setPlaying] = useState(false);
+    const mesh = useMemo(() => {
+        if (!volumes) return null;
+        try {
+            return buildRevolutionMesh(profile, solid, sweep);
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            return null;
+        }
+    }, [volumes, profile, solid, sweep]);
+
+    // mallas que cambian con el ángulo (la escena se reconstruye solo al cambiar el sólido)
+    const meshRef = useRef<{ surface: THREE.Mesh; section: THREE.Mesh } | null>(null);
+
+    // —— escena: región y eje en el plano z = 0, sólido barrido
+    useEffect(() => {
+        if (!mountRef.current) return;
+        const container = mountRef.current;
+        const width = container.clientWidth;
+        const height = Math.max(360, container.clientHeight);
+
+        const scene = new THREE.Scene();
+        scene.background = new THREE.Color(0xffffff);
+
+        // borde de la región en θ = 0: g de a a b, h de b a a, y se cierra con los segmentos de los extremos
+        const outline: THREE.Vector3[] = [];
+        if (volumes) {
+            const n = Math.max(2, Math.round(solid.samples));
+            for (let i = 0; i <= n; i++) {
+                const x = a + ((b - a) * i) / n;
+                outline.push(new THREE.Vector3(x, profile.outer(x), 0));
+            }
+            for (let i = n; i >= 0; i--) {
+                const x = a + ((b - a) * i) / n;
+                outline.push(new THREE.Vector3(x, profile.inner(x), 0));
+            }
+            outline.push(outline[0].clone());
+        }
+        const finite = outline.filter((p) => Number.isFinite(p.y));
+
+        // caja del sólido completo (la región girada una vuelta) para encuadrar la cámara
+        const box = new THREE.Box3();
+        for (const p of finite) {
+            const rho = axis === "horizontal" ? Math.abs(p.y - axisAt) : Math.abs(p.x - axisAt);
+            box.expandByPoint(
+                axis === "horizontal"
+                    ? new THREE.Vector3(p.x, axisAt + rho, rho)
+                    : new THREE.Vector3(axisAt + rho, p.y, rho)
+            );
+            box.expandByPoint(
+                axis === "horizontal"
+                    ? new THREE.Vector3(p.x, axisAt - rho, -rho)
+                    : new THREE.Vector3(axisAt - rho, p.y, -rho)
+            );
+        }
+        if (box.isEmpty()) box.set(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1));
+        const center = box.getCenter(new THREE.Vector3());
+        const size = Math.max(1e-3, box.getSize(new THREE.Vector3()).length());
+
+        // la región se ve de frente como un gráfico en el plano xy; el giro sale hacia la cámara
+        const camera = new THREE.PerspectiveCamera(45, width / height, size * 0.01, size * 20);
+        camera.position.copy(center).add(new THREE.Vector3(size * 0.6, size * 0.45, size * 1.1));
+        camera.lookAt(center);
+
+        const renderer = new THREE.WebGLRenderer({ antialias: true });
+        renderer.setSize(width, height);
+        renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        container.appendChild(renderer.domElement);
+
+        const controls = new OrbitControls(camera, renderer.domElement);
+        controls.target.copy(center);
+        controls.enableDamping = true;
+
+        const hemi = new THREE.HemisphereLight(0xffffff, 0x444444, 1.0);
+        scene.add(hemi);
+        const dir = new THREE.DirectionalLight(0xffffff, 0.8);
+        dir.position.set(5, 6, 10);
+        scene.add(dir);
+
+        const axes = new THREE.AxesHelper(size * 0.4);
+        (axes.material as THREE.Material).transparent = true;
+        (axes.material as THREE.Material).opacity = 0.35;
+        scene.add(axes);
+
+        // eje de giro (rojo) a lo ancho de la caja
+        const reach = size * 0.6;
+        const axisPoints =
+            axis === "horizontal"
+                ? [new THREE.Vector3(center.x - reach, axisAt, 0), new THREE.Vector3(center.x + reach, axisAt, 0)]
+                : [new THREE.Vector3(axisAt, center.y - reach, 0), new THREE.Vector3(axisAt, center.y + reach, 0)];
+        scene.add(
+            new THREE.Line(
+                new THREE.BufferGeometry().setFromPoints(axisPoints),
+                new THREE.LineBasicMaterial({ color: 0xcc2222 })
+            )
+        );
+
+        scene.add(
+            new THREE.Line(
+                new THREE.BufferGeometry().setFromPoints(finite),
+                new THREE.LineBasicMaterial({ color: 0x222222 })
+            )
+        );
+
+        // sólido: superficie barrida y caras del corte (la región en θ = 0 y θ = sweep)
+        const surface = new THREE.Mesh(
+            new THREE.BufferGeometry(),
+            new THREE.MeshStandardMaterial({
+                color: 0xff8c1a,
+                side: THREE.DoubleSide,
+                roughness: 0.7,
+                metalness: 0.1,
+                transparent: true,
+                opacity: 0.85,
+            })
+        );
+        const section = new THREE.Mesh(
+            new THREE.BufferGeometry(),
+            new THREE.MeshStandardMaterial({ color: 0x5b8fd4, side: THREE.DoubleSide, roughness: 0.8 })
+        );
+        scene.add(surface, section);
+        meshRef.current = { surface, section };
+
+        let raf = 0;
+        const loop = () => {
+            controls.update();
+            renderer.render(scene, camera);
+            raf = requestAnimationFrame(loop);
+        };
+        loop();
+
+        const onResize = () => {
+            const w = container.clientWidth;
+            const h = Math.max(360, container.clientHeight);
+            renderer.setSize(w, h);
+            camera.aspect = w / h;
+            camera.updateProjectionMatrix();
+        };
+        window.addEventListener("resize", onResize);
+
+        return () => {
+            meshRef.current = null;
+            cancelAnimationFrame(raf);
+            window.removeEventListener("resize", onResize);
+            controls.dispose();
+            scene.traverse((o) => {
+                if (o instanceof THREE.Mesh || o instanceof THREE.Line) {
+                    o.geometry.dispose();
+                    (o.material as THREE.Material).dispose();
+                }
+            });
+            scene.clear();
+            renderer.dispose();
+            renderer.domElement.remove();
+        };
+    }, [volumes, profile, solid, a, b, axis, axisAt]);
+
+    // —— volver a barrer el sólido al ángulo elegido
+    useEffect(() => {
+        const meshes = meshRef.current;
+        if (!meshes) return;
+        const replace = (target: THREE.Mesh, indices: number[]) => {
+            const geometry = new THREE.BufferGeometry();
+            if (mesh) {
+                geometry.setAttribute("position", new THREE.BufferAttribute(mesh.positions, 3));
+                geometry.setIndex(indices);
+                geometry.computeVertexNormals();
+            }
+            target.geometry.dispose();
+            target.geometry = geometry;
+        };
+        replace(meshes.surface, mesh?.surfaceIndices ?? []);
+        replace(meshes.section, mesh?.sectionIndices ?? []);
+    }, [mesh, volumes]);
+
+    // —— animación: barre de 0 a 2π en LOOP_SECONDS y vuelve a empezar
+    useEffect(() => {
+        if (!playing) return;
+        let raf = 0;
+        let last = performance.now();
+        const step = (now: number) => {
+            const dt = (now - last) / 1000;
+            last = now;
+            setSweep((s) => {
+                const next = s + (FULL_TURN * dt) / LOOP_SECONDS;
+                return next > FULL_TURN ? 0 : next;
+            });
+            raf = requestAnimationFrame(step);
+        };
+        raf = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(raf);
+    }, [playing]);
+
+    const errorMsg = outer.error
+        ? `g: ${outer.error.message}`
+        : inner.error
+          ? `h: ${inner.error.message}`
+          : emptyInterval
+            ? "El intervalo está vacío (se necesita a < b) o el eje no es un número."
+            : budgetError;
+
+    const row = (label: string, value: string, color?: string) => (
+        <tr>
+            <td style={{ padding: "2px 4px", color }}>{label}</td>
+            <td style={{ padding: "2px 4px" }}>{value}</td>
+        </tr>
+    );
+    const number = (v: number | undefined) => (v !== undefined && Number.isFinite(v) ? v.toFixed(6) : "N/D");
+    const axisLabel = axis === "horizontal" ? `y = ${axisAt}` : `x = ${axisAt}`;
+    // a lo largo de qué variable corta cada método
+    const [washerVar, shellVar] = axis === "horizontal" ? ["x", "y"] : ["y", "x"];
+    const gap = volumes ? Math.abs(volumes.washer - volumes.shell) / Math.max(1e-12, Math.abs(volumes.washer)) : NaN;
+
+    return (
+        <div
+            ref={mountRef}
+            style={{ width: "100%", height: "100%", minHeight: 420, position: "relative", userSelect: "none" }}
+        >
+            <div style={PANEL_STYLE}>
+                <div style={{ fontWeight: 700, marginBottom: 6 }}>Sólido de revolución</div>
+                {errorMsg && <div style={{ color: "#c00", marginBottom: 4 }}>{errorMsg}</div>}
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+                    <button
+                        type="button"
+                        className="btn btn-sm btn-outline-secondary"
+                        onClick={() => setPlaying((p) => !p)}
+                        disabled={!volumes}
+                    >
+                        {playing ? "Pausa" : "Animar"}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={FULL_TURN}
+                        step={FULL_TURN / 360}
+                        value={sweep}
+                        onChange={(e) => {
+                            setPlaying(false);
+                            setSweep(Number(e.target.value));
+                        }}
+                        style={{ flex: 1 }}
+                        disabled={!volumes}
+                    />
+                    <span style={{ fontFamily: "monospace" }}>θ = {((sweep * 180) / Math.PI).toFixed(0)}°</span>
+                </div>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                    <tbody>
+                        {row("Región", `${a.toFixed(3)} ≤ x ≤ ${b.toFixed(3)}, entre g y h`)}
+                        {row("Eje de giro", axisLabel, "#c22")}
+                        {row(`Discos/arandelas (d${washerVar})`, number(volumes?.washer), "#d9730d")}
+                        {row(`Capas cilíndricas (d${shellVar})`, number(volumes?.shell), "#3a6fb5")}
+                        {row("Diferencia relativa", Number.isFinite(gap) ? gap.toExponential(2) : "N/D")}
+                        {row("Volumen barrido hasta θ", number(volumes ? (volumes.washer * sweep) / FULL_TURN : NaN))}
+                    </tbody>
+                </table>
+                {volumes?.crossesAxis && (
+                    <div style={{ marginTop: 6, color: "#b36b00" }}>
+                        El eje atraviesa la región: los dos lados se superponen al girar y se cuenta el volumen de la
+                        unión.
+                    </div>
+                )}
+                <div style={{ marginTop: 6, opacity: 0.7 }}>
+                    *Sumas de punto medio con {Math.max(8, Math.round(solid.samples))} tramos por variable: V = ∫ π(R² − r²) d
+                    {washerVar} y V = ∫ 2π ρ · altura dρ, con ρ la distancia al eje.
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,318 @@
+// src/components/SpaceCurveViewer.tsx
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import {
+    EvaluationBudgetError,
+    tryCompileCurve,
+    type Definitions,
+    type Parameters,
+} from "../utils/compileExpression";
+import type { Vec3 } from "../utils/parametricMesh";
+import { arcLengthAt, frenetFrame, sampleCurve, type CurveSamples, type CurveSource } from "../utils/spaceCurve";
+
+/**
+ * Componente: SpaceCurveViewer
+ * Dibuja la curva r(t) = (x(t), y(t), z(t)) como un tubo y un punto que la recorre con el
+ * triedro de Frenet T (rojo), N (verde) y B (azul). El panel muestra longitud de arco,
+ * curvatura κ(t) y torsión τ(t) en el t elegido con el deslizador (o animado).
+ */
+type Props = {
+    curve: CurveSource;
+    /** valores de los parámetros libres (a, b, k...) usados en las componentes */
+    parameters?: Parameters;
+    /** definiciones compartidas (variables y funciones de usuario) */
+    definitions?: Definitions;
+};
+
+const PANEL_STYLE: CSSProperties = {
+    position: "absolute",
+    top: 8,
+    left: 8,
+    padding: "10px 12px",
+    background: "rgba(255,255,255,0.95)",
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    fontFamily: "Arial, sans-serif",
+    fontSize: 12,
+    boxShadow: "0 4px 12px rgba(0,0,0,0.08)",
+    maxWidth: 440,
+};
+
+// segundos que tarda el punto en recorrer [tMin, tMax]
+const LOOP_SECONDS = 8;
+
+function formatVector(v: Vec3, digits = 4) {
+    return `(${v.map((c) => (Number.isFinite(c) ? c.toFixed(digits) : "N/D")).join(", ")})`;
+}
+
+/** Tramos de muestras consecutivas definidas (las discontinuidades y huecos cortan el tubo). */
+function finiteRuns(samples: CurveSamples): THREE.Vector3[][] {
+    const runs: THREE.Vector3[][] = [];
+    let current: THREE.Vector3[] = [];
+    const p = samples.positions;
+    for (let k = 0; k < samples.t.length; k++) {
+        const x = p[3 * k];
+        const y = p[3 * k + 1];
+        const z = p[3 * k + 2];
+        if (Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z)) {
+            current.push(new THREE.Vector3(x, y, z));
+        } else if (current.length > 0) {
+            runs.push(current);
+            current = [];
+        }
+    }
+    if (current.length > 0) runs.push(current);
+    return runs.filter((run) => run.length >= 2);
+}
+
+export default function SpaceCurveViewer({ curve, parameters, definitions }: Props) {
+    const mountRef = useRef<HTMLDivElement | null>(null);
+    const compiled = useMemo(
+        () => tryCompileCurve(curve, parameters, definitions),
+        [curve, parameters, definitions]
+    );
+    const { tMin, tMax } = curve;
+
+    // muestras de la curva (o el error si superan el presupuesto de evaluación)
+    const { samples, budgetError } = useMemo(() => {
+        if (compiled.error || !(tMax > tMin)) return { samples: null, budgetError: null };
+        try {
+            return { samples: sampleCurve(compiled, tMin, tMax, curve.samples), budgetError: null };
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            return { samples: null, budgetError: error.message };
+        }
+    }, [compiled, tMin, tMax, curve.samples]);
+
+    // parámetro elegido; se mantiene dentro de [tMin, tMax] si cambia el intervalo
+    const [param, setParam] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const t = Math.min(tMax, Math.max(tMin, param));
+    const frame = useMemo(() => (samples ? frenetFrame(compiled, t) : null), [compiled, samples, t]);
+    const arcLength = samples ? arcLengthAt(samples, t) : NaN;
+    const totalLength = samples ? samples.arcLength[samples.arcLength.length - 1] : NaN;
+
+    // objetos que se mueven con t (el resto de la escena se reconstruye solo al cambiar la curva)
+    const markerRef = useRef<{
+        point: THREE.Mesh;
+        arrows: [THREE.ArrowHelper, THREE.ArrowHelper, THREE.ArrowHelper];
+    } | null>(null);
+
+    // —— escena: tubo, ejes, punto y flechas T, N, B
+    useEffect(() => {
+        if (!mountRef.current) return;
+        const container = mountRef.current;
+        const width = container.clientWidth;
+        const height = Math.max(360, container.clientHeight);
+
+        const scene = new THREE.Scene();
+        scene.background = new THREE.Color(0xffffff);
+
+        const runs = samples ? finiteRuns(samples) : [];
+        const box = new THREE.Box3();
+        runs.forEach((run) => run.forEach((p) => box.expandByPoint(p)));
+        if (box.isEmpty()) box.set(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1));
+        const center = box.getCenter(new THREE.Vector3());
+        const size = Math.max(1e-3, box.getSize(new THREE.Vector3()).length());
+
+        const camera = new THREE.PerspectiveCamera(45, width / height, size * 0.01, size * 20);
+        camera.up.set(0, 0, 1);
+        camera.position.copy(center).add(new THREE.Vector3(size * 0.9, -size * 1.1, size * 0.8));
+        camera.lookAt(center);
+
+        const renderer = new THREE.WebGLRenderer({ antialias: true });
+        renderer.setSize(width, height);
+        renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        container.appendChild(renderer.domElement);
+
+        const controls = new OrbitControls(camera, renderer.domElement);
+        controls.target.copy(center);
+        controls.enableDamping = true;
+
+        const hemi = new THREE.HemisphereLight(0xffffff, 0x444444, 1.0);
+        scene.add(hemi);
+        const dir = new THREE.DirectionalLight(0xffffff, 0.8);
+        dir.position.set(5, -5, 10);
+        scene.add(dir);
+
+        const axes = new THREE.AxesHelper(size * 0.4);
+        (axes.material as THREE.Material).transparent = true;
+        (axes.material as THREE.Material).opacity = 0.35;
+        scene.add(axes);
+
+        // tubo: un TubeGeometry por tramo definido, con radio proporcional al tamaño de la curva
+        const tubeMat = new THREE.MeshStandardMaterial({ color: 0xff8c1a, roughness: 0.6, metalness: 0.1 });
+        const radius = size * 0.006;
+        runs.forEach((run) => {
+            const path = new THREE.CatmullRomCurve3(run);
+            const segments = Math.min(2000, run.length * 2);
+            scene.add(new THREE.Mesh(new THREE.TubeGeometry(path, segments, radius, 8, false), tubeMat));
+        });
+
+        // punto móvil y triedro de Frenet
+        const point = new THREE.Mesh(
+            new THREE.SphereGeometry(radius * 3, 16, 12),
+            new THREE.MeshStandardMaterial({ color: 0x222222 })
+        );
+        point.visible = false;
+        scene.add(point);
+        const length = size * 0.12;
+        const arrow = (color: number) => {
+            const a = new THREE.ArrowHelper(
+                new THREE.Vector3(1, 0, 0),
+                new THREE.Vector3(),
+                length,
+                color,
+                length * 0.25,
+                length * 0.12
+            );
+            a.visible = false;
+            scene.add(a);
+            return a;
+        };
+        const arrows: [THREE.ArrowHelper, THREE.ArrowHelper, THREE.ArrowHelper] = [
+            arrow(0xdd3333),
+            arrow(0x22aa22),
+            arrow(0x3366cc),
+        ];
+
+        markerRef.current = { point, arrows };
+
+        let raf = 0;
+        const loop = () => {
+            controls.update();
+            renderer.render(scene, camera);
+            raf = requestAnimationFrame(loop);
+        };
+        loop();
+
+        const onResize = () => {
+            const w = container.clientWidth;
+            const h = Math.max(360, container.clientHeight);
+            renderer.setSize(w, h);
+            camera.aspect = w / h;
+            camera.updateProjectionMatrix();
+        };
+        window.addEventListener("resize", onResize);
+
+        return () => {
+            markerRef.current = null;
+            cancelAnimationFrame(raf);
+            window.removeEventListener("resize", onResize);
+            controls.dispose();
+            scene.traverse((o) => {
+                // mallas, y las líneas y conos de las flechas
+                if (o instanceof THREE.Mesh || o instanceof THREE.Line) {
+                    o.geometry.dispose();
+                    (o.material as THREE.Material).dispose();
+                }
+            });
+            scene.clear();
+            renderer.dispose();
+            renderer.domElement.remove();
+        };
+    }, [samples]);
+
+    // —— mover el punto y las flechas al t elegido
+    useEffect(() => {
+        const marker = markerRef.current;
+        if (!marker) return;
+        const ok = frame !== null && frame.r.every(Number.isFinite);
+        marker.point.visible = ok;
+        if (ok) marker.point.position.set(...frame.r);
+        [frame?.T, frame?.N, frame?.B].forEach((v, i) => {
+            const a = marker.arrows[i];
+            a.visible = ok && v !== undefined && v.every(Number.isFinite);
+            if (!a.visible) return;
+            a.position.set(...frame!.r);
+            a.setDirection(new THREE.Vector3(...v!));
+        });
+    }, [frame, samples]);
+
+    // —— animación: recorre [tMin, tMax] en LOOP_SECONDS y vuelve a empezar
+    useEffect(() => {
+        if (!playing || !(tMax > tMin)) return;
+        let raf = 0;
+        let last = performance.now();
+        const step = (now: number) => {
+            const dt = (now - last) / 1000;
+            last = now;
+            setParam((p) => {
+                const next = Math.min(tMax, Math.max(tMin, p)) + ((tMax - tMin) * dt) / LOOP_SECONDS;
+                return next > tMax ? tMin : next;
+            });
+            raf = requestAnimationFrame(step);
+        };
+        raf = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(raf);
+    }, [playing, tMin, tMax]);
+
+    const errorMsg = compiled.error
+        ? `${compiled.error.component}: ${compiled.error.error.message}`
+        : !(tMax > tMin)
+          ? "El intervalo de t está vacío (se necesita t mín < t máx)."
+          : budgetError;
+
+    const row = (label: string, value: string, color?: string) => (
+        <tr>
+            <td style={{ padding: "2px 4px", color }}>{label}</td>
+            <td style={{ padding: "2px 4px" }}>{value}</td>
+        </tr>
+    );
+    const number = (v: number | undefined) => (v !== undefined && Number.isFinite(v) ? v.toFixed(6) : "N/D");
+
+    return (
+        <div
+            ref={mountRef}
+            style={{ width: "100%", height: "100%", minHeight: 420, position: "relative", userSelect: "none" }}
+        >
+            <div style={PANEL_STYLE}>
+                <div style={{ fontWeight: 700, marginBottom: 6 }}>Curva r(t) · triedro de Frenet</div>
+                {errorMsg && <div style={{ color: "#c00", marginBottom: 4 }}>{errorMsg}</div>}
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+                    <button
+                        type="button"
+                        className="btn btn-sm btn-outline-secondary"
+                        onClick={() => setPlaying((p) => !p)}
+                        disabled={!samples}
+                    >
+                        {playing ? "Pausa" : "Animar"}
+                    </button>
+                    <input
+                        type="range"
+                        min={tMin}
+                        max={tMax}
+                        step={(tMax - tMin) / 1000 || 0.001}
+                        value={t}
+                        onChange={(e) => {
+                            setPlaying(false);
+                            setParam(Number(e.target.value));
+                        }}
+                        style={{ flex: 1 }}
+                        disabled={!samples}
+                    />
+                    <span style={{ fontFamily: "monospace" }}>t = {t.toFixed(3)}</span>
+                </div>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                    <tbody>
+                        {row("r(t)", frame ? formatVector(frame.r) : "—")}
+                        {row("r'(t)", frame ? formatVector(frame.velocity) : "—")}
+                        {row("|r'(t)|", number(frame?.speed))}
+                        {row("T", frame ? formatVector(frame.T) : "—", "#d33")}
+                        {row("N", frame ? formatVector(frame.N) : "—", "#2a2")}
+                        {row("B", frame ? formatVector(frame.B) : "—", "#36c")}
+                        {row("Curvatura κ(t)", number(frame?.curvature))}
+                        {row("Torsión τ(t)", number(frame?.torsion))}
+                        {row(`Longitud s(${tMin.toFixed(2)} → t)`, number(arcLength))}
+                        {row("Longitud total", number(totalLength))}
+                    </tbody>
+                </table>
+                <div style={{ marginTop: 6, opacity: 0.7 }}>
+                    *r', r'', r''' {frame?.exact ? "simbólicas" : "por diferencias finitas"}; longitud por poligonal de{" "}
+                    {curve.samples} tramos. N, B y τ no están definidos donde κ = 0.
+                </div>
+            </div>
+        </div>
+    );
+}
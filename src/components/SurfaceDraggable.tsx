@@ -1,21 +1,129 @@
 // SurfaceDraggable.tsx
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
-import { compileExpression3 } from "../utils/compileExpression";
+import {
+    EvaluationBudgetError,
+    tryCompileExpression2,
+    tryCompileExpression3,
+    tryCompileImplicit,
+    type Definitions,
+    type Parameters,
+} from "../utils/compileExpression";
+import { disposeTree } from "../utils/disposeTree";
+import { createJumpTest, gridIndices } from "../utils/meshDiscontinuities";
+import { implicitGeometry, parametricGeometry } from "../utils/surfaceGeometry";
+import { buildImplicitMesh, type ImplicitSource } from "../utils/implicitMesh";
+import {
+    buildParametricMesh,
+    compileParametricSource,
+    surfaceErrorMessage,
+    type ParametricSource,
+} from "../utils/parametricMesh";
+import {
+    compileLayers,
+    createLayerGeometry,
+    layerMaterial,
+    layerSourcesKey,
+    styleLayerMaterial,
+    type LayerGeometry,
+    type SurfaceLayer,
+} from "../utils/surfaceLayers";
+import { compileRegion, intersectMasks, regionGrid, squareRegion, type PlotRegion } from "../utils/plotRegion";
+import ViewerError from "./ViewerError";
 
 type Props = {
     /** expresión JS: puedes usar sin, cos, sqrt... (se transforman a Math.*) */
     expression: string;
-    /** medio-lado del dominio cuadrado [-range, range] × [-range, range] */
+    /** medio-lado del cuadrado [-range, range]² (región por defecto, y caja de las implícitas) */
     range: number;
+    /** rectángulo o región tipo I/II donde se dibuja z = f(x,y,t); por defecto el cuadrado */
+    region?: PlotRegion;
+    /** dominio h(x,y) ≤ 0: fuera no se dibuja z = f(x,y,t) ni las capas */
+    domainExpression?: string;
     /** resolución de la malla */
     resolution: number;
+    /** valores de los parámetros libres (a, b, k...) usados en la expresión */
+    parameters?: Parameters;
+    /** definiciones compartidas (variables y funciones de usuario) */
+    definitions?: Definitions;
+    /** superficie paramétrica r(u,v,t); si se pasa, reemplaza a z = f(x,y,t) */
+    parametric?: ParametricSource;
+    /** superficie implícita F(x,y,z) = c; si se pasa, reemplaza a z = f(x,y,t) */
+    implicit?: ImplicitSource;
+    /** capas z = g(x,y,t) que se dibujan junto a la superficie */
+    layers?: SurfaceLayer[];
 };
 
-export default function SurfaceDraggable({ expression, range, resolution }: Props) {
-    const mountRef = useRef<HTMLDivElement | null>(null);
-    const fn = useMemo(() => compileExpression3(expression), [expression]);
+const NO_LAYERS: SurfaceLayer[] = [];
+
+/** Lo que los efectos de la superficie y de las capas necesitan de la escena persistente. */
+type Stage = {
+    camera: THREE.PerspectiveCamera;
+    /** grupo que se panea y rota con el ratón */
+    world: THREE.Group;
+    mesh: THREE.Mesh;
+    layers: THREE.Group;
+};
 
+export default function SurfaceDraggable({
+    expression,
+    range,
+    region,
+    domainExpression,
+    resolution,
+    parameters,
+    definitions,
+    parametric,
+    implicit,
+    layers = NO_LAYERS,
+}: Props) {
+    const mountRef = useRef<HTMLDivElement | null>(null);
+    const { fn, grid: fnGrid, error, branch } = useMemo(
+        () => tryCompileExpression3(expression, parameters, definitions),
+        [expression, parameters, definitions]
+    );
+    const surface = useMemo(
+        () => (parametric ? compileParametricSource(parametric, parameters, definitions) : null),
+        [parametric, parameters, definitions]
+    );
+    const implicitFn = useMemo(
+        () => (implicit ? tryCompileImplicit(implicit.expression, parameters, definitions) : null),
+        [implicit, parameters, definitions]
+    );
+    const compiledRegion = useMemo(
+        () => compileRegion(region ?? squareRegion(range), parameters, definitions),
+        [region, range, parameters, definitions]
+    );
+    const { grid: domGrid, error: domError } = useMemo(
+        () => tryCompileExpression2(domainExpression, parameters, definitions),
+        [domainExpression, parameters, definitions]
+    );
+    // máscara ≤ 0 de la región y del dominio juntos; no depende de t
+    const maskGrid = useMemo(() => intersectMasks(domGrid, compiledRegion.mask), [domGrid, compiledRegion]);
+    // solo la expresión y la visibilidad recompilan las capas; el estilo se aplica a su material
+    const layerKey = layerSourcesKey(layers);
+    const compiledLayers = useMemo(
+        () => compileLayers(layerKey, parameters, definitions),
+        [layerKey, parameters, definitions]
+    );
+    // error de evaluación (presupuesto agotado) de la superficie y de las capas; se limpia al rehacerlas
+    const [budgetError, setBudgetError] = useState<string | null>(null);
+    const [layerError, setLayerError] = useState<string | null>(null);
+    const [stage, setStage] = useState<Stage | null>(null);
+    // lo que cada efecto rehace en cada fotograma (lo llama el bucle de animación de la escena)
+    const surfaceFrameRef = useRef<((t: number) => void) | null>(null);
+    const layersFrameRef = useRef<((t: number) => void) | null>(null);
+    const compileError = implicitFn
+        ? implicitFn.error?.message
+        : surface
+          ? surfaceErrorMessage(surface)
+          : (error?.message ??
+            compiledRegion.error?.error.message ??
+            (domError ? `h: ${domError.message}` : undefined));
+    const message = compileError ?? budgetError ?? layerError;
+
+    // —— escena persistente: renderer, cámara, luces, interacción y bucle de animación se crean una sola vez;
+    // la superficie y las capas las rehacen sus efectos sin perder el paneo ni la rotación
     useEffect(() => {
         if (!mountRef.current) return;
         const container = mountRef.current;
@@ -28,10 +136,9 @@ export default function SurfaceDraggable({ expression, range, resolution }: Prop
         const scene = new THREE.Scene();
         scene.background = new THREE.Color(0xffffff);
 
+        // la posición la fija el efecto de la grilla, según range
         const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 2000);
-        camera.position.set(0, -range * 3, range * 1.8);
         camera.up.set(0, 0, 1);
-        camera.lookAt(0, 0, 0);
 
         const renderer = new THREE.WebGLRenderer({ antialias: true });
         renderer.setSize(width, height);
@@ -49,81 +156,16 @@ export default function SurfaceDraggable({ expression, range, resolution }: Prop
         const world = new THREE.Group();
         scene.add(world);
 
-        // grilla (rotada a XY)
-        let grid: THREE.GridHelper = new THREE.GridHelper(range * 2, 10, 0x222222, 0x888888);
-        // @ts-ignore
-        grid.rotation.x = Math.PI / 2;
-        world.add(grid);
-
-        // material
+        // malla (su geometría la pone el efecto de la superficie) y capas
         const mat = new THREE.MeshStandardMaterial({
             side: THREE.DoubleSide,
             flatShading: false,
             vertexColors: true,
         });
-
-        // crea geometría de la superficie
-        const makeGeometry = (t: number) => {
-            const cols = Math.max(8, resolution);
-            const rows = Math.max(8, resolution);
-            const widthSpan = range * 2;
-            const heightSpan = range * 2;
-
-            const positions: number[] = [];
-            const colors: number[] = [];
-            const indices: number[] = [];
-            const validity: boolean[] = [];
-
-            for (let j = 0; j <= rows; j++) {
-                for (let i = 0; i <= cols; i++) {
-                    const u = i / cols;
-                    const v = j / rows;
-                    const x = -range + u * widthSpan;
-                    const y = -range + v * heightSpan;
-                    const rawZ = fn(x, y, t);
-                    const isValid = Number.isFinite(rawZ);
-                    const z = isValid ? Number(rawZ) : 0;
-                    validity.push(isValid);
-
-                    positions.push(x, y, z);
-
-                    const c = new THREE.Color();
-                    if (isValid) {
-                        const normalized = THREE.MathUtils.clamp((z + range) / (2 * range), 0, 1);
-                        c.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
-                    } else {
-                        c.setRGB(0.75, 0.75, 0.75);
-                    }
-                    colors.push(c.r, c.g, c.b);
-                }
-            }
-
-            for (let j = 0; j < rows; j++) {
-                for (let i = 0; i < cols; i++) {
-                    const a = i + (cols + 1) * j;
-                    const b = i + (cols + 1) * (j + 1);
-                    const c = i + 1 + (cols + 1) * (j + 1);
-                    const d = i + 1 + (cols + 1) * j;
-                    if (validity[a] && validity[b] && validity[d]) {
-                        indices.push(a, b, d);
-                    }
-                    if (validity[b] && validity[c] && validity[d]) {
-                        indices.push(b, c, d);
-                    }
-                }
-            }
-
-            const geometry = new THREE.BufferGeometry();
-            geometry.setIndex(indices);
-            geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
-            geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
-            geometry.computeVertexNormals();
-            return geometry;
-        };
-
-        // malla
-        let mesh = new THREE.Mesh(makeGeometry(0), mat);
-        world.add(mesh);
+        const mesh = new THREE.Mesh(new THREE.BufferGeometry(), mat);
+        const layers = new THREE.Group();
+        world.add(mesh, layers);
+        setStage({ camera, world, mesh, layers });
 
         // —— Interacción: pan (arrastrar), zoom (rueda), rotación (Shift + arrastrar)
         const raycaster = new THREE.Raycaster();
@@ -216,45 +258,14 @@ export default function SurfaceDraggable({ expression, range, resolution }: Prop
         // cursor por defecto
         setCursor("grab");
 
-        // animación (reconstruye z para permitir dependencia en t)
+        // animación: t avanza y cada efecto rehace lo que depende de t
         let frame = 0;
-        let lastRes = resolution;
-        let lastRange = range;
-
         let rafId = 0;
         const animate = () => {
             frame += 1;
             const t = frame / 60;
-
-            if (lastRes !== resolution || lastRange !== range) {
-                world.remove(mesh);
-                mesh.geometry.dispose();
-                mesh = new THREE.Mesh(makeGeometry(t), mat);
-                world.add(mesh);
-                // actualizar grid al nuevo range
-                world.remove(grid);
-                (grid.geometry as THREE.BufferGeometry).dispose();
-                const matGrid = grid.material;
-                if (Array.isArray(matGrid)) {
-                    matGrid.forEach((m) => m.dispose());
-                } else {
-                    matGrid.dispose();
-                }
-                const newGrid = new THREE.GridHelper(range * 2, 10, 0x222222, 0x888888);
-                // @ts-ignore
-                newGrid.rotation.x = Math.PI / 2;
-                world.add(newGrid);
-                grid = newGrid;
-
-                lastRes = resolution;
-                lastRange = range;
-            } else {
-                // refresco más barato: reconstruir geometría (para animación en t)
-                const newGeo = makeGeometry(t);
-                mesh.geometry.dispose();
-                mesh.geometry = newGeo;
-            }
-
+            surfaceFrameRef.current?.(t);
+            layersFrameRef.current?.(t);
             renderer.render(scene, camera);
             rafId = requestAnimationFrame(animate);
         };
@@ -274,28 +285,241 @@ export default function SurfaceDraggable({ expression, range, resolution }: Prop
         return () => {
             window.removeEventListener("resize", onResize);
             cancelAnimationFrame(rafId);
+            setStage(null);
             renderer.domElement.removeEventListener("pointerdown", onPointerDown);
             window.removeEventListener("pointermove", onPointerMove);
             window.removeEventListener("pointerup", onPointerUp);
             renderer.domElement.removeEventListener("wheel", onWheel);
             container.removeChild(renderer.domElement);
             renderer.dispose();
+            disposeTree(scene);
+        };
+    }, []);
 
-            scene.traverse((o) => {
-                const anyO = o as any;
-                if (anyO.geometry) anyO.geometry.dispose();
-                if (anyO.material) {
-                    if (Array.isArray(anyO.material)) anyO.material.forEach((m: any) => m.dispose());
-                    else anyO.material.dispose();
+    // —— grilla (rotada a XY) y cámara a la distancia de range
+    useEffect(() => {
+        if (!stage) return;
+        const { camera, world } = stage;
+        camera.position.set(0, -range * 3, range * 1.8);
+        camera.lookAt(0, 0, 0);
+        const grid = new THREE.GridHelper(range * 2, 10, 0x222222, 0x888888);
+        grid.rotation.x = Math.PI / 2;
+        world.add(grid);
+        return () => {
+            world.remove(grid);
+            disposeTree(grid);
+        };
+    }, [stage, range]);
+
+    // —— superficie: se rehace al cambiar f, la región o los parámetros, y en cada fotograma si depende de t
+    useEffect(() => {
+        if (!stage) return;
+        const { mesh } = stage;
+
+        // z = f(x,y,t): los buffers y la geometría se crean una vez por malla y cada fotograma los reescribe
+        let zValues = new Float64Array(0);
+        let validity = new Uint8Array(0);
+        let graph: THREE.BufferGeometry | null = null;
+        let indexed = false;
+        // la máscara de la región y del dominio no depende de t: se evalúa una vez por malla
+        let maskValues: Float64Array | null = null;
+        let stalled = false; // la evaluación superó el presupuesto
+        setBudgetError(null);
+        const makeGeometry = (t: number) => {
+            if (implicit && implicitFn) {
+                let mesh = null;
+                if (!stalled) {
+                    try {
+                        mesh = buildImplicitMesh(implicitFn, implicit, range);
+                    } catch (error) {
+                        if (!(error instanceof EvaluationBudgetError)) throw error;
+                        stalled = true;
+                        setBudgetError(error.message);
+                    }
+                }
+                return mesh ? implicitGeometry(mesh) : new THREE.BufferGeometry();
+            }
+            if (parametric && surface) {
+                let mesh = null;
+                if (!stalled) {
+                    try {
+                        mesh = buildParametricMesh(surface, parametric.domain, t);
+                    } catch (error) {
+                        if (!(error instanceof EvaluationBudgetError)) throw error;
+                        stalled = true;
+                        setBudgetError(error.message);
+                    }
                 }
-            });
+                return mesh ? parametricGeometry(mesh) : new THREE.BufferGeometry();
+            }
+
+            const cols = Math.max(8, resolution);
+            const rows = cols;
+            const surfaceGrid = regionGrid(compiledRegion.box, cols);
+            const count = surfaceGrid.nx * surfaceGrid.ny;
+
+            if (!graph || zValues.length !== count) {
+                zValues = new Float64Array(count);
+                validity = new Uint8Array(count);
+                // x e y de cada vértice no dependen de t: solo se reescribe z
+                const positions = new Float32Array(count * 3);
+                for (let j = 0; j <= rows; j++) {
+                    for (let i = 0; i <= cols; i++) {
+                        const k = i + (cols + 1) * j;
+                        positions[3 * k] = surfaceGrid.x0 + i * surfaceGrid.dx;
+                        positions[3 * k + 1] = surfaceGrid.y0 + j * surfaceGrid.dy;
+                    }
+                }
+                graph = new THREE.BufferGeometry();
+                graph.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+                graph.setAttribute("color", new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+                indexed = false;
+            }
+
+            // una sola evaluación por lotes para toda la malla en este instante
+            if (!stalled) {
+                try {
+                    fnGrid(surfaceGrid, t, zValues);
+                    if (maskGrid && maskValues?.length !== count) maskValues = maskGrid(surfaceGrid);
+                } catch (error) {
+                    if (!(error instanceof EvaluationBudgetError)) throw error;
+                    // no se reintenta en cada fotograma: se espera a que cambie la expresión
+                    stalled = true;
+                    setBudgetError(error.message);
+                }
+            }
+            if (stalled) zValues.fill(NaN);
+
+            const position = graph.getAttribute("position") as THREE.BufferAttribute;
+            const colorAttribute = graph.getAttribute("color") as THREE.BufferAttribute;
+            const positions = position.array as Float32Array;
+            const colors = colorAttribute.array as Float32Array;
+            const color = new THREE.Color();
+            let validityChanged = !indexed;
+
+            for (let k = 0; k < count; k++) {
+                const rawZ = zValues[k];
+                const isValid = Number.isFinite(rawZ) && (!maskValues || maskValues[k] <= 0) ? 1 : 0;
+                const z = isValid ? rawZ : 0;
+                if (validity[k] !== isValid) validityChanged = true;
+                validity[k] = isValid;
+                positions[3 * k + 2] = z;
+
+                if (isValid) {
+                    const normalized = THREE.MathUtils.clamp((z + range) / (2 * range), 0, 1);
+                    color.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
+                } else {
+                    color.setRGB(0.75, 0.75, 0.75);
+                }
+                colors[3 * k] = color.r;
+                colors[3 * k + 1] = color.g;
+                colors[3 * k + 2] = color.b;
+            }
+
+            // el índice solo cambia si cambian los vértices válidos o, en funciones a trozos, dónde salta f
+            if (validityChanged || branch) {
+                // no unir vértices de ramas distintas si la función salta entre ellas
+                const jump = createJumpTest(fn, branch, t, positions);
+                graph.setIndex(gridIndices(validity, jump, cols, rows));
+                indexed = true;
+            }
+            position.needsUpdate = true;
+            colorAttribute.needsUpdate = true;
+            graph.computeVertexNormals();
+            graph.computeBoundingSphere();
+            return graph;
+        };
+
+        const show = (geometry: THREE.BufferGeometry) => {
+            if (geometry === mesh.geometry) return;
+            mesh.geometry.dispose();
+            mesh.geometry = geometry;
+        };
+        show(makeGeometry(0));
+        surfaceFrameRef.current = (t) => {
+            // refresco por fotograma (para animación en t; F(x,y,z) no depende de t)
+            if (stalled || implicit) return;
+            show(makeGeometry(t));
         };
-    }, [expression, range, resolution, fn]);
+        return () => {
+            surfaceFrameRef.current = null;
+        };
+    }, [
+        stage,
+        range,
+        resolution,
+        fn,
+        fnGrid,
+        branch,
+        parametric,
+        surface,
+        implicit,
+        implicitFn,
+        compiledRegion,
+        maskGrid,
+    ]);
+
+    // —— capas: una malla por capa visible, en el orden de la lista; las que usan t se reescriben en cada fotograma
+    useEffect(() => {
+        if (!stage) return;
+        const { layers: group } = stage;
+        let stalled = false;
+        setLayerError(null);
+        const budgetExceeded = (error: unknown) => {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            stalled = true;
+            setLayerError(error.message);
+        };
+        // la malla y la máscara no dependen de t y son las mismas para todas las capas
+        const surfaceGrid = regionGrid(compiledRegion.box, Math.max(8, resolution));
+        let maskValues: Float64Array | null = null;
+        try {
+            maskValues = maskGrid ? maskGrid(surfaceGrid) : null;
+        } catch (error) {
+            budgetExceeded(error);
+        }
+        const surfaces = compiledLayers.map(({ compiled }, index) => {
+            const surface = createLayerGeometry(compiled, surfaceGrid, maskValues);
+            const layerMesh = new THREE.Mesh(surface.geometry, layerMaterial());
+            layerMesh.renderOrder = index + 1;
+            group.add(layerMesh);
+            return surface;
+        });
+        const updateLayers = (targets: LayerGeometry[], t: number) => {
+            if (stalled) return;
+            try {
+                targets.forEach((surface) => surface.update(t));
+            } catch (error) {
+                budgetExceeded(error);
+            }
+        };
+        updateLayers(surfaces, 0);
+        // en cada fotograma solo se rehacen las capas que usan t
+        const animated = surfaces.filter((_, index) => compiledLayers[index].animated);
+        layersFrameRef.current = animated.length > 0 ? (t) => updateLayers(animated, t) : null;
+        return () => {
+            layersFrameRef.current = null;
+            disposeTree(group);
+            group.clear();
+        };
+    }, [stage, compiledLayers, compiledRegion, maskGrid, resolution]);
+
+    // —— color, opacidad y alambre de las capas: se cambian en su material, sin rehacer las mallas
+    useEffect(() => {
+        if (!stage) return;
+        stage.layers.children.forEach((child, index) => {
+            const layer = layers.find((other) => other.id === compiledLayers[index]?.id);
+            const { material } = child as THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>;
+            if (layer) styleLayerMaterial(material, layer);
+        });
+    }, [stage, layers, compiledLayers]);
 
     return (
         <div
             ref={mountRef}
             style={{ width: "100%", height: "100%", position: "relative", userSelect: "none" }}
-        />
+        >
+            <ViewerError message={message} />
+        </div>
     );
 }
@@ -1,126 +1,277 @@
 // SurfaceInspector.tsx
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import * as THREE from "three";
-import { compileExpression2, compileExpression3 } from "../utils/compileExpression";
+import {
+    compileDerivatives2,
+    compileDerivatives3,
+    EvaluationBudgetError,
+    tryCompileExpression2,
+    tryCompileExpression3,
+    tryCompileImplicit,
+    type Definitions,
+    type ImplicitFunction,
+    type Parameters,
+    type ParametricSurface,
+} from "../utils/compileExpression";
+import type { AbsoluteCandidate, AbsoluteExtrema } from "../utils/absoluteExtrema";
+import { disposeTree } from "../utils/disposeTree";
+import type { CriticalPoint, GlobalStats } from "../utils/gridAnalysis";
+import { createJumpTest, gridIndices } from "../utils/meshDiscontinuities";
+import { buildImplicitMesh, implicitGradient, type ImplicitSource } from "../utils/implicitMesh";
+import type { ConstrainedExtrema } from "../utils/lagrange";
+import {
+    buildParametricMesh,
+    compileParametricSource,
+    meshArea,
+    surfaceErrorMessage,
+    tangentFrame,
+    type ParametricDomain,
+    type ParametricSource,
+    type Vec3,
+} from "../utils/parametricMesh";
+import { implicitGeometry, parametricGeometry } from "../utils/surfaceGeometry";
+import {
+    compileLayers,
+    createLayerGeometry,
+    layerMaterial,
+    layerSourcesKey,
+    styleLayerMaterial,
+    type SurfaceLayer,
+} from "../utils/surfaceLayers";
+import {
+    compileRegion,
+    describeRegion,
+    insideRegion,
+    intersectMasks,
+    regionGrid,
+    squareRegion,
+    type PlotRegion,
+} from "../utils/plotRegion";
+import { runAnalysis, type AnalysisKind } from "../workers/analysisPool";
 
 type Props = {
     /** expresión JS: puedes usar sin, cos, sqrt... (se transforman a Math.*) */
     expression: string;
-    /** medio-lado del dominio cuadrado [-range, range] × [-range, range] */
+    /** medio-lado del cuadrado [-range, range]² (región por defecto, y caja de las implícitas) */
     range: number;
+    /** rectángulo o región tipo I/II donde se dibuja y se analiza z = f(x,y); por defecto el cuadrado */
+    region?: PlotRegion;
     /** resolución de la malla (también se usa para muestreo numérico) */
     resolution: number;
     /** densidad superficial σ(x,y) para masa/centro de masa; por defecto 1 */
     densityExpression?: string;
-    /** restricción opcional g(x,y)=0 para reporte de Lagrange */
+    /** restricción opcional g(x,y)=0: se traza la curva y se buscan los extremos de f sobre ella (Lagrange) */
     constraintExpression?: string;
     /** NUEVO: dominio avanzado h(x,y) <= 0 (máscara de integración/contorno) */
     domainExpression?: string;
+    /** valores de los parámetros libres (a, b, k...) usados en las expresiones */
+    parameters?: Parameters;
+    /** definiciones compartidas (variables y funciones de usuario) */
+    definitions?: Definitions;
+    /** superficie paramétrica r(u,v); si se pasa, reemplaza a z = f(x,y) (sin contornos ni estadísticas) */
+    parametric?: ParametricSource;
+    /** superficie implícita F(x,y,z) = c; igual que `parametric`, reemplaza al gráfico */
+    implicit?: ImplicitSource;
+    /** capas z = g(x,y,t) que se dibujan junto a la superficie; en el panel se comparan con f */
+    layers?: SurfaceLayer[];
+};
+
+const NO_LAYERS: SurfaceLayer[] = [];
+
+/** Escena del Inspector: se crea una vez y los efectos cambian solo su contenido. */
+type Stage = {
+    scene: THREE.Scene;
+    camera: THREE.PerspectiveCamera;
+    canvas: HTMLCanvasElement;
+    /** la superficie; su geometría se rehace cuando cambian f, la región o los parámetros */
+    mesh: THREE.Mesh;
+    layers: THREE.Group;
+    /** contornos de z y del dominio h = 0 */
+    contours: THREE.Group;
+    /** cortes (o curvas coordenadas, o ∇F) que siguen al cursor */
+    slices: THREE.Group;
+};
+
+/** Lo que necesitan los efectos del punto fijado, de los extremos y de Lagrange para dibujar sin rehacer la escena. */
+type PinScene = {
+    group: THREE.Group;
+    camera: THREE.Camera;
+    canvas: HTMLCanvasElement;
+    /** encuadre de la región (lo actualiza el efecto del encuadre), para volver a la vista general */
+    home: { position: THREE.Vector3; target: THREE.Vector3 };
+};
+
+/** Color de cada clase de punto crítico (en la lista y en la escena). */
+const CRITICAL_COLORS: Record<CriticalPoint["type"], string> = {
+    max: "#d33",
+    min: "#36c",
+    saddle: "#e6b800",
+    degenerate: "#888",
+};
+
+const CANDIDATE_LABELS: Record<AbsoluteCandidate["kind"], string> = {
+    critical: "crítico",
+    boundary: "borde",
+    corner: "esquina",
 };
 
 function clamp01(v: number) {
     return Math.min(1, Math.max(0, v));
 }
 
-/** NUEVO: marching squares para contornos 2D en plano z=0 */
-function marchingSquares(
-    grid: number[][], // z[i][j]
-    x0: number,
-    y0: number,
-    dx: number,
-    dy: number,
-    level: number
-): Array<[THREE.Vector3, THREE.Vector3]> {
-    const nx = grid.length;
-    const ny = grid[0]?.length ?? 0;
-    const segs: Array<[THREE.Vector3, THREE.Vector3]> = [];
-
-    const v = (i: number, j: number) => grid[i][j] - level;
-
-    const interp = (xA: number, yA: number, vA: number, xB: number, yB: number, vB: number) => {
-        const t = vA === vB ? 0.5 : vA / (vA - vB);
-        return new THREE.Vector3(xA + t * (xB - xA), yA + t * (yB - yA), 0);
-    };
+const PANEL_STYLE: CSSProperties = {
+    position: "absolute",
+    top: 8,
+    left: 8,
+    padding: "10px 12px",
+    background: "rgba(255,255,255,0.95)",
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    fontFamily: "Arial, sans-serif",
+    fontSize: 12,
+    boxShadow: "0 4px 12px rgba(0,0,0,0.08)",
+    maxWidth: 440,
+};
 
-    for (let i = 0; i < nx - 1; i++) {
-        for (let j = 0; j < ny - 1; j++) {
-            const xA = x0 + (i + 0) * dx;
-            const yA = y0 + (j + 0) * dy;
-            const xB = x0 + (i + 1) * dx;
-            const yB = y0 + (j + 1) * dy;
-
-            const f00 = v(i, j);
-            const f10 = v(i + 1, j);
-            const f11 = v(i + 1, j + 1);
-            const f01 = v(i, j + 1);
-
-            const idx =
-                (f00 > 0 ? 1 : 0) |
-                (f10 > 0 ? 2 : 0) |
-                (f11 > 0 ? 4 : 0) |
-                (f01 > 0 ? 8 : 0);
-            if (idx === 0 || idx === 15) continue;
-
-            // aristas: 0: (00-10), 1: (10-11), 2: (11-01), 3: (01-00)
-            const p: (THREE.Vector3 | null)[] = [null, null, null, null];
-            // 00 -> (xA,yA), 10 -> (xB,yA), 11 -> (xB,yB), 01 -> (xA,yB)
-            const p00 = [xA, yA, f00] as const;
-            const p10 = [xB, yA, f10] as const;
-            const p11 = [xB, yB, f11] as const;
-            const p01 = [xA, yB, f01] as const;
-
-            // Simpler explicit edges:
-            p[0] = (f00 > 0) !== (f10 > 0) ? interp(p00[0], p00[1], p00[2], p10[0], p10[1], p10[2]) : null;
-            p[1] = (f10 > 0) !== (f11 > 0) ? interp(p10[0], p10[1], p10[2], p11[0], p11[1], p11[2]) : null;
-            p[2] = (f11 > 0) !== (f01 > 0) ? interp(p11[0], p11[1], p11[2], p01[0], p01[1], p01[2]) : null;
-            p[3] = (f01 > 0) !== (f00 > 0) ? interp(p01[0], p01[1], p01[2], p00[0], p00[1], p00[2]) : null;
-
-            const pts = p.filter(Boolean) as THREE.Vector3[];
-            if (pts.length === 2) segs.push([pts[0], pts[1]]);
-            else if (pts.length === 4) {
-                // caso ambiguo: divídelo en 2 segmentos
-                segs.push([pts[0], pts[1]]);
-                segs.push([pts[2], pts[3]]);
-            }
-        }
-    }
-    return segs;
+function formatVector(v: Vec3, digits = 4) {
+    return `(${v.map((c) => (Number.isFinite(c) ? c.toFixed(digits) : "N/D")).join(", ")})`;
+}
+
+/** Coeficiente con su signo separado ("+ 1.5000", "− 0.2500") para escribir ecuaciones. */
+function signed(v: number, digits = 4) {
+    return `${v < 0 ? "−" : "+"} ${Math.abs(v).toFixed(digits)}`;
 }
 
 export default function SurfaceInspector({
     expression,
     range,
+    region: regionProp,
     resolution,
     densityExpression,
     constraintExpression,
     domainExpression, // NUEVO
+    parameters,
+    definitions,
+    parametric,
+    implicit,
+    layers = NO_LAYERS,
 }: Props) {
     const mountRef = useRef<HTMLDivElement | null>(null);
-    const fn = useMemo(() => compileExpression3(expression), [expression]);
-    const dens = useMemo(
-        () => compileExpression2(densityExpression) ?? ((_x: number, _y: number) => 1),
-        [densityExpression]
+    const { fn, grid: fnGrid, error: fnError, branch } = useMemo(
+        () => tryCompileExpression3(expression, parameters, definitions),
+        [expression, parameters, definitions]
+    );
+    const { error: densError } = useMemo(
+        () => tryCompileExpression2(densityExpression, parameters, definitions),
+        [densityExpression, parameters, definitions]
+    );
+    const { fn: gFun, error: gError } = useMemo(
+        () => tryCompileExpression2(constraintExpression, parameters, definitions),
+        [constraintExpression, parameters, definitions]
+    );
+    // derivadas simbólicas exactas (null si la expresión no es válida -> se usan diferencias finitas)
+    const deriv = useMemo(
+        () => compileDerivatives3(expression, parameters, definitions),
+        [expression, parameters, definitions]
     );
-    const gFun = useMemo(() => compileExpression2(constraintExpression), [constraintExpression]);
-    const domFun = useMemo(() => compileExpression2(domainExpression), [domainExpression]); // NUEVO
+    const gDeriv = useMemo(
+        () => compileDerivatives2(constraintExpression, parameters, definitions),
+        [constraintExpression, parameters, definitions]
+    );
+    const { grid: domGrid, error: domError } = useMemo(
+        () => tryCompileExpression2(domainExpression, parameters, definitions),
+        [domainExpression, parameters, definitions]
+    ); // NUEVO
+    const region = useMemo(() => regionProp ?? squareRegion(range), [regionProp, range]);
+    const compiledRegion = useMemo(
+        () => compileRegion(region, parameters, definitions),
+        [region, parameters, definitions]
+    );
+    const { box } = compiledRegion;
+    // máscara ≤ 0 de la región y del dominio h(x,y) ≤ 0 juntos
+    const maskGrid = useMemo(() => intersectMasks(domGrid, compiledRegion.mask), [domGrid, compiledRegion]);
+    const surface = useMemo(
+        () => (parametric ? compileParametricSource(parametric, parameters, definitions) : null),
+        [parametric, parameters, definitions]
+    );
+    const implicitFn = useMemo(
+        () => (implicit ? tryCompileImplicit(implicit.expression, parameters, definitions) : null),
+        [implicit, parameters, definitions]
+    );
+    // solo la expresión y la visibilidad recompilan las capas; el estilo se aplica a su material
+    const layerKey = layerSourcesKey(layers);
+    const compiledLayers = useMemo(
+        () => compileLayers(layerKey, parameters, definitions),
+        [layerKey, parameters, definitions]
+    );
+    // solo un gráfico z = f(x,y) tiene contornos, estadísticas y extremos
+    const isGraph = !parametric && !implicit;
 
     // —— estado para panel flotante
     const [hover, setHover] = useState<{ x: number; y: number; z: number; t: number } | null>(null);
-    const [globalStats, setGlobalStats] = useState<{
-        zMin: number;
-        zMax: number;
-        volume: number;
-        mass: number;
-        com: { x: number; y: number; z: number };
-    } | null>(null);
+    // modo paramétrico: parámetros (u, v) bajo el cursor y área total de la malla
+    const [paramHover, setParamHover] = useState<{ u: number; v: number } | null>(null);
+    const [surfaceArea, setSurfaceArea] = useState(NaN);
+    // modo implícito: punto de la superficie bajo el cursor
+    const [pointHover, setPointHover] = useState<Vec3 | null>(null);
+    const [globalStats, setGlobalStats] = useState<GlobalStats | null>(null);
 
     // NUEVO: estado para extremos y botón
-    const [extrema, setExtrema] = useState<
-        Array<{ x: number; y: number; z: number; type: "max" | "min" | "saddle" }>
-    >([]);
+    const [extrema, setExtrema] = useState<CriticalPoint[]>([]);
+    // modo extremos absolutos: candidatos del interior, del borde y de las esquinas de la región
+    const [absoluteMode, setAbsoluteMode] = useState(false);
+    const [absolute, setAbsolute] = useState<AbsoluteExtrema | null>(null);
+    // curva g = 0 y extremos de f sobre ella (null si no hay restricción)
+    const [constrained, setConstrained] = useState<ConstrainedExtrema | null>(null);
     const [scanKey, setScanKey] = useState(0); // para re-ejecutar búsqueda
+    // avance de los análisis que corren en el worker (ausente = terminado)
+    const [progress, setProgress] = useState<Partial<Record<AnalysisKind, number>>>({});
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+    const [meshError, setMeshError] = useState<string | null>(null);
+    const [layerError, setLayerError] = useState<string | null>(null);
+    // plano tangente y recta normal en el punto (a, b) fijado con clic; el parche mide una fracción de la región
+    const [pinned, setPinned] = useState<{ x: number; y: number } | null>(null);
+    const [patchScale, setPatchScale] = useState(0.25);
+    // escena persistente y, dentro, el grupo donde se dibujan (con la cámara y el lienzo, para arrastrar)
+    const [stage, setStage] = useState<Stage | null>(null);
+    const [pinScene, setPinScene] = useState<PinScene | null>(null);
+    // dirección u de la derivada direccional: un ángulo en grados o un vector que se normaliza
+    const [dirMode, setDirMode] = useState<"angle" | "vector">("angle");
+    const [dirAngle, setDirAngle] = useState(0);
+    const [dirVector, setDirVector] = useState({ x: "1", y: "1" });
+    // arrastre de la flecha de u (persiste aunque el efecto que la dibuja se rehaga)
+    const dragRef = useRef({ active: false, moved: false });
+    // la cámara se acercó a un punto de las listas (false en la vista general)
+    const [focused, setFocused] = useState(false);
+    const trackProgress = useCallback(
+        (kind: AnalysisKind, value: number | null) =>
+            setProgress((current) => {
+                const next = { ...current };
+                if (value === null) delete next[kind];
+                else next[kind] = value;
+                return next;
+            }),
+        []
+    );
 
-    // —— escena three básica (malla + overlays)
+    // errores de compilación de cada entrada (mismo motor y mensajes que el resto de visores) y del worker
+    const inputErrors = [
+        surface ? surfaceErrorMessage(surface) : null,
+        implicitFn?.error && `F: ${implicitFn.error.message}`,
+        isGraph && fnError && `f: ${fnError.message}`,
+        meshError && `f: ${meshError}`,
+        layerError && `capas: ${layerError}`,
+        densError && `σ: ${densError.message}`,
+        gError && `g: ${gError.message}`,
+        domError && `h: ${domError.message}`,
+        isGraph &&
+            compiledRegion.error &&
+            `región (${compiledRegion.error.bound === "lower" ? "inferior" : "superior"}): ${compiledRegion.error.error.message}`,
+        analysisError && `análisis: ${analysisError}`,
+    ].filter((msg): msg is string => Boolean(msg));
+
+    // —— escena three: renderer, cámara, luces y grupos se crean una sola vez; los efectos de abajo rehacen
+    // solo su parte (mover un slider rehace la malla, no el renderer)
     useEffect(() => {
         if (!mountRef.current) return;
         const container = mountRef.current;
@@ -130,10 +281,9 @@ export default function SurfaceInspector({
         const scene = new THREE.Scene();
         scene.background = new THREE.Color(0xffffff);
 
+        // el encuadre lo fija el efecto de abajo, según la región
         const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 1000);
-        camera.position.set(0, -range * 3, range * 1.8);
         camera.up.set(0, 0, 1);
-        camera.lookAt(0, 0, 0);
 
         const renderer = new THREE.WebGLRenderer({ antialias: true });
         renderer.setSize(width, height);
@@ -145,89 +295,243 @@ export default function SurfaceInspector({
         dir.position.set(5, -5, 10);
         scene.add(dir);
 
-        const grid = new THREE.GridHelper(range * 2, 10, 0x222222, 0x888888);
-        // GridHelper se crea en XZ; la giramos para que quede en XY
-        // @ts-ignore
-        grid.rotation.x = Math.PI / 2;
-        scene.add(grid);
-
-        // material con colores por altura
+        // material con colores por altura; la geometría la pone el efecto de la malla
         const mat = new THREE.MeshStandardMaterial({
             side: THREE.DoubleSide,
             flatShading: false,
             vertexColors: true,
         });
+        const mesh = new THREE.Mesh(new THREE.BufferGeometry(), mat);
+        scene.add(mesh);
 
-        // ——— construir geometría de superficie
-        const cols = Math.max(8, resolution);
-        const rows = Math.max(8, resolution);
-        const widthSpan = range * 2;
-        const heightSpan = range * 2;
-    const positions: number[] = [];
-    const colors: number[] = [];
-    const indices: number[] = [];
-    const validity: boolean[] = [];
-
-        const zGrid: number[][] = Array.from({ length: cols + 1 }, () => new Array(rows + 1).fill(NaN)); // para contornos
-        const x0 = -range;
-        const y0 = -range;
-        const dxS = widthSpan / cols;
-        const dyS = heightSpan / rows;
-
-        for (let j = 0; j <= rows; j++) {
-            for (let i = 0; i <= cols; i++) {
-                const x = x0 + i * dxS;
-                const y = y0 + j * dyS;
-
-                // Si hay dominio, no bloqueamos visualización, pero guardamos z y NaN si fuera del dominio (para contornos)
-                const inDom = domFun ? domFun(x, y) <= 0 : true;
-                const rawZ = fn(x, y, 0);
-                const ok = Number.isFinite(rawZ) && inDom;
-                const z = ok ? Number(rawZ) : 0;
-                zGrid[i][j] = ok ? z : NaN;
-                validity.push(ok);
-
-                positions.push(x, y, z);
-
-                const normalized = clamp01(((ok ? z : 0) + range) / (2 * range));
-                const c = new THREE.Color();
-                if (ok) {
-                    c.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
-                } else {
-                    c.setRGB(0.75, 0.75, 0.75);
+        const layers = new THREE.Group();
+        const contours = new THREE.Group();
+        const slices = new THREE.Group();
+        // plano tangente, recta normal, extremos...: los dibujan sus propios efectos
+        const pinnedGroup = new THREE.Group();
+        scene.add(layers, contours, slices, pinnedGroup);
+        setStage({ scene, camera, canvas: renderer.domElement, mesh, layers, contours, slices });
+        setPinScene({
+            group: pinnedGroup,
+            camera,
+            canvas: renderer.domElement,
+            home: { position: new THREE.Vector3(), target: new THREE.Vector3() },
+        });
+
+        const onResize = () => {
+            const w = container.clientWidth;
+            const h = container.clientHeight;
+            renderer.setSize(w, h);
+            camera.aspect = w / h;
+            camera.updateProjectionMatrix();
+        };
+        window.addEventListener("resize", onResize);
+
+        let rafId = 0;
+        const render = () => {
+            renderer.render(scene, camera);
+            rafId = requestAnimationFrame(render);
+        };
+        render();
+
+        // limpieza
+        return () => {
+            cancelAnimationFrame(rafId);
+            window.removeEventListener("resize", onResize);
+            setStage(null);
+            setPinScene(null);
+            container.removeChild(renderer.domElement);
+            renderer.dispose();
+            disposeTree(scene);
+        };
+    }, []);
+
+    // —— encuadre: un gráfico se encuadra sobre su región; las demás superficies, sobre el cuadrado de
+    // siempre. Solo cambia si cambia la caja, así que los parámetros no mueven la cámara
+    const frameX = isGraph ? (box.xMin + box.xMax) / 2 : 0;
+    const frameY = isGraph ? (box.yMin + box.yMax) / 2 : 0;
+    const frameSpan = isGraph ? Math.max(box.xMax - box.xMin, box.yMax - box.yMin) / 2 : range;
+    useEffect(() => {
+        if (!pinScene) return;
+        const { camera, home } = pinScene;
+        home.position.set(frameX, frameY - frameSpan * 3, frameSpan * 1.8);
+        home.target.set(frameX, frameY, 0);
+        camera.position.copy(home.position);
+        camera.lookAt(home.target);
+        setFocused(false);
+    }, [pinScene, frameX, frameY, frameSpan]);
+
+    useEffect(() => {
+        if (!stage) return;
+        const grid = new THREE.GridHelper(range * 2, 10, 0x222222, 0x888888);
+        // GridHelper se crea en XZ; la giramos para que quede en XY
+        grid.rotation.x = Math.PI / 2;
+        stage.scene.add(grid);
+        return () => {
+            stage.scene.remove(grid);
+            disposeTree(grid);
+        };
+    }, [stage, range]);
+
+    // —— malla de la superficie: se rehace su geometría, el resto de la escena se conserva
+    useEffect(() => {
+        if (!stage) return;
+        // ——— construir geometría de superficie (f y h evaluadas por lotes en toda la malla)
+        const explicitGeometry = (): THREE.BufferGeometry => {
+            const cols = Math.max(8, resolution);
+            const rows = cols;
+            const surfaceGrid = regionGrid(box, cols);
+            const count = surfaceGrid.nx * surfaceGrid.ny;
+            // si la pasada excede el presupuesto la malla queda vacía y se informa en el panel
+            let zValues: Float64Array;
+            let hValues: Float64Array | null;
+            try {
+                zValues = fnGrid(surfaceGrid, 0);
+                hValues = maskGrid ? maskGrid(surfaceGrid) : null;
+                setMeshError(null);
+            } catch (error) {
+                if (!(error instanceof EvaluationBudgetError)) throw error;
+                setMeshError(error.message);
+                zValues = new Float64Array(count).fill(NaN);
+                hValues = null;
+            }
+            const positions = new Float32Array(count * 3);
+            const colors = new Float32Array(count * 3);
+            const validity = new Uint8Array(count);
+
+            const x0 = surfaceGrid.x0;
+            const y0 = surfaceGrid.y0;
+            const dxS = surfaceGrid.dx;
+            const dyS = surfaceGrid.dy;
+            const color = new THREE.Color();
+
+            for (let j = 0; j <= rows; j++) {
+                for (let i = 0; i <= cols; i++) {
+                    const k = i + (cols + 1) * j;
+                    // fuera del dominio el vértice queda gris y sin triángulos
+                    const inDom = hValues ? hValues[k] <= 0 : true;
+                    const rawZ = zValues[k];
+                    const ok = Number.isFinite(rawZ) && inDom;
+                    const z = ok ? rawZ : 0;
+                    validity[k] = ok ? 1 : 0;
+
+                    positions[3 * k] = x0 + i * dxS;
+                    positions[3 * k + 1] = y0 + j * dyS;
+                    positions[3 * k + 2] = z;
+
+                    const normalized = clamp01(((ok ? z : 0) + range) / (2 * range));
+                    if (ok) {
+                        color.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
+                    } else {
+                        color.setRGB(0.75, 0.75, 0.75);
+                    }
+                    colors[3 * k] = color.r;
+                    colors[3 * k + 1] = color.g;
+                    colors[3 * k + 2] = color.b;
                 }
-                colors.push(c.r, c.g, c.b);
             }
-        }
-        for (let j = 0; j < rows; j++) {
-            for (let i = 0; i < cols; i++) {
-                const a = i + (cols + 1) * j;
-                const b = i + (cols + 1) * (j + 1);
-                const c = i + 1 + (cols + 1) * (j + 1);
-                const d = i + 1 + (cols + 1) * j;
-                if (validity[a] && validity[b] && validity[d]) indices.push(a, b, d);
-                if (validity[b] && validity[c] && validity[d]) indices.push(b, c, d);
+            // aristas que cruzan un salto entre ramas (funciones a trozos): esos triángulos no se dibujan
+            const jump = createJumpTest(fn, branch, 0, positions);
+            const indices = gridIndices(validity, jump, cols, rows);
+
+            const geometry = new THREE.BufferGeometry();
+            geometry.setIndex(indices);
+            geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+            geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+            geometry.computeVertexNormals();
+            return geometry;
+        };
+
+        // ——— superficie paramétrica: malla en (u, v) con su área total
+        const parametricSurfaceGeometry = (source: ParametricSource, compiled: ParametricSurface) => {
+            try {
+                const built = buildParametricMesh(compiled, source.domain, 0);
+                setMeshError(null);
+                setSurfaceArea(meshArea(built.positions, built.indices));
+                return parametricGeometry(built);
+            } catch (error) {
+                if (!(error instanceof EvaluationBudgetError)) throw error;
+                setMeshError(error.message);
+                setSurfaceArea(NaN);
+                return new THREE.BufferGeometry();
             }
-        }
+        };
 
-        const geometry = new THREE.BufferGeometry();
-        geometry.setIndex(indices);
-        geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
-        geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
-        geometry.computeVertexNormals();
+        // ——— superficie implícita: marching cubes en la caja [-range, range]² × [zMin, zMax]
+        const implicitSurfaceGeometry = (source: ImplicitSource, compiled: ImplicitFunction) => {
+            try {
+                const built = buildImplicitMesh(compiled, source, range);
+                setMeshError(null);
+                setSurfaceArea(meshArea(built.positions, built.indices));
+                return implicitGeometry(built);
+            } catch (error) {
+                if (!(error instanceof EvaluationBudgetError)) throw error;
+                setMeshError(error.message);
+                setSurfaceArea(NaN);
+                return new THREE.BufferGeometry();
+            }
+        };
 
-        const mesh = new THREE.Mesh(geometry, mat);
-        scene.add(mesh);
+        const geometry =
+            parametric && surface
+                ? parametricSurfaceGeometry(parametric, surface)
+                : implicit && implicitFn
+                  ? implicitSurfaceGeometry(implicit, implicitFn)
+                  : explicitGeometry();
+
+        const { mesh } = stage;
+        mesh.geometry.dispose();
+        mesh.geometry = geometry;
+    }, [stage, box, resolution, range, fn, fnGrid, branch, maskGrid, parametric, surface, implicit, implicitFn]);
 
-        // —— overlays: contornos 2D (z=0) y contorno de dominio h=0
-        const overlays = new THREE.Group();
-        scene.add(overlays);
+    // —— capas z = g(x,y) en el orden de la lista (las translúcidas se dibujan en ese orden)
+    useEffect(() => {
+        if (!stage) return;
+        const { layers: group } = stage;
+        try {
+            setLayerError(null);
+            // la malla y la máscara son las mismas para todas las capas
+            const surfaceGrid = regionGrid(box, Math.max(8, resolution));
+            const maskValues = maskGrid ? maskGrid(surfaceGrid) : null;
+            compiledLayers.forEach(({ compiled }, index) => {
+                const { geometry, update } = createLayerGeometry(compiled, surfaceGrid, maskValues);
+                const layerMesh = new THREE.Mesh(geometry, layerMaterial());
+                layerMesh.renderOrder = index + 1;
+                group.add(layerMesh);
+                update(0);
+            });
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            setLayerError(error.message);
+        }
+        return () => {
+            disposeTree(group);
+            group.clear();
+        };
+    }, [stage, compiledLayers, box, maskGrid, resolution]);
 
-        const drawSegments = (segs: Array<[THREE.Vector3, THREE.Vector3]>, zLift = 0.001) => {
+    // —— color, opacidad y alambre de las capas: se cambian en su material, sin rehacer las mallas
+    useEffect(() => {
+        if (!stage) return;
+        stage.layers.children.forEach((child, index) => {
+            const layer = layers.find((other) => other.id === compiledLayers[index]?.id);
+            const { material } = child as THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>;
+            if (layer) styleLayerMaterial(material, layer);
+        });
+    }, [stage, layers, compiledLayers]);
+
+    // —— contornos de z (niveles entre zMin/zMax válidos) y del dominio h(x,y)=0, calculados en el worker;
+    // una superficie paramétrica no es un gráfico sobre el plano XY, así que no tiene contornos
+    useEffect(() => {
+        if (!stage || !isGraph) return;
+        const { contours: overlays } = stage;
+
+        // segs: (x1, y1, x2, y2) consecutivos
+        const drawSegments = (segs: Float32Array, zLift = 0.001) => {
             if (segs.length === 0) return;
             const pos: number[] = [];
-            for (const [a, b] of segs) {
-                pos.push(a.x, a.y, zLift, b.x, b.y, zLift);
+            for (let k = 0; k < segs.length; k += 4) {
+                pos.push(segs[k], segs[k + 1], zLift, segs[k + 2], segs[k + 3], zLift);
             }
             const g = new THREE.BufferGeometry();
             g.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
@@ -236,49 +540,59 @@ export default function SurfaceInspector({
             overlays.add(lines);
         };
 
-        // contornos de z (10 niveles entre zMin/zMax válidos)
-        const validVals: number[] = [];
-        for (let i = 0; i <= cols; i++)
-            for (let j = 0; j <= rows; j++) if (Number.isFinite(zGrid[i][j])) validVals.push(zGrid[i][j]);
-        if (validVals.length > 0) {
-            validVals.sort((a, b) => a - b);
-            const zMin = validVals[0];
-            const zMax = validVals[validVals.length - 1];
-            const L = 10;
-            for (let k = 1; k < L; k++) {
-                const level = zMin + (k * (zMax - zMin)) / L;
-                const segs = marchingSquares(zGrid, x0, y0, dxS, dyS, level);
-                drawSegments(segs, 0.001 + 0.0001 * k);
+        const cancelContours = runAnalysis(
+            { kind: "contours", source: { expression, domainExpression, parameters, definitions, region, resolution } },
+            {
+                onResult: (contours) => {
+                    contours.levels.forEach((segs, k) => drawSegments(segs, 0.001 + 0.0001 * (k + 1)));
+                    if (contours.domain) drawSegments(contours.domain, 0.0005);
+                    trackProgress("contours", null);
+                },
+                onProgress: (value) => trackProgress("contours", value),
+                onError: (message) => {
+                    setAnalysisError(message);
+                    trackProgress("contours", null);
+                },
             }
-        }
+        );
+        trackProgress("contours", 0);
+        return () => {
+            cancelContours();
+            disposeTree(overlays);
+            overlays.clear();
+        };
+    }, [stage, isGraph, expression, domainExpression, parameters, definitions, region, resolution, trackProgress]);
 
-        // contorno del dominio h(x,y)=0 (si hay)
-        if (domFun) {
-            // construimos una grilla de h en los nodos de zGrid
-            const hGrid: number[][] = Array.from({ length: cols + 1 }, () => new Array(rows + 1).fill(1));
-            for (let i = 0; i <= cols; i++)
-                for (let j = 0; j <= rows; j++) hGrid[i][j] = domFun(x0 + i * dxS, y0 + j * dyS);
-            const domSegs = marchingSquares(hGrid, x0, y0, dxS, dyS, 0);
-            drawSegments(domSegs, 0.0005);
-        }
+    // —— cortes (o curvas coordenadas, o ∇F) que siguen al cursor y clic para fijar (a, b)
+    useEffect(() => {
+        if (!stage) return;
+        const { camera, canvas, mesh, slices: sliceGroup } = stage;
 
         // —— raycaster para plano XY (z=0)
         const raycaster = new THREE.Raycaster();
         const planeXY = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0); // z=0
+        const aim = (e: MouseEvent) => {
+            const rect = canvas.getBoundingClientRect();
+            const ndc = new THREE.Vector2(
+                ((e.clientX - rect.left) / rect.width) * 2 - 1,
+                -(((e.clientY - rect.top) / rect.height) * 2 - 1)
+            );
+            raycaster.setFromCamera(ndc, camera);
+        };
 
-        // —— Slices (líneas de corte) que siguen al hover
-        const sliceGroup = new THREE.Group();
-        scene.add(sliceGroup);
-
+        // los cortes recorren la caja y se quedan dentro de la región y del dominio
+        const lineMask = (x0: number, y0: number, dx: number, dy: number, n: number) =>
+            maskGrid ? maskGrid({ x0, y0, dx, dy, nx: dx ? n + 1 : 1, ny: dx ? 1 : n + 1 }) : null;
         const updateSlices = (x0: number, y0: number) => {
             sliceGroup.clear();
             // x = x0: barrer y
             const Ny = Math.max(32, resolution);
             const linePtsX: number[] = [];
+            const maskX = lineMask(x0, box.yMin, 0, (box.yMax - box.yMin) / Ny, Ny);
             for (let j = 0; j <= Ny; j++) {
-                const y = -range + (2 * range * j) / Ny;
+                const y = box.yMin + ((box.yMax - box.yMin) * j) / Ny;
                 const z = fn(x0, y, 0);
-                if (Number.isFinite(z)) {
+                if (Number.isFinite(z) && (!maskX || maskX[j] <= 0)) {
                     linePtsX.push(x0, y, z);
                 }
             }
@@ -293,10 +607,11 @@ export default function SurfaceInspector({
             // y = y0: barrer x
             const Nx = Math.max(32, resolution);
             const linePtsY: number[] = [];
+            const maskY = lineMask(box.xMin, y0, (box.xMax - box.xMin) / Nx, 0, Nx);
             for (let i = 0; i <= Nx; i++) {
-                const x = -range + (2 * range * i) / Nx;
+                const x = box.xMin + ((box.xMax - box.xMin) * i) / Nx;
                 const z = fn(x, y0, 0);
-                if (Number.isFinite(z)) {
+                if (Number.isFinite(z) && (!maskY || maskY[i] <= 0)) {
                     linePtsY.push(x, y0, z);
                 }
             }
@@ -309,19 +624,82 @@ export default function SurfaceInspector({
             }
         };
 
+        // superficie paramétrica: curvas coordenadas u = u0 y v = v0 por el punto, y r_u (rojo), r_v (verde)
+        // y la normal (azul); los tangentes se escalan juntos para conservar su proporción
+        const updateCoordinateCurves = (compiled: ParametricSurface, domain: ParametricDomain, u0: number, v0: number) => {
+            sliceGroup.clear();
+            const addCurve = (at: (s: number) => [number, number], from: number, to: number, samples: number) => {
+                const pts: number[] = [];
+                for (let k = 0; k <= samples; k++) {
+                    const [u, v] = at(from + ((to - from) * k) / samples);
+                    const x = compiled.fn.x(u, v, 0);
+                    const y = compiled.fn.y(u, v, 0);
+                    const z = compiled.fn.z(u, v, 0);
+                    if (Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z)) pts.push(x, y, z);
+                }
+                if (pts.length >= 6) {
+                    const g = new THREE.BufferGeometry();
+                    g.setAttribute("position", new THREE.Float32BufferAttribute(pts, 3));
+                    sliceGroup.add(new THREE.Line(g, new THREE.LineBasicMaterial()));
+                }
+            };
+            addCurve((v) => [u0, v], domain.vMin, domain.vMax, Math.max(32, domain.vCells));
+            addCurve((u) => [u, v0], domain.uMin, domain.uMax, Math.max(32, domain.uCells));
+
+            const frame = tangentFrame(compiled, u0, v0, 0);
+            const origin = new THREE.Vector3(...frame.r);
+            const ru = new THREE.Vector3(...frame.ru);
+            const rv = new THREE.Vector3(...frame.rv);
+            const longest = Math.max(ru.length(), rv.length());
+            const scale = longest > 0 ? (0.3 * range) / longest : 0;
+            const addArrow = (vector: THREE.Vector3, length: number, color: number) => {
+                if (!(length > 0) || !Number.isFinite(length)) return;
+                sliceGroup.add(new THREE.ArrowHelper(vector.clone().normalize(), origin, length, color));
+            };
+            addArrow(ru, ru.length() * scale, 0xdd3333);
+            addArrow(rv, rv.length() * scale, 0x22aa22);
+            addArrow(new THREE.Vector3(...frame.normal), 0.3 * range, 0x3366cc);
+        };
+
+        // superficie implícita: ∇F (azul) en el punto, normal a la superficie de nivel
+        const updateNormalLine = (compiled: ImplicitFunction, point: THREE.Vector3) => {
+            sliceGroup.clear();
+            const gradient = new THREE.Vector3(...implicitGradient(compiled, point.x, point.y, point.z));
+            if (!(gradient.length() > 0) || !Number.isFinite(gradient.length())) return;
+            sliceGroup.add(new THREE.ArrowHelper(gradient.normalize(), point, 0.3 * range, 0x3366cc));
+        };
+
         const onPointerMove = (e: PointerEvent) => {
-            const rect = renderer.domElement.getBoundingClientRect();
-            const ndc = new THREE.Vector2(
-                ((e.clientX - rect.left) / rect.width) * 2 - 1,
-                -(((e.clientY - rect.top) / rect.height) * 2 - 1)
-            );
-            raycaster.setFromCamera(ndc, camera);
+            aim(e);
+            if (parametric && surface) {
+                // el punto de la superficie bajo el cursor y sus parámetros (u, v), interpolados por three
+                const hit = raycaster.intersectObject(mesh)[0];
+                if (hit?.uv) {
+                    setParamHover({ u: hit.uv.x, v: hit.uv.y });
+                    updateCoordinateCurves(surface, parametric.domain, hit.uv.x, hit.uv.y);
+                } else {
+                    setParamHover(null);
+                    sliceGroup.clear();
+                }
+                return;
+            }
+            if (implicit && implicitFn) {
+                const hit = raycaster.intersectObject(mesh)[0];
+                if (hit) {
+                    setPointHover([hit.point.x, hit.point.y, hit.point.z]);
+                    updateNormalLine(implicitFn, hit.point);
+                } else {
+                    setPointHover(null);
+                    sliceGroup.clear();
+                }
+                return;
+            }
             const pt = new THREE.Vector3();
             raycaster.ray.intersectPlane(planeXY, pt);
             if (!isFinite(pt.x) || !isFinite(pt.y)) return;
             const t = performance.now() / 1000;
             const z = Number(fn(pt.x, pt.y, t));
-            if (Number.isFinite(z)) {
+            if (Number.isFinite(z) && insideRegion(compiledRegion, pt.x, pt.y)) {
                 setHover({ x: pt.x, y: pt.y, z, t });
                 updateSlices(pt.x, pt.y); // slices siguen al cursor
             } else {
@@ -329,80 +707,64 @@ export default function SurfaceInspector({
                 sliceGroup.clear();
             }
         };
-        renderer.domElement.addEventListener("pointermove", onPointerMove);
+        canvas.addEventListener("pointermove", onPointerMove);
 
-        const onResize = () => {
-            const w = container.clientWidth;
-            const h = container.clientHeight;
-            renderer.setSize(w, h);
-            camera.aspect = w / h;
-            camera.updateProjectionMatrix();
-        };
-        window.addEventListener("resize", onResize);
-
-        const render = () => {
-            renderer.render(scene, camera);
-            requestAnimationFrame(render);
+        // clic sobre el gráfico: fija (a, b) para el plano tangente; fuera de la región lo suelta
+        const onClick = (e: MouseEvent) => {
+            if (!isGraph) return;
+            aim(e);
+            const pt = new THREE.Vector3();
+            raycaster.ray.intersectPlane(planeXY, pt);
+            const onGraph = Number.isFinite(fn(pt.x, pt.y, 0)) && insideRegion(compiledRegion, pt.x, pt.y);
+            setPinned(onGraph ? { x: pt.x, y: pt.y } : null);
         };
-        render();
+        canvas.addEventListener("click", onClick);
 
-        // limpieza
         return () => {
-            renderer.domElement.removeEventListener("pointermove", onPointerMove);
-            window.removeEventListener("resize", onResize);
-            container.removeChild(renderer.domElement);
-            renderer.dispose();
-            geometry.dispose();
-            if (Array.isArray(mat)) mat.forEach((m) => m.dispose());
-            else mat.dispose();
+            canvas.removeEventListener("pointermove", onPointerMove);
+            canvas.removeEventListener("click", onClick);
+            disposeTree(sliceGroup);
+            sliceGroup.clear();
         };
-    }, [range, resolution, fn, domFun]);
+    }, [stage, fn, box, compiledRegion, maskGrid, resolution, range, parametric, surface, implicit, implicitFn, isGraph]);
 
-    // —— precómputos globales (rango z, volumen, masa, centro de masa) con máscara de dominio
+    // —— precómputos globales (rango z, volumen, masa, centro de masa) con máscara de dominio, en el worker;
+    // los resultados parciales se muestran mientras avanza y un cambio de entrada cancela el cálculo viejo
     useEffect(() => {
-        const N = Math.max(16, Math.min(200, resolution));
-        let zMin = Infinity,
-            zMax = -Infinity;
-        let vol = 0; // ∫ max(f,0) dA dentro del dominio
-        let mass = 0; // ∫ σ * max(f,0) dA dentro del dominio
-        let mx = 0,
-            my = 0,
-            mz = 0;
-
-        const dx = (2 * range) / N;
-        const dy = (2 * range) / N;
-        const dA = dx * dy;
-
-        for (let j = 0; j < N; j++) {
-            const y = -range + (j + 0.5) * dy;
-            for (let i = 0; i < N; i++) {
-                const x = -range + (i + 0.5) * dx;
-
-                // máscara de dominio
-                if (domFun && !(domFun(x, y) <= 0)) continue;
-
-                const z = fn(x, y, 0);
-                if (Number.isFinite(z)) {
-                    zMin = Math.min(zMin, z);
-                    zMax = Math.max(zMax, z);
-                    const h = Math.max(0, z);
-                    const sigma = dens(x, y);
-                    const dV = h * dA;
-                    const dM = sigma * dV;
-
-                    vol += dV;
-                    mass += dM;
-                    mx += x * dM;
-                    my += y * dM;
-                    mz += (h * h * 0.5) * sigma * dA; // z medio local = h/2
-                }
+        setAnalysisError(null);
+        if (!isGraph) return;
+        trackProgress("stats", 0);
+        return runAnalysis(
+            {
+                kind: "stats",
+                source: { expression, densityExpression, domainExpression, parameters, definitions, region, resolution },
+            },
+            {
+                onProgress: (value, partial) => {
+                    setGlobalStats(partial);
+                    trackProgress("stats", value);
+                },
+                onResult: (stats) => {
+                    setGlobalStats(stats);
+                    trackProgress("stats", null);
+                },
+                onError: (message) => {
+                    setAnalysisError(message);
+                    trackProgress("stats", null);
+                },
             }
-        }
-        const com = mass > 0 ? { x: mx / mass, y: my / mass, z: mz / mass } : { x: NaN, y: NaN, z: NaN };
-        if (!Number.isFinite(zMin)) zMin = NaN;
-        if (!Number.isFinite(zMax)) zMax = NaN;
-        setGlobalStats({ zMin, zMax, volume: vol, mass, com });
-    }, [fn, dens, range, resolution, domFun]);
+        );
+    }, [
+        expression,
+        densityExpression,
+        domainExpression,
+        parameters,
+        definitions,
+        region,
+        resolution,
+        trackProgress,
+        isGraph,
+    ]);
 
     // —— utilidades numéricas locales (límites/derivadas) en punto hover
     const localInfo = useMemo(() => {
@@ -412,8 +774,8 @@ export default function SurfaceInspector({
 
         const val = fn(x, y, t);
 
-        const fx = (fn(x + h, y, t) - fn(x - h, y, t)) / (2 * h);
-        const fy = (fn(x, y + h, t) - fn(x, y - h, t)) / (2 * h);
+        const fx = deriv ? deriv.fx(x, y, t) : (fn(x + h, y, t) - fn(x - h, y, t)) / (2 * h);
+        const fy = deriv ? deriv.fy(x, y, t) : (fn(x, y + h, t) - fn(x, y - h, t)) / (2 * h);
         const grad = { fx, fy, norm: Math.hypot(fx, fy) };
 
         // límite numérico por múltiples caminos hacia (x,y)
@@ -447,8 +809,8 @@ export default function SurfaceInspector({
         // Lagrange (si hay g)
         let lagrange: { g: number; lam: number; grad_g: { gx: number; gy: number } } | null = null;
         if (gFun) {
-            const gx = (gFun(x + h, y) - gFun(x - h, y)) / (2 * h);
-            const gy = (gFun(x, y + h) - gFun(x, y - h)) / (2 * h);
+            const gx = gDeriv ? gDeriv.fx(x, y) : (gFun(x + h, y) - gFun(x - h, y)) / (2 * h);
+            const gy = gDeriv ? gDeriv.fy(x, y) : (gFun(x, y + h) - gFun(x, y - h)) / (2 * h);
             const gg = gFun(x, y);
             const denom = gx * gx + gy * gy;
             const lam = denom > 0 ? (fx * gx + fy * gy) / denom : NaN;
@@ -466,78 +828,697 @@ export default function SurfaceInspector({
             },
             lagrange,
         };
-    }, [hover, fn, gFun, range]);
+    }, [hover, fn, gFun, deriv, gDeriv, range]);
+
+    // —— plano tangente z = f(a,b) + fx·(x − a) + fy·(y − b) en el punto fijado (t = 0, como la malla)
+    const tangent = useMemo(() => {
+        if (!pinned || !isGraph) return null;
+        const { x: a, y: b } = pinned;
+        const h = Math.max(1e-4, range / 1000);
+        const z0 = fn(a, b, 0);
+        const fx = deriv ? deriv.fx(a, b, 0) : (fn(a + h, b, 0) - fn(a - h, b, 0)) / (2 * h);
+        const fy = deriv ? deriv.fy(a, b, 0) : (fn(a, b + h, 0) - fn(a, b - h, 0)) / (2 * h);
+        if (![z0, fx, fy].every(Number.isFinite)) return null;
+        return { a, b, z0, fx, fy, at: (x: number, y: number) => z0 + fx * (x - a) + fy * (y - b) };
+    }, [pinned, isGraph, fn, deriv, range]);
+    const patchHalf = (patchScale * Math.max(box.xMax - box.xMin, box.yMax - box.yMin)) / 2;
 
-    // —— NUEVO: búsqueda de extremos en la malla (click en botón)
+    useEffect(() => {
+        if (!pinScene || !tangent) return;
+        const { group } = pinScene;
+        const { a, b, z0, fx, fy } = tangent;
+        // parche cuadrado [a ± s] × [b ± s] sobre el plano
+        const patchGeom = new THREE.PlaneGeometry(2 * patchHalf, 2 * patchHalf, 1, 1);
+        const pos = patchGeom.attributes.position as THREE.BufferAttribute;
+        for (let i = 0; i < pos.count; i++) {
+            const x = a + pos.getX(i);
+            const y = b + pos.getY(i);
+            pos.setXYZ(i, x, y, tangent.at(x, y));
+        }
+        patchGeom.computeVertexNormals();
+        const patchMat = new THREE.MeshStandardMaterial({
+            color: 0x2a9d8f,
+            side: THREE.DoubleSide,
+            transparent: true,
+            opacity: 0.45,
+            depthWrite: false,
+        });
+        const patch = new THREE.Mesh(patchGeom, patchMat);
+        // después de la superficie y de las capas
+        patch.renderOrder = 1000;
+
+        // recta normal por (a, b, f(a,b)) en la dirección (−fx, −fy, 1)
+        const point = new THREE.Vector3(a, b, z0);
+        const normal = new THREE.Vector3(-fx, -fy, 1).normalize();
+        const lineGeom = new THREE.BufferGeometry().setFromPoints([
+            point.clone().addScaledVector(normal, -patchHalf),
+            point.clone().addScaledVector(normal, patchHalf),
+        ]);
+        const lineMat = new THREE.LineBasicMaterial({ color: 0xd62828 });
+        const line = new THREE.Line(lineGeom, lineMat);
+        const dotGeom = new THREE.SphereGeometry(0.02 * patchHalf + 0.02, 12, 12);
+        const dotMat = new THREE.MeshBasicMaterial({ color: 0xd62828 });
+        const dot = new THREE.Mesh(dotGeom, dotMat);
+        dot.position.copy(point);
+
+        group.add(patch, line, dot);
+        return () => {
+            group.remove(patch, line, dot);
+            patchGeom.dispose();
+            patchMat.dispose();
+            lineGeom.dispose();
+            lineMat.dispose();
+            dotGeom.dispose();
+            dotMat.dispose();
+        };
+    }, [pinScene, tangent, patchHalf]);
+
+    // —— derivada direccional D_u f = ∇f·u en el punto fijado
+    const unitDirection = useMemo<[number, number] | null>(() => {
+        if (dirMode === "angle") {
+            const theta = (dirAngle * Math.PI) / 180;
+            return [Math.cos(theta), Math.sin(theta)];
+        }
+        const x = Number(dirVector.x);
+        const y = Number(dirVector.y);
+        const norm = Math.hypot(x, y);
+        return Number.isFinite(norm) && norm > 0 ? [x / norm, y / norm] : null;
+    }, [dirMode, dirAngle, dirVector]);
+    // apuntar u a un ángulo (arrastre de la flecha y botones del panel)
+    const pointTo = useCallback((degrees: number) => {
+        setDirMode("angle");
+        setDirAngle(Math.round(degrees));
+    }, []);
+
+    useEffect(() => {
+        if (!pinScene || !tangent || !unitDirection) return;
+        const { group, camera, canvas } = pinScene;
+        const { a, b, z0, fx, fy } = tangent;
+        const [ux, uy] = unitDirection;
+        const du = fx * ux + fy * uy;
+        const length = patchHalf;
+        const point = new THREE.Vector3(a, b, z0);
+        const tool = new THREE.Group();
+        const flat = (x: number, y: number) => new THREE.Vector3(x, y, 0).normalize();
+
+        // flecha de u en el plano horizontal z = f(a,b); se arrastra desde la punta
+        tool.add(new THREE.ArrowHelper(flat(ux, uy), point, length, 0x7b2cbf, 0.2 * length, 0.1 * length));
+        // máximo ascenso (verde), máximo descenso (azul) y las direcciones con D_u f = 0 (gris)
+        const gradNorm = Math.hypot(fx, fy);
+        if (gradNorm > 1e-12) {
+            const short = 0.6 * length;
+            tool.add(new THREE.ArrowHelper(flat(fx, fy), point, short, 0x2b9348, 0.15 * short, 0.08 * short));
+            tool.add(new THREE.ArrowHelper(flat(-fx, -fy), point, short, 0x1d4ed8, 0.15 * short, 0.08 * short));
+            const level = flat(-fy, fx).multiplyScalar(short);
+            tool.add(
+                new THREE.Line(
+                    new THREE.BufferGeometry().setFromPoints([point.clone().sub(level), point.clone().add(level)]),
+                    new THREE.LineBasicMaterial({ color: 0x888888 })
+                )
+            );
+        }
+
+        // corte de la superficie a lo largo de u, z = f(a + s·ux, b + s·uy), y su recta tangente z0 + s·D_u f
+        const samples = 96;
+        const curve: THREE.Vector3[][] = [[]];
+        for (let k = 0; k <= samples; k++) {
+            const sk = -length + (2 * length * k) / samples;
+            const x = a + sk * ux;
+            const y = b + sk * uy;
+            const z = fn(x, y, 0);
+            const run = curve[curve.length - 1];
+            if (Number.isFinite(z) && insideRegion(compiledRegion, x, y)) run.push(new THREE.Vector3(x, y, z));
+            else if (run.length > 0) curve.push([]);
+        }
+        for (const run of curve) {
+            if (run.length < 2) continue;
+            tool.add(
+                new THREE.Line(
+                    new THREE.BufferGeometry().setFromPoints(run),
+                    new THREE.LineBasicMaterial({ color: 0xf77f00 })
+                )
+            );
+        }
+        tool.add(
+            new THREE.Line(
+                new THREE.BufferGeometry().setFromPoints([
+                    new THREE.Vector3(a - length * ux, b - length * uy, z0 - length * du),
+                    new THREE.Vector3(a + length * ux, b + length * uy, z0 + length * du),
+                ]),
+                new THREE.LineBasicMaterial({ color: 0x222222 })
+            )
+        );
+        group.add(tool);
+
+        // arrastre: se toma la punta de la flecha y el ángulo sigue al cursor sobre el plano z = f(a,b)
+        const raycaster = new THREE.Raycaster();
+        const horizontal = new THREE.Plane(new THREE.Vector3(0, 0, 1), -z0);
+        const tip = point.clone().add(flat(ux, uy).multiplyScalar(length));
+        const hitAt = (e: PointerEvent) => {
+            const rect = canvas.getBoundingClientRect();
+            const ndc = new THREE.Vector2(
+                ((e.clientX - rect.left) / rect.width) * 2 - 1,
+                -(((e.clientY - rect.top) / rect.height) * 2 - 1)
+            );
+            raycaster.setFromCamera(ndc, camera);
+            return raycaster.ray.intersectPlane(horizontal, new THREE.Vector3());
+        };
+        const drag = dragRef.current;
+        const onPointerDown = (e: PointerEvent) => {
+            const hit = hitAt(e);
+            if (!hit || hit.distanceTo(tip) > 0.25 * length) return;
+            drag.active = true;
+            drag.moved = false;
+            canvas.setPointerCapture(e.pointerId);
+        };
+        const onPointerMove = (e: PointerEvent) => {
+            if (!drag.active) return;
+            const hit = hitAt(e);
+            if (!hit || Math.hypot(hit.x - a, hit.y - b) < 1e-9) return;
+            drag.moved = true;
+            pointTo((Math.atan2(hit.y - b, hit.x - a) * 180) / Math.PI);
+        };
+        const onPointerUp = () => {
+            drag.active = false;
+        };
+        // el clic que cierra un arrastre no vuelve a fijar el punto (se captura antes que el de la escena)
+        const onClick = (e: MouseEvent) => {
+            if (!drag.moved) return;
+            drag.moved = false;
+            e.stopImmediatePropagation();
+        };
+        canvas.addEventListener("pointerdown", onPointerDown);
+        canvas.addEventListener("pointermove", onPointerMove);
+        canvas.addEventListener("pointerup", onPointerUp);
+        canvas.addEventListener("click", onClick, { capture: true });
+
+        return () => {
+            canvas.removeEventListener("pointerdown", onPointerDown);
+            canvas.removeEventListener("pointermove", onPointerMove);
+            canvas.removeEventListener("pointerup", onPointerUp);
+            canvas.removeEventListener("click", onClick, { capture: true });
+            group.remove(tool);
+            disposeTree(tool);
+        };
+    }, [pinScene, tangent, unitDirection, patchHalf, fn, compiledRegion, pointTo]);
+
+    // —— NUEVO: búsqueda de extremos en la malla (click en botón), en el worker
     useEffect(() => {
         // solo dispara cuando cambia scanKey / parámetros
-        const Nx = Math.max(24, Math.min(120, resolution));
-        const Ny = Nx;
-        const dx = (2 * range) / Nx;
-        const dy = (2 * range) / Ny;
-        const epsGrad = 1e-2 * Math.max(1, range); // umbral suave
-
-        const found: Array<{ x: number; y: number; z: number; type: "max" | "min" | "saddle" }> = [];
-
-        const f = (x: number, y: number) => fn(x, y, 0);
-        const inside = (x: number, y: number) => (domFun ? domFun(x, y) <= 0 : true);
-
-        for (let i = 1; i < Nx - 1; i++) {
-            const x = -range + i * dx;
-            for (let j = 1; j < Ny - 1; j++) {
-                const y = -range + j * dy;
-                if (!inside(x, y)) continue;
-
-                // gradiente
-                const fx = (f(x + dx, y) - f(x - dx, y)) / (2 * dx);
-                const fy = (f(x, y + dy) - f(x, y - dy)) / (2 * dy);
-                const gnorm = Math.hypot(fx, fy);
-                if (!Number.isFinite(gnorm) || gnorm > epsGrad) continue;
-
-                // Hessiano aproximado
-                const fxx = (f(x + dx, y) - 2 * f(x, y) + f(x - dx, y)) / (dx * dx);
-                const fyy = (f(x, y + dy) - 2 * f(x, y) + f(x, y - dy)) / (dy * dy);
-                const fxy = (f(x + dx, y + dy) - f(x + dx, y - dy) - f(x - dx, y + dy) + f(x - dx, y - dy)) / (4 * dx * dy);
-
-                const D = fxx * fyy - fxy * fxy;
-                const z = f(x, y);
-                if (!Number.isFinite(D) || !Number.isFinite(z)) continue;
-
-                if (D > 0 && fxx < 0) found.push({ x, y, z, type: "max" });
-                else if (D > 0 && fxx > 0) found.push({ x, y, z, type: "min" });
-                else if (D < 0) found.push({ x, y, z, type: "saddle" });
+        if (!isGraph) {
+            setExtrema([]);
+            return;
+        }
+        trackProgress("extrema", 0);
+        return runAnalysis(
+            { kind: "extrema", source: { expression, domainExpression, parameters, definitions, region, resolution } },
+            {
+                onProgress: (value, partial) => {
+                    setExtrema(partial);
+                    trackProgress("extrema", value);
+                },
+                onResult: (found) => {
+                    setExtrema(found);
+                    trackProgress("extrema", null);
+                },
+                onError: (message) => {
+                    setAnalysisError(message);
+                    trackProgress("extrema", null);
+                },
             }
+        );
+    }, [scanKey, expression, domainExpression, parameters, definitions, region, resolution, trackProgress, isGraph]);
+
+    // —— extremos absolutos en la región cerrada (interior + borde + esquinas), en el worker
+    useEffect(() => {
+        if (!isGraph || !absoluteMode) {
+            setAbsolute(null);
+            return;
+        }
+        trackProgress("absolute", 0);
+        return runAnalysis(
+            { kind: "absolute", source: { expression, domainExpression, parameters, definitions, region, resolution } },
+            {
+                onProgress: (value, partial) => {
+                    setAbsolute(partial);
+                    trackProgress("absolute", value);
+                },
+                onResult: (found) => {
+                    setAbsolute(found);
+                    trackProgress("absolute", null);
+                },
+                onError: (message) => {
+                    setAnalysisError(message);
+                    trackProgress("absolute", null);
+                },
+            }
+        );
+    }, [absoluteMode, expression, domainExpression, parameters, definitions, region, resolution, trackProgress, isGraph]);
+
+    // —— extremos condicionados: ∇f = λ∇g sobre g = 0, resueltos en el worker
+    useEffect(() => {
+        if (!isGraph || !constraintExpression?.trim() || gError) {
+            setConstrained(null);
+            return;
+        }
+        trackProgress("lagrange", 0);
+        return runAnalysis(
+            {
+                kind: "lagrange",
+                source: { expression, constraintExpression, domainExpression, parameters, definitions, region, resolution },
+            },
+            {
+                onProgress: (value, partial) => {
+                    setConstrained(partial);
+                    trackProgress("lagrange", value);
+                },
+                onResult: (found) => {
+                    setConstrained(found);
+                    trackProgress("lagrange", null);
+                },
+                onError: (message) => {
+                    setAnalysisError(message);
+                    trackProgress("lagrange", null);
+                },
+            }
+        );
+    }, [
+        expression,
+        constraintExpression,
+        gError,
+        domainExpression,
+        parameters,
+        definitions,
+        region,
+        resolution,
+        trackProgress,
+        isGraph,
+    ]);
+
+    // la curva en z = 0 y levantada sobre la superficie; cada extremo, en el plano y sobre el gráfico
+    useEffect(() => {
+        if (!pinScene || !constrained) return;
+        const { group } = pinScene;
+        const { curve, points } = constrained;
+        const drawn = new THREE.Group();
+        const planePts: number[] = [];
+        const surfacePts: number[] = [];
+        for (let k = 0; k < curve.length; k += 4) {
+            const [x1, y1, x2, y2] = curve.subarray(k, k + 4);
+            planePts.push(x1, y1, 0.002, x2, y2, 0.002);
+            const z1 = fn(x1, y1, 0);
+            const z2 = fn(x2, y2, 0);
+            if (Number.isFinite(z1) && Number.isFinite(z2)) surfacePts.push(x1, y1, z1, x2, y2, z2);
+        }
+        for (const pts of [planePts, surfacePts]) {
+            if (pts.length === 0) continue;
+            const lineGeom = new THREE.BufferGeometry();
+            lineGeom.setAttribute("position", new THREE.Float32BufferAttribute(pts, 3));
+            drawn.add(new THREE.LineSegments(lineGeom, new THREE.LineBasicMaterial({ color: 0xe76f51 })));
+        }
+        const radius = 0.012 * Math.max(box.xMax - box.xMin, box.yMax - box.yMin);
+        for (const p of points) {
+            const color = p.type === "max" ? 0xdd3333 : p.type === "min" ? 0x3366cc : 0xe6b800;
+            for (const z of [0, p.z]) {
+                const dot = new THREE.Mesh(
+                    new THREE.SphereGeometry(radius, 12, 12),
+                    new THREE.MeshBasicMaterial({ color })
+                );
+                dot.position.set(p.x, p.y, z);
+                drawn.add(dot);
+            }
+            drawn.add(
+                new THREE.Line(
+                    new THREE.BufferGeometry().setFromPoints([
+                        new THREE.Vector3(p.x, p.y, 0),
+                        new THREE.Vector3(p.x, p.y, p.z),
+                    ]),
+                    new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.5 })
+                )
+            );
+        }
+        group.add(drawn);
+        return () => {
+            group.remove(drawn);
+            disposeTree(drawn);
+        };
+    }, [pinScene, constrained, fn, box]);
+
+    // una esfera sobre la superficie por cada punto crítico
+    useEffect(() => {
+        if (!pinScene || extrema.length === 0) return;
+        const { group } = pinScene;
+        const drawn = new THREE.Group();
+        const dotGeom = new THREE.SphereGeometry(0.015 * Math.max(box.xMax - box.xMin, box.yMax - box.yMin), 16, 16);
+        const materials = new Map<CriticalPoint["type"], THREE.MeshBasicMaterial>();
+        for (const p of extrema) {
+            let material = materials.get(p.type);
+            if (!material) {
+                material = new THREE.MeshBasicMaterial({ color: CRITICAL_COLORS[p.type] });
+                materials.set(p.type, material);
+            }
+            const dot = new THREE.Mesh(dotGeom, material);
+            dot.position.set(p.x, p.y, p.z);
+            drawn.add(dot);
+        }
+        group.add(drawn);
+        return () => {
+            group.remove(drawn);
+            dotGeom.dispose();
+            materials.forEach((m) => m.dispose());
+        };
+    }, [pinScene, extrema, box]);
+
+    // clic en la lista: la cámara se acerca al punto y lo mira; "vista general" vuelve al encuadre inicial
+    const focusOn = (p: { x: number; y: number; z: number }) => {
+        if (!pinScene) return;
+        const { camera } = pinScene;
+        const distance = 0.5 * Math.max(box.xMax - box.xMin, box.yMax - box.yMin);
+        camera.position.set(p.x, p.y - distance, p.z + 0.6 * distance);
+        camera.lookAt(p.x, p.y, p.z);
+        setFocused(true);
+    };
+    const resetView = () => {
+        if (!pinScene) return;
+        const { camera, home } = pinScene;
+        camera.position.copy(home.position);
+        camera.lookAt(home.target);
+        setFocused(false);
+    };
+
+    // —— modo paramétrico: r, r_u, r_v, normal y dS en el punto (u, v) bajo el cursor
+    const frame = useMemo(
+        () => (surface && paramHover ? tangentFrame(surface, paramHover.u, paramHover.v, 0) : null),
+        [surface, paramHover]
+    );
+
+    // nombres de los parámetros: (u, v) o, en otras coordenadas, (r, θ), (θ, z), (θ, φ)
+    const [uName, vName] = surface?.labels ?? ["u", "v"];
+    const surfaceTitle =
+        parametric && "system" in parametric
+            ? { polar: "polares", cylindrical: "cilíndricas", spherical: "esféricas" }[parametric.system]
+            : null;
+
+    const parametricPanel = parametric && (
+        <div style={PANEL_STYLE}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}>Inspector · {surfaceTitle ? `superficie en ${surfaceTitle}` : "superficie paramétrica"}</div>
+            {inputErrors.map((msg) => (
+                <div key={msg} style={{ color: "#c00", marginBottom: 4 }}>
+                    {msg}
+                </div>
+            ))}
+            <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <tbody>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>Parámetros ({uName},{vName})</td>
+                        <td style={{ padding: "2px 4px" }}>
+                            {paramHover ? `(${paramHover.u.toFixed(4)}, ${paramHover.v.toFixed(4)})` : "—"}
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>r({uName},{vName})</td>
+                        <td style={{ padding: "2px 4px" }}>{frame ? formatVector(frame.r) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px", color: "#d33" }}>r_{uName}</td>
+                        <td style={{ padding: "2px 4px" }}>{frame ? formatVector(frame.ru) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px", color: "#2a2" }}>r_{vName}</td>
+                        <td style={{ padding: "2px 4px" }}>{frame ? formatVector(frame.rv) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px", color: "#36c" }}>Normal unitaria</td>
+                        <td style={{ padding: "2px 4px" }}>{frame ? formatVector(frame.normal) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>
+                            dS = |r_{uName} × r_{vName}|
+                        </td>
+                        <td style={{ padding: "2px 4px" }}>
+                            {frame ? (Number.isFinite(frame.dS) ? `${frame.dS.toFixed(6)} d${uName} d${vName}` : "N/D") : "—"}
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>Dominio ({uName},{vName})</td>
+                        <td style={{ padding: "2px 4px" }}>
+                            [{parametric.domain.uMin.toFixed(3)}, {parametric.domain.uMax.toFixed(3)}] × [
+                            {parametric.domain.vMin.toFixed(3)}, {parametric.domain.vMax.toFixed(3)}]
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>Área (malla)</td>
+                        <td style={{ padding: "2px 4px" }}>{Number.isFinite(surfaceArea) ? surfaceArea.toFixed(6) : "N/D"}</td>
+                    </tr>
+                </tbody>
+            </table>
+            <div style={{ marginTop: 6, opacity: 0.7 }}>
+                *r_{uName}, r_{vName} {surface?.ru ? "simbólicas" : "por diferencias finitas"}. Las curvas {uName} = cte
+                y {vName} = cte siguen al cursor; flechas: r_{uName} rojo, r_{vName} verde, normal azul.
+            </div>
+        </div>
+    );
+
+    // —— modo implícito: F, ∇F y normal en el punto bajo el cursor
+    const implicitInfo = useMemo(() => {
+        if (!implicitFn || !pointHover) return null;
+        const [x, y, z] = pointHover;
+        const gradient = implicitGradient(implicitFn, x, y, z);
+        const norm = Math.hypot(...gradient);
+        const normal: Vec3 = norm > 0 ? [gradient[0] / norm, gradient[1] / norm, gradient[2] / norm] : [NaN, NaN, NaN];
+        return { value: implicitFn.fn(x, y, z), gradient, norm, normal };
+    }, [implicitFn, pointHover]);
+
+    const implicitPanel = implicit && (
+        <div style={PANEL_STYLE}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}>Inspector · superficie implícita</div>
+            {inputErrors.map((msg) => (
+                <div key={msg} style={{ color: "#c00", marginBottom: 4 }}>
+                    {msg}
+                </div>
+            ))}
+            <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <tbody>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>Punto (x,y,z)</td>
+                        <td style={{ padding: "2px 4px" }}>{pointHover ? formatVector(pointHover) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>F(x,y,z)</td>
+                        <td style={{ padding: "2px 4px" }}>
+                            {implicitInfo ? implicitInfo.value.toFixed(6) : "—"}{" "}
+                            <span style={{ opacity: 0.6 }}>(c = {implicit.level})</span>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>∇F</td>
+                        <td style={{ padding: "2px 4px" }}>{implicitInfo ? formatVector(implicitInfo.gradient) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>|∇F|</td>
+                        <td style={{ padding: "2px 4px" }}>{implicitInfo ? implicitInfo.norm.toFixed(6) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px", color: "#36c" }}>Normal unitaria</td>
+                        <td style={{ padding: "2px 4px" }}>{implicitInfo ? formatVector(implicitInfo.normal) : "—"}</td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>Caja</td>
+                        <td style={{ padding: "2px 4px" }}>
+                            [-{range}, {range}]² × [{implicit.zMin.toFixed(3)}, {implicit.zMax.toFixed(3)}]
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style={{ padding: "2px 4px" }}>Área (malla)</td>
+                        <td style={{ padding: "2px 4px" }}>{Number.isFinite(surfaceArea) ? surfaceArea.toFixed(6) : "N/D"}</td>
+                    </tr>
+                </tbody>
+            </table>
+            <div style={{ marginTop: 6, opacity: 0.7 }}>
+                *Marching cubes en {implicit.cells}³ celdas; normales desde ∇F{" "}
+                {implicitFn?.gradient ? "simbólico" : "por diferencias finitas"}.
+            </div>
+        </div>
+    );
+
+    // —— filas de la derivada direccional: entrada de u, D_u f y las direcciones notables
+    const directionRows = ({ fx, fy }: { fx: number; fy: number }) => {
+        const gradNorm = Math.hypot(fx, fy);
+        const du = unitDirection ? fx * unitDirection[0] + fy * unitDirection[1] : NaN;
+        const ascent = (Math.atan2(fy, fx) * 180) / Math.PI;
+        const wrap = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+        const notable = (label: string, color: string, degrees: number, value: number) => (
+            <tr key={`${label} ${degrees}`}>
+                <td style={{ padding: "2px 4px", color }}>{label}</td>
+                <td style={{ padding: "2px 4px" }}>
+                    θ = {wrap(degrees).toFixed(1)}° (D = {value.toFixed(4)}){" "}
+                    <button
+                        type="button"
+                        className="btn btn-link btn-sm p-0 align-baseline"
+                        onClick={() => pointTo(wrap(degrees))}
+                    >
+                        usar
+                    </button>
+                </td>
+            </tr>
+        );
+        return (
+            <>
+                <tr>
+                    <td style={{ padding: "2px 4px", color: "#7b2cbf" }}>Dirección u</td>
+                    <td style={{ padding: "2px 4px" }}>
+                        <div className="input-group input-group-sm">
+                            <select
+                                className="form-select form-select-sm"
+                                style={{ maxWidth: 90 }}
+                                value={dirMode}
+                                onChange={(e) => setDirMode(e.target.value as "angle" | "vector")}
+                            >
+                                <option value="angle">Ángulo</option>
+                                <option value="vector">Vector</option>
+                            </select>
+                            {dirMode === "angle" ? (
+                                <>
+                                    <input
+                                        type="number"
+                                        className="form-control"
+                                        step="1"
+                                        value={dirAngle}
+                                        onChange={(e) => setDirAngle(Number(e.target.value))}
+                                    />
+                                    <span className="input-group-text">°</span>
+                                </>
+                            ) : (
+                                (["x", "y"] as const).map((component) => (
+                                    <input
+                                        key={component}
+                                        type="text"
+                                        className={`form-control font-monospace${unitDirection ? "" : " is-invalid"}`}
+                                        value={dirVector[component]}
+                                        onChange={(e) => setDirVector({ ...dirVector, [component]: e.target.value })}
+                                        title={`componente ${component} (se normaliza)`}
+                                    />
+                                ))
+                            )}
+                        </div>
+                    </td>
+                </tr>
+                <tr>
+                    <td style={{ padding: "2px 4px" }}>D_u f = ∇f·u</td>
+                    <td style={{ padding: "2px 4px" }}>
+                        {unitDirection ? (
+                            <>
+                                {du.toFixed(6)}{" "}
+                                <span style={{ opacity: 0.6 }}>
+                                    u = ({unitDirection[0].toFixed(4)}, {unitDirection[1].toFixed(4)})
+                                </span>
+                            </>
+                        ) : (
+                            "u no puede ser el vector nulo"
+                        )}
+                    </td>
+                </tr>
+                {gradNorm > 1e-12 ? (
+                    <>
+                        {notable("Máximo ascenso", "#2b9348", ascent, gradNorm)}
+                        {notable("Máximo descenso", "#1d4ed8", ascent + 180, -gradNorm)}
+                        {notable("D_u f = 0", "#888", ascent + 90, 0)}
+                        {notable("D_u f = 0", "#888", ascent - 90, 0)}
+                    </>
+                ) : (
+                    <tr>
+                        <td colSpan={2} style={{ padding: "2px 4px", opacity: 0.7 }}>
+                            ∇f = 0: D_u f = 0 en todas las direcciones.
+                        </td>
+                    </tr>
+                )}
+            </>
+        );
+    };
+
+    // —— tabla de candidatos a extremo absoluto; los ganadores (pueden empatar) van en negrita
+    const absoluteTable = ({ candidates }: AbsoluteExtrema) => {
+        if (candidates.length === 0) {
+            return <div style={{ marginTop: 6, opacity: 0.7 }}>Sin candidatos: f no está definida en la región.</div>;
         }
-        setExtrema(found);
-    }, [scanKey, fn, range, resolution, domFun]);
+        const zMax = candidates[0].z;
+        const zMin = candidates[candidates.length - 1].z;
+        const ties = (z: number, best: number) => Math.abs(z - best) <= 1e-9 * (1 + Math.abs(best));
+        return (
+            <div style={{ marginTop: 6, maxHeight: 180, overflow: "auto" }}>
+                <div style={{ fontWeight: 700, marginBottom: 2 }}>
+                    Extremos absolutos en R: máx {zMax.toFixed(6)}, mín {zMin.toFixed(6)}
+                </div>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                    <thead>
+                        <tr style={{ opacity: 0.7 }}>
+                            <td style={{ padding: "2px 4px" }}>Candidato</td>
+                            <td style={{ padding: "2px 4px" }}>(x,y)</td>
+                            <td style={{ padding: "2px 4px" }}>f(x,y)</td>
+                            <td style={{ padding: "2px 4px" }} />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {candidates.map((p, i) => {
+                            const winner = ties(p.z, zMax) ? "máx abs" : ties(p.z, zMin) ? "mín abs" : null;
+                            return (
+                                <tr
+                                    key={i}
+                                    onClick={() => focusOn(p)}
+                                    title="Acercar la cámara a este punto"
+                                    style={{
+                                        cursor: "pointer",
+                                        fontWeight: winner ? 700 : undefined,
+                                        color: winner === "máx abs" ? "#d33" : winner === "mín abs" ? "#36c" : undefined,
+                                    }}
+                                >
+                                    <td style={{ padding: "2px 4px" }}>{CANDIDATE_LABELS[p.kind]}</td>
+                                    <td style={{ padding: "2px 4px" }}>
+                                        ({p.x.toFixed(4)}, {p.y.toFixed(4)})
+                                    </td>
+                                    <td style={{ padding: "2px 4px" }}>{p.z.toFixed(6)}</td>
+                                    <td style={{ padding: "2px 4px" }}>{winner}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
 
     // —— panel
     const panel = (() => {
+        if (parametricPanel) return parametricPanel;
+        if (implicitPanel) return implicitPanel;
         if (!globalStats) return null;
 
-        const domStr = `[-${range}, ${range}] × [-${range}, ${range}]`;
+        // avance medio de los cálculos en curso en el worker
+        const pending = Object.values(progress);
+        const percent = pending.length > 0 ? (100 * pending.reduce((a, b) => a + b, 0)) / pending.length : null;
+
+        const regionStr = describeRegion(region);
         const rngStr =
             Number.isFinite(globalStats.zMin) && Number.isFinite(globalStats.zMax)
                 ? `[${globalStats.zMin.toFixed(4)}, ${globalStats.zMax.toFixed(4)}]`
                 : "N/D";
 
         return (
-            <div
-                style={{
-                    position: "absolute",
-                    top: 8,
-                    left: 8,
-                    padding: "10px 12px",
-                    background: "rgba(255,255,255,0.95)",
-                    border: "1px solid #ddd",
-                    borderRadius: 8,
-                    fontFamily: "Arial, sans-serif",
-                    fontSize: 12,
-                    boxShadow: "0 4px 12px rgba(0,0,0,0.08)",
-                    maxWidth: 440,
-                }}
-            >
+            <div style={PANEL_STYLE}>
                 <div style={{ fontWeight: 700, marginBottom: 6 }}>Inspector</div>
+                {percent !== null && (
+                    <div style={{ marginBottom: 6 }}>
+                        <div style={{ opacity: 0.7 }}>Analizando malla… {Math.round(percent)}%</div>
+                        <div className="progress" style={{ height: 4 }}>
+                            <div className="progress-bar" style={{ width: `${percent}%` }} />
+                        </div>
+                    </div>
+                )}
+                {inputErrors.map((msg) => (
+                    <div key={msg} style={{ color: "#c00", marginBottom: 4 }}>
+                        {msg}
+                    </div>
+                ))}
                 <table style={{ borderCollapse: "collapse", width: "100%" }}>
                     <tbody>
                         <tr>
@@ -551,13 +1532,21 @@ export default function SurfaceInspector({
                             <td style={{ padding: "2px 4px" }}>{hover ? hover.z.toFixed(6) : "—"}</td>
                         </tr>
                         <tr>
-                            <td style={{ padding: "2px 4px" }}>Dominio (caja)</td>
-                            <td style={{ padding: "2px 4px" }}>{domStr}</td>
+                            <td style={{ padding: "2px 4px" }}>Región</td>
+                            <td style={{ padding: "2px 4px" }}>{regionStr}</td>
                         </tr>
                         <tr>
                             <td style={{ padding: "2px 4px" }}>Rango estimado z</td>
                             <td style={{ padding: "2px 4px" }}>{rngStr}</td>
                         </tr>
+                        {deriv && (
+                            <tr>
+                                <td style={{ padding: "2px 4px" }}>∇f (simbólico)</td>
+                                <td style={{ padding: "2px 4px", fontFamily: "monospace", wordBreak: "break-word" }}>
+                                    ({deriv.text.fx}, {deriv.text.fy})
+                                </td>
+                            </tr>
+                        )}
                         {hover && (
                             <>
                                 <tr>
@@ -599,6 +1588,90 @@ export default function SurfaceInspector({
                                         </td>
                                     </tr>
                                 )}
+                                {compiledLayers.map(({ id, expression, compiled }) => {
+                                    const g = compiled.fn(hover.x, hover.y, hover.t);
+                                    const color = layers.find((layer) => layer.id === id)?.color;
+                                    return (
+                                        <tr key={id}>
+                                            <td style={{ padding: "2px 4px", color, wordBreak: "break-word" }}>
+                                                Capa {expression}
+                                            </td>
+                                            <td style={{ padding: "2px 4px" }}>
+                                                {Number.isFinite(g) ? g.toFixed(6) : "N/D"}{" "}
+                                                <span style={{ opacity: 0.6 }}>
+                                                    (f − g = {Number.isFinite(g) ? (hover.z - g).toExponential(3) : "N/D"})
+                                                </span>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </>
+                        )}
+                        {pinned && (
+                            <>
+                                <tr>
+                                    <td style={{ padding: "2px 4px" }}>Punto fijado (a,b)</td>
+                                    <td style={{ padding: "2px 4px" }}>
+                                        ({pinned.x.toFixed(4)}, {pinned.y.toFixed(4)}){" "}
+                                        <button
+                                            type="button"
+                                            className="btn btn-link btn-sm p-0 align-baseline"
+                                            onClick={() => setPinned(null)}
+                                        >
+                                            soltar
+                                        </button>
+                                    </td>
+                                </tr>
+                                {tangent ? (
+                                    <>
+                                        <tr>
+                                            <td style={{ padding: "2px 4px", color: "#2a9d8f" }}>Plano tangente</td>
+                                            <td style={{ padding: "2px 4px", fontFamily: "monospace" }}>
+                                                z = {tangent.z0.toFixed(4)} {signed(tangent.fx)}(x {signed(-tangent.a)}){" "}
+                                                {signed(tangent.fy)}(y {signed(-tangent.b)})
+                                            </td>
+                                        </tr>
+                                        <tr>
+                                            <td style={{ padding: "2px 4px", color: "#d62828" }}>Recta normal</td>
+                                            <td style={{ padding: "2px 4px", fontFamily: "monospace" }}>
+                                                {formatVector([tangent.a, tangent.b, tangent.z0])} + s·
+                                                {formatVector([-tangent.fx, -tangent.fy, 1])}
+                                            </td>
+                                        </tr>
+                                        {hover && (
+                                            <tr>
+                                                <td style={{ padding: "2px 4px" }}>Aprox. lineal L(x,y)</td>
+                                                <td style={{ padding: "2px 4px" }}>
+                                                    {tangent.at(hover.x, hover.y).toFixed(6)}{" "}
+                                                    <span style={{ opacity: 0.6 }}>
+                                                        (f − L = {(fn(hover.x, hover.y, 0) - tangent.at(hover.x, hover.y)).toExponential(3)})
+                                                    </span>
+                                                </td>
+                                            </tr>
+                                        )}
+                                        {directionRows(tangent)}
+                                        <tr>
+                                            <td style={{ padding: "2px 4px" }}>Parche ±{patchHalf.toFixed(2)}</td>
+                                            <td style={{ padding: "2px 4px" }}>
+                                                <input
+                                                    type="range"
+                                                    min="0.02"
+                                                    max="1"
+                                                    step="0.02"
+                                                    className="form-range"
+                                                    value={patchScale}
+                                                    onChange={(e) => setPatchScale(Number(e.target.value))}
+                                                />
+                                            </td>
+                                        </tr>
+                                    </>
+                                ) : (
+                                    <tr>
+                                        <td colSpan={2} style={{ padding: "2px 4px", color: "#c00" }}>
+                                            f o ∇f no están definidos en el punto fijado.
+                                        </td>
+                                    </tr>
+                                )}
                             </>
                         )}
                         <tr>
@@ -620,7 +1693,7 @@ export default function SurfaceInspector({
                     </tbody>
                 </table>
 
-                <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 8 }}>
                     <button
                         onClick={() => setScanKey((k) => k + 1)}
                         style={{
@@ -630,39 +1703,103 @@ export default function SurfaceInspector({
                             background: "#f7f7f7",
                             cursor: "pointer",
                         }}
-                        title="Escanear la malla y marcar máximos, mínimos y puntos silla"
+                        title="Escanear la malla y marcar máximos, mínimos, puntos silla y degenerados"
                     >
                         Buscar extremos
                     </button>
                     <div style={{ alignSelf: "center", opacity: 0.7 }}>
                         {extrema.length > 0 ? `${extrema.length} puntos` : "—"}
                     </div>
+                    <button
+                        onClick={() => setAbsoluteMode((on) => !on)}
+                        style={{
+                            padding: "6px 10px",
+                            borderRadius: 6,
+                            border: "1px solid #ccc",
+                            background: absoluteMode ? "#e7f1ff" : "#f7f7f7",
+                            cursor: "pointer",
+                        }}
+                        title="Máximo y mínimo absolutos de f en la región cerrada, incluyendo el borde y las esquinas"
+                    >
+                        Extremos absolutos
+                    </button>
+                    {focused && (
+                        <button
+                            onClick={resetView}
+                            style={{
+                                padding: "6px 10px",
+                                borderRadius: 6,
+                                border: "1px solid #ccc",
+                                background: "#f7f7f7",
+                                cursor: "pointer",
+                            }}
+                            title="Volver al encuadre inicial de la cámara"
+                        >
+                            Vista general
+                        </button>
+                    )}
                 </div>
+                {absolute && absoluteTable(absolute)}
 
                 <div style={{ marginTop: 6, opacity: 0.7 }}>
-                    *Cálculos numéricos: muestreo en grilla y diferencias finitas (h≈{(range / 1000).toExponential(1)}).
-                    Las líneas de corte siguen al cursor; contornos en z=0; dominio opcional h(x,y)≤0.
+                    *Cálculos numéricos: muestreo en grilla;{" "}
+                    {deriv
+                        ? "derivadas simbólicas exactas."
+                        : `diferencias finitas (h≈${(range / 1000).toExponential(1)}).`}
+                    Las líneas de corte siguen al cursor; un clic fija el plano tangente y la dirección u (arrastra la
+                    punta de la flecha violeta; en naranja, el corte a lo largo de u); contornos en z=0; dominio
+                    opcional h(x,y)≤0. Los puntos críticos se refinan con Newton sobre ∇f=0 (clic en la lista para
+                    acercar la cámara); en modo absoluto se suman los extremos sobre el borde y las esquinas. La curva
+                    g=0 se dibuja en z=0 y sobre la superficie, con sus extremos refinados por Newton y clasificados por
+                    el hessiano orlado.
                 </div>
             </div>
         );
     })();
 
-    // —— dibujar marcadores de extremos como overlay DOM (tooltip simple)
-    const markers = extrema.slice(0, 200).map((p, i) => {
-        // solo UI textual; la marca visual 3D ya se ve como cambio en la superficie/contornos.
-        const color = p.type === "max" ? "#d33" : p.type === "min" ? "#36c" : "#e6b800";
-        return (
-            <div key={i} style={{ color, fontSize: 12, marginTop: 2 }}>
-                {p.type}: ({p.x.toFixed(2)},{p.y.toFixed(2)}) z={p.z.toFixed(2)}
-            </div>
-        );
-    });
+    // —— lista de puntos críticos (cada uno tiene su esfera en la escena)
+    const markers = extrema.map((p, i) => (
+        <button
+            key={i}
+            type="button"
+            className="btn btn-link btn-sm d-block p-0 text-start text-decoration-none"
+            style={{ color: CRITICAL_COLORS[p.type], fontSize: 12, marginTop: 2 }}
+            onClick={() => focusOn(p)}
+            title="Acercar la cámara a este punto"
+        >
+            {p.type}: ({p.x.toFixed(3)},{p.y.toFixed(3)}) z={p.z.toFixed(3)}
+        </button>
+    ));
+
+    const constrainedRows =
+        constrained &&
+        (constrained.curve.length === 0 ? (
+            <div style={{ fontSize: 12, opacity: 0.7 }}>g = 0 no pasa por la región.</div>
+        ) : constrained.points.length === 0 ? (
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Sin extremos sobre la curva.</div>
+        ) : (
+            constrained.points.map((p, i) => {
+                const color = p.type === "max" ? "#d33" : p.type === "min" ? "#36c" : "#e6b800";
+                return (
+                    <button
+                        key={i}
+                        type="button"
+                        className="btn btn-link btn-sm d-block p-0 text-start text-decoration-none"
+                        style={{ color, fontSize: 12, marginTop: 2 }}
+                        onClick={() => focusOn(p)}
+                        title="Acercar la cámara a este punto"
+                    >
+                        {p.type}: ({p.x.toFixed(3)},{p.y.toFixed(3)}) λ={p.lambda.toFixed(3)} f={p.z.toFixed(3)}
+                    </button>
+                );
+            })
+        ));
 
     return (
         <div ref={mountRef} style={{ width: "100%", height: "100%", position: "relative" }}>
             {panel}
             {/* Lista breve de extremos encontrados */}
-            {extrema.length > 0 && (
+            {(extrema.length > 0 || constrained) && (
                 <div
                     style={{
                         position: "absolute",
@@ -678,8 +1815,20 @@ export default function SurfaceInspector({
                         fontFamily: "Arial, sans-serif",
                     }}
                 >
-                    <div style={{ fontWeight: 700, marginBottom: 4 }}>Puntos críticos</div>
-                    {markers}
+                    {extrema.length > 0 && (
+                        <>
+                            <div style={{ fontWeight: 700, marginBottom: 4 }}>Puntos críticos</div>
+                            {markers}
+                        </>
+                    )}
+                    {constrained && (
+                        <>
+                            <div style={{ fontWeight: 700, margin: extrema.length > 0 ? "6px 0 4px" : "0 0 4px" }}>
+                                Extremos condicionados (g = 0)
+                            </div>
+                            {constrainedRows}
+                        </>
+                    )}
                 </div>
             )}
         </div>
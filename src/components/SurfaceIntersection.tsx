@@ -1,7 +1,12 @@
 import React, { useMemo, useState } from "react";
 import SurfacePlot from "./SurfacePlot";
-import { create, all } from "mathjs";
-const math = create(all, {});
+import {
+  EvaluationBudgetError,
+  evaluationBudget,
+  tryCompileExpression2,
+  type Definitions,
+  type Parameters,
+} from "../utils/compileExpression";
 
 /**
  * SurfaceIntersection
@@ -21,53 +26,66 @@ class Boundary extends React.Component<{children: React.ReactNode}, {hasError: b
   render() { return this.state.hasError ? <div className="text-red-600 text-sm">Falló el render: {this.state.msg}</div> : (this.props.children as any); }
 }
 
-export default function SurfaceIntersection() {
+type Props = {
+  expr1: string;
+  expr2: string;
+  onExpr1Change: (value: string) => void;
+  onExpr2Change: (value: string) => void;
+  /** values for free parameters (a, b, k...) used in either expression */
+  parameters?: Parameters;
+  /** shared user definitions (variables and functions) */
+  definitions?: Definitions;
+  /** domain h(x,y) <= 0: both surfaces and the curve are clipped outside it */
+  domainExpression?: string;
+};
+
+export default function SurfaceIntersection({
+  expr1,
+  expr2,
+  onExpr1Change,
+  onExpr2Change,
+  parameters,
+  definitions,
+  domainExpression,
+}: Props) {
   // ----- UI state -----
-  const [expr1, setExpr1] = useState("sin(x)*cos(y)");
-  const [expr2, setExpr2] = useState("cos(x)*sin(y)");
   const [range, setRange] = useState(4); // domain: x,y in [-range, range]
   const [resolution, setResolution] = useState(80); // grid steps per axis (N)
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
   // Optional: epsilon for zero tests in marching squares edge checks
   const EPS = 1e-8;
 
-  // ----- Compile expressions (memoized) -----
-  const compiled = useMemo(() => {
-    try {
-      const f1 = math.compile(expr1);
-      const f2 = math.compile(expr2);
-      setErrorMsg(null);
-      return { f1, f2 } as const;
-    } catch (err: any) {
-      setErrorMsg(err?.message ?? "Error al compilar expresiones");
-      return null;
-    }
-  }, [expr1, expr2]);
+  // ----- Compile expressions (memoized) with the shared expression engine -----
+  const result1 = useMemo(
+    () => tryCompileExpression2(expr1, parameters, definitions),
+    [expr1, parameters, definitions]
+  );
+  const result2 = useMemo(
+    () => tryCompileExpression2(expr2, parameters, definitions),
+    [expr2, parameters, definitions]
+  );
+  const domain = useMemo(
+    () => tryCompileExpression2(domainExpression, parameters, definitions),
+    [domainExpression, parameters, definitions]
+  );
+  const compiled = useMemo(
+    () => (result1.fn && result2.fn ? ({ f1: result1.fn, f2: result2.fn } as const) : null),
+    [result1, result2]
+  );
 
   // ----- Helpers -----
-  const evalReal = (fn: any, x: number, y: number): number => {
-    try {
-      let z = fn.evaluate({ x, y });
-      if (math.typeOf(z) === "Complex") z = (z as any).re;
-      const zn = Number(z);
-      return Number.isFinite(zn) ? zn : NaN;
-    } catch {
-      return NaN;
-    }
-  };
-
   const signWithTol = (v: number) => (Math.abs(v) <= EPS ? 0 : v > 0 ? 1 : -1);
 
   // ----- Generate grid and intersection points (memoized) -----
-  const { surf1Points, surf2Points, intersectionPts } = useMemo(() => {
+  const { surf1Points, surf2Points, intersectionPts, budgetError } = useMemo(() => {
     const surf1: Array<{ x: number; y: number; z: number }> = [];
     const surf2: Array<{ x: number; y: number; z: number }> = [];
     const inter: Array<{ x: number; y: number; z: number }> = [];
 
-    if (!compiled) return { surf1Points: surf1, surf2Points: surf2, intersectionPts: inter };
+    if (!compiled) return { surf1Points: surf1, surf2Points: surf2, intersectionPts: inter, budgetError: null };
 
     const { f1, f2 } = compiled;
+    const h = domain.fn;
 
     // Clamp resolution for performance/safety
     const N = Math.max(2, Math.min(200, Math.floor(resolution)));
@@ -82,19 +100,29 @@ export default function SurfaceIntersection() {
     const z1: number[][] = Array.from({ length: N + 1 }, () => new Array(N + 1).fill(NaN));
     const z2: number[][] = Array.from({ length: N + 1 }, () => new Array(N + 1).fill(NaN));
 
-    for (let j = 0; j <= N; j++) {
-      for (let i = 0; i <= N; i++) {
-        const x = xs[i];
-        const y = ys[j];
-        const v1 = evalReal(f1, x, y);
-        const v2 = evalReal(f2, x, y);
-        z1[j][i] = v1;
-        z2[j][i] = v2;
-        g[j][i] = v1 - v2;
-        // surfaces point clouds (dense grid)
-        if (Number.isFinite(v1)) surf1.push({ x, y, z: v1 });
-        if (Number.isFinite(v2)) surf2.push({ x, y, z: v2 });
+    // Abort the whole pass if the expressions are too slow to sample; nothing partial is drawn
+    const tick = evaluationBudget();
+    try {
+      for (let j = 0; j <= N; j++) {
+        for (let i = 0; i <= N; i++) {
+          tick();
+          const x = xs[i];
+          const y = ys[j];
+          // outside the domain both values are NaN, so no points and no sign changes there
+          const inDomain = !h || h(x, y) <= 0;
+          const v1 = inDomain ? f1(x, y) : NaN;
+          const v2 = inDomain ? f2(x, y) : NaN;
+          z1[j][i] = v1;
+          z2[j][i] = v2;
+          g[j][i] = v1 - v2;
+          // surfaces point clouds (dense grid)
+          if (Number.isFinite(v1)) surf1.push({ x, y, z: v1 });
+          if (Number.isFinite(v2)) surf2.push({ x, y, z: v2 });
+        }
       }
+    } catch (error) {
+      if (!(error instanceof EvaluationBudgetError)) throw error;
+      return { surf1Points: [], surf2Points: [], intersectionPts: [], budgetError: error.message };
     }
 
     // Marching-squares style: detect sign changes across edges and interpolate
@@ -110,7 +138,8 @@ export default function SurfaceIntersection() {
       const x = xA + t * (xB - xA);
       const y = yA + t * (yB - yA);
       // z on curve (evaluate one function for better accuracy)
-      const z = evalReal(f1, x, y);
+      if (h && !(h(x, y) <= 0)) return;
+      const z = f1(x, y);
       if (Number.isFinite(z)) inter.push({ x, y, z });
     };
 
@@ -136,8 +165,16 @@ export default function SurfaceIntersection() {
       }
     }
 
-    return { surf1Points: surf1, surf2Points: surf2, intersectionPts: inter };
-  }, [compiled, range, resolution]);
+    return { surf1Points: surf1, surf2Points: surf2, intersectionPts: inter, budgetError: null };
+  }, [compiled, domain, range, resolution]);
+
+  const errorMsg = result1.error
+    ? `z₁: ${result1.error.message}`
+    : result2.error
+      ? `z₂: ${result2.error.message}`
+      : domain.error
+        ? `h: ${domain.error.message}`
+        : budgetError;
 
   // Mostrar/ocultar coordenadas del corte
   const [showCoords, setShowCoords] = useState(false);
@@ -154,7 +191,7 @@ export default function SurfaceIntersection() {
           Función 1: z₁ =
           <input
             value={expr1}
-            onChange={(e) => setExpr1(e.target.value)}
+            onChange={(e) => onExpr1Change(e.target.value)}
             className="border p-1 rounded ml-2 w-full max-w-xl"
             placeholder="Ej: sin(x)*cos(y)"
           />
@@ -164,7 +201,7 @@ export default function SurfaceIntersection() {
           Función 2: z₂ =
           <input
             value={expr2}
-            onChange={(e) => setExpr2(e.target.value)}
+            onChange={(e) => onExpr2Change(e.target.value)}
             className="border p-1 rounded ml-2 w-full max-w-xl"
             placeholder="Ej: cos(x)*sin(y)"
           />
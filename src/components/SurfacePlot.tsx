@@ -1,6 +1,7 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import * as THREE from "three";
-import { compileExpression3 } from "../utils/compileExpression";
+import { compileGrid3, EvaluationBudgetError, squareGrid, type Grid, type GridFn3 } from "../utils/compileExpression";
+import ViewerError from "./ViewerError";
 
 type Point3 = { x: number; y: number; z: number };
 type DataSet = {
@@ -29,7 +30,8 @@ type Props =
 
 export default function Surface(props: Props) {
   const mountRef = useRef<HTMLDivElement | null>(null);
-  const fnRef = useRef<((x: number, y: number, t: number) => number) | null>(null);
+  const gridFnRef = useRef<GridFn3 | null>(null);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
   const RANGE_FALLBACK = 4;
   const RES_FALLBACK = 80;
   const isDataMode = Array.isArray((props as any).dataSets);
@@ -39,11 +41,11 @@ export default function Surface(props: Props) {
 
   useEffect(() => {
     if (isDataMode) {
-      fnRef.current = null;
+      gridFnRef.current = null;
       return;
     }
     const expression = propExpression ?? "0";
-    fnRef.current = compileExpression3(expression);
+    gridFnRef.current = compileGrid3(expression);
   }, [propExpression, (props as any).dataSets, isDataMode]);
 
   useEffect(() => {
@@ -87,68 +89,109 @@ export default function Surface(props: Props) {
 
     // geometry creation modes: expression-driven mesh OR dataSets-driven point clouds
     let mesh: THREE.Mesh | THREE.Points | THREE.Group | null = null;
+    let stalled = false; // evaluation exceeded the time budget
+    setBudgetError(null);
+
+    // expression mesh buffers: allocated once per grid (reset when it changes) and rewritten in place every frame
+    let buffers: {
+      geometry: THREE.BufferGeometry;
+      grid: Grid;
+      zValues: Float64Array;
+      validity: Uint8Array;
+      indexed: boolean;
+    } | null = null;
 
     const makeExpressionGeometry = (t: number) => {
-    const cols = propResolution ?? RES_FALLBACK;
-    const rows = propResolution ?? RES_FALLBACK;
+      const cols = propResolution ?? RES_FALLBACK;
+      const rows = propResolution ?? RES_FALLBACK;
       const usedRange2 = propRange ?? RANGE_FALLBACK;
-      const widthSpan = usedRange2 * 2;
-      const heightSpan = usedRange2 * 2;
-      const geometry = new THREE.BufferGeometry();
-
-      const positions: number[] = [];
-      const normals: number[] = [];
-      const colors: number[] = [];
-      const indices: number[] = [];
-      const validity: boolean[] = [];
-
-      for (let j = 0; j <= rows; j++) {
-        for (let i = 0; i <= cols; i++) {
-          const u = i / cols;
-          const v = j / rows;
-          const x = (u - 0.5) * widthSpan;
-          const y = (v - 0.5) * heightSpan;
-
-          const evaluator = fnRef.current;
-          const rawZ = evaluator ? evaluator(x, y, t) : NaN;
-          const isValid = Number.isFinite(rawZ);
-          const z = isValid ? Number(rawZ) : 0;
-          validity.push(isValid);
-
-          positions.push(x, y, z);
-          normals.push(0, 0, 1);
-
-          const c = new THREE.Color();
-          if (isValid) {
-            const normalized = THREE.MathUtils.clamp((z + usedRange2) / (2 * usedRange2), 0, 1);
-            c.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
-          } else {
-            c.setRGB(0.75, 0.75, 0.75);
+
+      if (!buffers) {
+        const grid = squareGrid(usedRange2, cols);
+        const count = grid.nx * grid.ny;
+        const geometry = new THREE.BufferGeometry();
+        const positions = new Float32Array(count * 3);
+        // x and y never change for a given grid, only z does
+        for (let j = 0; j <= rows; j++) {
+          for (let i = 0; i <= cols; i++) {
+            const k = i + (cols + 1) * j;
+            positions[3 * k] = grid.x0 + i * grid.dx;
+            positions[3 * k + 1] = grid.y0 + j * grid.dy;
           }
-          colors.push(c.r, c.g, c.b);
         }
+        geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute("color", new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+        buffers = { geometry, grid, zValues: new Float64Array(count), validity: new Uint8Array(count), indexed: false };
+      }
+      const { geometry, grid: surfaceGrid, zValues, validity } = buffers;
+
+      // the whole grid is evaluated at once for this t
+      const evaluator = gridFnRef.current;
+      let evaluated = false;
+      if (evaluator && !stalled) {
+        try {
+          evaluator(surfaceGrid, t, zValues);
+          evaluated = true;
+        } catch (error) {
+          if (!(error instanceof EvaluationBudgetError)) throw error;
+          // stop re-evaluating every frame until the expression changes
+          stalled = true;
+          setBudgetError(error.message);
+        }
+      }
+      if (!evaluated) zValues.fill(NaN);
+
+      const position = geometry.getAttribute("position") as THREE.BufferAttribute;
+      const color = geometry.getAttribute("color") as THREE.BufferAttribute;
+      const positions = position.array as Float32Array;
+      const colors = color.array as Float32Array;
+      const c = new THREE.Color();
+      let validityChanged = !buffers.indexed;
+
+      for (let k = 0; k < zValues.length; k++) {
+        const rawZ = zValues[k];
+        const isValid = Number.isFinite(rawZ);
+        const z = isValid ? rawZ : 0;
+        if (validity[k] !== (isValid ? 1 : 0)) validityChanged = true;
+        validity[k] = isValid ? 1 : 0;
+        positions[3 * k + 2] = z;
+
+        if (isValid) {
+          const normalized = THREE.MathUtils.clamp((z + usedRange2) / (2 * usedRange2), 0, 1);
+          c.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
+        } else {
+          c.setRGB(0.75, 0.75, 0.75);
+        }
+        colors[3 * k] = c.r;
+        colors[3 * k + 1] = c.g;
+        colors[3 * k + 2] = c.b;
       }
 
-      for (let j = 0; j < rows; j++) {
-        for (let i = 0; i < cols; i++) {
-          const a = i + (cols + 1) * j;
-          const b = i + (cols + 1) * (j + 1);
-          const c = i + 1 + (cols + 1) * (j + 1);
-          const d = i + 1 + (cols + 1) * j;
-          if (validity[a] && validity[b] && validity[d]) {
-            indices.push(a, b, d);
-          }
-          if (validity[b] && validity[c] && validity[d]) {
-            indices.push(b, c, d);
+      // the triangles only depend on which vertices are valid
+      if (validityChanged) {
+        const indices: number[] = [];
+        for (let j = 0; j < rows; j++) {
+          for (let i = 0; i < cols; i++) {
+            const a = i + (cols + 1) * j;
+            const b = i + (cols + 1) * (j + 1);
+            const c = i + 1 + (cols + 1) * (j + 1);
+            const d = i + 1 + (cols + 1) * j;
+            if (validity[a] && validity[b] && validity[d]) {
+              indices.push(a, b, d);
+            }
+            if (validity[b] && validity[c] && validity[d]) {
+              indices.push(b, c, d);
+            }
           }
         }
+        geometry.setIndex(indices);
+        buffers.indexed = true;
       }
 
-      geometry.setIndex(indices);
-      geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
-      geometry.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
-      geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+      position.needsUpdate = true;
+      color.needsUpdate = true;
       geometry.computeVertexNormals();
+      geometry.computeBoundingSphere();
       return geometry;
     };
 
@@ -275,16 +318,14 @@ export default function Surface(props: Props) {
             scene.remove(mesh);
             (mesh as any).geometry.dispose();
           }
+          buffers = null;
           mesh = new THREE.Mesh(makeExpressionGeometry(t), mat);
           scene.add(mesh);
           lastRes = usedRes;
           lastRange = usedRange2;
-        } else {
-          if (mesh && (mesh as any).geometry) {
-            const newGeo = makeExpressionGeometry(t);
-            (mesh as any).geometry.dispose();
-            (mesh as any).geometry = newGeo;
-          }
+        } else if (!stalled) {
+          // rewrites the mesh's own buffers
+          makeExpressionGeometry(t);
         }
       }
 
@@ -332,5 +373,9 @@ export default function Surface(props: Props) {
     };
   }, [propResolution, propRange, propExpression, (props as any).dataSets]);
 
-  return <div ref={mountRef} style={{ width: "100%", height: "100%" }} />;
+  return (
+    <div ref={mountRef} style={{ width: "100%", height: "100%", position: "relative" }}>
+      <ViewerError message={budgetError} />
+    </div>
+  );
 }
@@ -0,0 +1,360 @@
+// src/components/VectorField3D.tsx
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import {
+    COMPONENTS,
+    EvaluationBudgetError,
+    evaluationBudget,
+    tryCompileVectorField,
+    type Component,
+    type Definitions,
+    type Parameters,
+} from "../utils/compileExpression";
+import type { Vec3 } from "../utils/parametricMesh";
+import { scalarColor } from "../utils/surfaceGeometry";
+import {
+    divergenceAndCurl,
+    fieldAt,
+    sliceScalar,
+    type FieldDisplay,
+    type VectorFieldSource,
+} from "../utils/vectorField";
+
+/**
+ * Componente: VectorField3D
+ * Muestra un campo F = (P, Q, R)(x,y,z) (o (P, Q)(x,y) en el plano z = 0) con flechas coloreadas
+ * por módulo, en una red 3D o sobre cortes. Los cortes se pueden colorear por |F|, div F o la
+ * componente de rot F normal al corte. El panel da F, div F y rot F en el cruce de los cortes.
+ *
+ * Props:
+ *  - field: componentes del campo y si es plano
+ *  - range: la caja es [-range, range]³
+ *  - display: modo (red o cortes), densidad, escala, cortes activos y coloreo
+ */
+type Props = {
+    field: VectorFieldSource;
+    range: number;
+    display: FieldDisplay;
+    parameters?: Parameters;
+    definitions?: Definitions;
+};
+
+const PANEL_STYLE: CSSProperties = {
+    position: "absolute",
+    top: 8,
+    left: 8,
+    padding: "10px 12px",
+    background: "rgba(255,255,255,0.95)",
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    fontFamily: "Arial, sans-serif",
+    fontSize: 12,
+    boxShadow: "0 4px 12px rgba(0,0,0,0.08)",
+    maxWidth: 440,
+};
+
+// celdas por lado de cada corte coloreado
+const SLICE_CELLS = 48;
+
+const COLORING_LABEL = {
+    none: "",
+    magnitude: "|F|",
+    divergence: "div F",
+    curl: "rot F · n",
+} as const;
+
+function formatVector(v: Vec3, digits = 4) {
+    return `(${v.map((c) => (Number.isFinite(c) ? c.toFixed(digits) : "N/D")).join(", ")})`;
+}
+
+/** Punto (x, y, z) de un corte normal a `axis` en `at`, con coordenadas (a, b) en el plano. */
+function slicePoint(axis: Component, at: number, a: number, b: number): Vec3 {
+    if (axis === "x") return [at, a, b];
+    if (axis === "y") return [a, at, b];
+    return [a, b, at];
+}
+
+/** Libera geometrías y materiales de mallas y líneas (flechas, ejes, caja, cortes). */
+function disposeTree(root: THREE.Object3D) {
+    root.traverse((o) => {
+        if (o instanceof THREE.Mesh || o instanceof THREE.Line) {
+            o.geometry.dispose();
+            (o.material as THREE.Material).dispose();
+        }
+    });
+}
+
+export default function VectorField3D({ field, range, display, parameters, definitions }: Props) {
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const compiled = useMemo(
+        () => tryCompileVectorField(field, field.planar, parameters, definitions),
+        [field, parameters, definitions]
+    );
+    // mensaje si la evaluación superó el presupuesto de tiempo
+    const [budgetError, setBudgetError] = useState<string | null>(null);
+    // rango del escalar de los cortes, para la leyenda
+    const [scalarRange, setScalarRange] = useState<{ min: number; max: number } | null>(null);
+
+    // cortes activos; en el plano solo existe z = 0
+    const slices = useMemo(
+        () =>
+            field.planar
+                ? [{ axis: "z" as Component, at: 0 }]
+                : COMPONENTS.filter((c) => display.slices[c].enabled).map((c) => ({
+                      axis: c,
+                      at: display.slices[c].at,
+                  })),
+        [field.planar, display.slices]
+    );
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+        const container = containerRef.current;
+        setBudgetError(null);
+        setScalarRange(null);
+
+        // --- Escena básica (z hacia arriba) ---
+        const scene = new THREE.Scene();
+        scene.background = new THREE.Color(0xffffff);
+
+        const width = container.clientWidth;
+        const heightPx = Math.max(360, container.clientHeight);
+
+        const camera = new THREE.PerspectiveCamera(45, width / heightPx, 0.1, 1000);
+        camera.up.set(0, 0, 1);
+        camera.position.set(range * 2.2, -range * 2.6, range * 1.9);
+        camera.lookAt(0, 0, 0);
+
+        const renderer = new THREE.WebGLRenderer({ antialias: true });
+        renderer.setSize(width, heightPx);
+        renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        container.appendChild(renderer.domElement);
+
+        const controls = new OrbitControls(camera, renderer.domElement);
+        controls.enableDamping = true;
+
+        const hemi = new THREE.HemisphereLight(0xffffff, 0x444444, 0.9);
+        scene.add(hemi);
+        const dir = new THREE.DirectionalLight(0xffffff, 0.7);
+        dir.position.set(5, -5, 10);
+        scene.add(dir);
+
+        const axes = new THREE.AxesHelper(range * 1.2);
+        (axes.material as THREE.Material).transparent = true;
+        (axes.material as THREE.Material).opacity = 0.35;
+        scene.add(axes);
+
+        // caja [-range, range]³ (en el plano, solo el cuadrado z = 0)
+        const box = new THREE.Box3Helper(
+            new THREE.Box3(
+                new THREE.Vector3(-range, -range, field.planar ? 0 : -range),
+                new THREE.Vector3(range, range, field.planar ? 0 : range)
+            ),
+            0xbbbbbb
+        );
+        scene.add(box);
+
+        const arrowsGroup = new THREE.Group();
+        const slicesGroup = new THREE.Group();
+        scene.add(arrowsGroup, slicesGroup);
+
+        // --- Puntos de las flechas: red 3D, o red de cada corte ---
+        const n = Math.max(2, Math.round(display.density));
+        const spacing = (2 * range) / (n - 1);
+        const coord = (i: number) => -range + i * spacing;
+        const anchors: Vec3[] = [];
+        if (display.mode === "lattice" && !field.planar) {
+            for (let k = 0; k < n; k++) {
+                for (let j = 0; j < n; j++) {
+                    for (let i = 0; i < n; i++) anchors.push([coord(i), coord(j), coord(k)]);
+                }
+            }
+        } else {
+            slices.forEach(({ axis, at }) => {
+                for (let j = 0; j < n; j++) {
+                    for (let i = 0; i < n; i++) anchors.push(slicePoint(axis, at, coord(i), coord(j)));
+                }
+            });
+        }
+
+        const tick = evaluationBudget();
+        try {
+            // --- Flechas: largo proporcional a |F| (la más larga mide scale separaciones) ---
+            const values = anchors.map(([x, y, z]) => {
+                tick();
+                return fieldAt(compiled, x, y, z);
+            });
+            const magnitudes = values.map((v) => Math.hypot(v[0], v[1], v[2]));
+            const maxMagnitude = magnitudes.reduce((m, v) => (Number.isFinite(v) ? Math.max(m, v) : m), 0);
+            const color = new THREE.Color();
+            anchors.forEach((p, k) => {
+                const magnitude = magnitudes[k];
+                if (!Number.isFinite(magnitude) || magnitude < 1e-12 || maxMagnitude <= 0) return;
+                const length = (display.scale * spacing * magnitude) / maxMagnitude;
+                const arrow = new THREE.ArrowHelper(
+                    new THREE.Vector3(...values[k]).normalize(),
+                    new THREE.Vector3(...p),
+                    length,
+                    scalarColor(magnitude, 0, maxMagnitude, false, color).getHex(),
+                    Math.min(length * 0.35, spacing * 0.3),
+                    Math.min(length * 0.2, spacing * 0.15)
+                );
+                arrowsGroup.add(arrow);
+            });
+
+            // --- Cortes coloreados por el escalar elegido ---
+            if (display.coloring !== "none") {
+                const diverging = display.coloring !== "magnitude";
+                const planes = slices.map(({ axis, at }) => {
+                    const geometry = new THREE.PlaneGeometry(2 * range, 2 * range, SLICE_CELLS, SLICE_CELLS);
+                    const pos = geometry.attributes.position as THREE.BufferAttribute;
+                    const scalars = new Float64Array(pos.count);
+                    for (let v = 0; v < pos.count; v++) {
+                        tick();
+                        // PlaneGeometry está en XY: (x, y) del plano son las coordenadas (a, b) del corte
+                        const [x, y, z] = slicePoint(axis, at, pos.getX(v), pos.getY(v));
+                        pos.setXYZ(v, x, y, z);
+                        scalars[v] = sliceScalar(compiled, display.coloring, axis, x, y, z);
+                    }
+                    return { geometry, scalars };
+                });
+                let min = Infinity;
+                let max = -Infinity;
+                planes.forEach(({ scalars }) =>
+                    scalars.forEach((s) => {
+                        if (!Number.isFinite(s)) return;
+                        min = Math.min(min, s);
+                        max = Math.max(max, s);
+                    })
+                );
+                // escala divergente simétrica: blanco en 0, saturada en ±max|s|
+                const top = diverging ? Math.max(Math.abs(min), Math.abs(max)) : max;
+                planes.forEach(({ geometry, scalars }) => {
+                    const colors = new Float32Array(scalars.length * 3);
+                    scalars.forEach((s, v) => scalarColor(s, min, top, diverging, color).toArray(colors, 3 * v));
+                    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+                    geometry.computeVertexNormals();
+                    const material = new THREE.MeshBasicMaterial({
+                        vertexColors: true,
+                        side: THREE.DoubleSide,
+                        transparent: true,
+                        opacity: 0.75,
+                        depthWrite: false,
+                    });
+                    slicesGroup.add(new THREE.Mesh(geometry, material));
+                });
+                if (min <= max) setScalarRange({ min, max });
+            }
+        } catch (error) {
+            if (!(error instanceof EvaluationBudgetError)) throw error;
+            setBudgetError(error.message);
+            setScalarRange(null);
+            disposeTree(arrowsGroup);
+            disposeTree(slicesGroup);
+            arrowsGroup.clear();
+            slicesGroup.clear();
+        }
+
+        // --- Render loop ---
+        let raf = 0;
+        const render = () => {
+            controls.update();
+            renderer.render(scene, camera);
+            raf = requestAnimationFrame(render);
+        };
+        render();
+
+        const onResize = () => {
+            const w = container.clientWidth;
+            const h = Math.max(360, container.clientHeight);
+            renderer.setSize(w, h);
+            camera.aspect = w / h;
+            camera.updateProjectionMatrix();
+        };
+        window.addEventListener("resize", onResize);
+
+        // --- Limpieza ---
+        return () => {
+            cancelAnimationFrame(raf);
+            window.removeEventListener("resize", onResize);
+            controls.dispose();
+            disposeTree(scene);
+            scene.clear();
+            renderer.dispose();
+            renderer.domElement.remove();
+        };
+    }, [compiled, field.planar, range, display.mode, display.density, display.scale, display.coloring, slices]);
+
+    // —— lectura en el cruce de los cortes (x = a, y = b, z = c)
+    const probe: Vec3 = field.planar
+        ? [display.slices.x.at, display.slices.y.at, 0]
+        : [display.slices.x.at, display.slices.y.at, display.slices.z.at];
+    const [px, py, pz] = probe;
+    const probeInfo = useMemo(() => {
+        if (compiled.error) return null;
+        const value = fieldAt(compiled, px, py, pz);
+        return { value, magnitude: Math.hypot(...value), ...divergenceAndCurl(compiled, px, py, pz) };
+    }, [compiled, px, py, pz]);
+
+    const errorMsg = compiled.error
+        ? `${field.planar ? { x: "P", y: "Q", z: "R" }[compiled.error.component] : compiled.error.component}: ${compiled.error.error.message}`
+        : budgetError;
+    const number = (v: number | undefined) => (v !== undefined && Number.isFinite(v) ? v.toFixed(6) : "N/D");
+
+    return (
+        <div
+            ref={containerRef}
+            style={{ width: "100%", height: "100%", minHeight: 420, position: "relative" }}
+        >
+            <div style={PANEL_STYLE}>
+                <div style={{ fontWeight: 700, marginBottom: 6 }}>
+                    Campo {field.planar ? "F = (P, Q)(x,y)" : "F = (P, Q, R)(x,y,z)"}
+                </div>
+                {errorMsg && <div style={{ color: "#c00", marginBottom: 4 }}>{errorMsg}</div>}
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                    <tbody>
+                        <tr>
+                            <td style={{ padding: "2px 4px" }}>Punto</td>
+                            <td style={{ padding: "2px 4px" }}>{formatVector(probe, 2)}</td>
+                        </tr>
+                        <tr>
+                            <td style={{ padding: "2px 4px" }}>F</td>
+                            <td style={{ padding: "2px 4px" }}>{probeInfo ? formatVector(probeInfo.value) : "—"}</td>
+                        </tr>
+                        <tr>
+                            <td style={{ padding: "2px 4px" }}>|F|</td>
+                            <td style={{ padding: "2px 4px" }}>{number(probeInfo?.magnitude)}</td>
+                        </tr>
+                        <tr>
+                            <td style={{ padding: "2px 4px" }}>div F</td>
+                            <td style={{ padding: "2px 4px" }}>{number(probeInfo?.divergence)}</td>
+                        </tr>
+                        <tr>
+                            <td style={{ padding: "2px 4px" }}>rot F</td>
+                            <td style={{ padding: "2px 4px" }}>
+                                {probeInfo ? (field.planar ? number(probeInfo.curl[2]) + " k" : formatVector(probeInfo.curl)) : "—"}
+                            </td>
+                        </tr>
+                        {scalarRange && (
+                            <tr>
+                                <td style={{ padding: "2px 4px" }}>{COLORING_LABEL[display.coloring]} en cortes</td>
+                                <td style={{ padding: "2px 4px" }}>
+                                    [{scalarRange.min.toFixed(4)}, {scalarRange.max.toFixed(4)}]
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+                <div style={{ marginTop: 6, opacity: 0.7 }}>
+                    *Derivadas {compiled.jacobian ? "simbólicas" : "por diferencias finitas"}. Flechas coloreadas por
+                    |F| (azul → rojo)
+                    {display.coloring === "divergence" || display.coloring === "curl"
+                        ? "; cortes: azul < 0 < rojo"
+                        : ""}
+                    .
+                </div>
+            </div>
+        </div>
+    );
+}
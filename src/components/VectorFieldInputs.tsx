@@ -0,0 +1,159 @@
+// VectorFieldInputs.tsx
+// Entradas del visor de campos vectoriales: componentes P, Q, R (o solo P, Q en el plano), modo de
+// dibujo, densidad y escala de las flechas, cortes x = a, y = b, z = c y el escalar de los cortes.
+
+import type { Component, ExpressionError } from "../utils/compileExpression";
+import type { FieldDisplay, SliceColoring } from "../utils/vectorField";
+
+type Props = {
+    exprs: Record<Component, string>;
+    planar: boolean;
+    display: FieldDisplay;
+    /** los cortes se mueven dentro de [-range, range] */
+    range: number;
+    exprErrors: Record<Component, ExpressionError | null>;
+    onExprChange: (component: Component, value: string) => void;
+    onPlanarChange: (planar: boolean) => void;
+    onDisplayChange: (display: FieldDisplay) => void;
+};
+
+const NAMES: Record<Component, string> = { x: "P", y: "Q", z: "R" };
+
+export default function VectorFieldInputs({
+    exprs,
+    planar,
+    display,
+    range,
+    exprErrors,
+    onExprChange,
+    onPlanarChange,
+    onDisplayChange,
+}: Props) {
+    const components = planar ? (["x", "y"] as const) : (["x", "y", "z"] as const);
+    const setSlice = (axis: Component, slice: Partial<FieldDisplay["slices"][Component]>) =>
+        onDisplayChange({ ...display, slices: { ...display.slices, [axis]: { ...display.slices[axis], ...slice } } });
+
+    return (
+        <div className="mb-3">
+            <div className="d-flex justify-content-between align-items-center mb-1">
+                <label className="form-label mb-0">
+                    Campo F = ({planar ? "P, Q" : "P, Q, R"})
+                </label>
+                <div className="form-check form-switch mb-0">
+                    <input
+                        id="field-planar"
+                        type="checkbox"
+                        className="form-check-input"
+                        checked={planar}
+                        onChange={(e) => onPlanarChange(e.target.checked)}
+                    />
+                    <label className="form-check-label" htmlFor="field-planar">
+                        Plano
+                    </label>
+                </div>
+            </div>
+            {components.map((component) => (
+                <div key={component} className="mb-2">
+                    <div className="input-group input-group-sm">
+                        <span className="input-group-text font-monospace">{NAMES[component]} =</span>
+                        <input
+                            type="text"
+                            className={`form-control font-monospace${exprErrors[component] ? " is-invalid" : ""}`}
+                            value={exprs[component]}
+                            onChange={(e) => onExprChange(component, e.target.value)}
+                        />
+                    </div>
+                    {exprErrors[component] && (
+                        <div className="invalid-feedback d-block">{exprErrors[component]!.message}</div>
+                    )}
+                </div>
+            ))}
+
+            {!planar && (
+                <select
+                    className="form-select form-select-sm mb-2"
+                    value={display.mode}
+                    onChange={(e) => onDisplayChange({ ...display, mode: e.target.value as FieldDisplay["mode"] })}
+                >
+                    <option value="lattice">Flechas en una red 3D</option>
+                    <option value="slices">Flechas sobre los cortes</option>
+                </select>
+            )}
+
+            <label className="form-label d-flex justify-content-between mb-0">
+                <span>Flechas por eje</span>
+                <span className="badge bg-dark-subtle text-dark-emphasis">{display.density}</span>
+            </label>
+            <input
+                type="range"
+                min="3"
+                max={planar || display.mode === "slices" ? 30 : 14}
+                step="1"
+                className="form-range"
+                value={display.density}
+                onChange={(e) => onDisplayChange({ ...display, density: Number(e.target.value) })}
+            />
+            <label className="form-label d-flex justify-content-between mb-0">
+                <span>Escala de flechas</span>
+                <span className="badge bg-dark-subtle text-dark-emphasis">{display.scale.toFixed(2)}</span>
+            </label>
+            <input
+                type="range"
+                min="0.2"
+                max="2"
+                step="0.05"
+                className="form-range"
+                value={display.scale}
+                onChange={(e) => onDisplayChange({ ...display, scale: Number(e.target.value) })}
+            />
+
+            <label className="form-label mb-1">{planar ? "Punto de lectura" : "Cortes (su cruce es el punto de lectura)"}</label>
+            {(["x", "y", "z"] as const)
+                .filter((axis) => !planar || axis !== "z")
+                .map((axis) => (
+                    <div key={axis} className="d-flex align-items-center gap-2 mb-1">
+                        {!planar && (
+                            <input
+                                type="checkbox"
+                                className="form-check-input mt-0"
+                                checked={display.slices[axis].enabled}
+                                onChange={(e) => setSlice(axis, { enabled: e.target.checked })}
+                                title={`Mostrar el corte ${axis} = cte`}
+                            />
+                        )}
+                        <span className="font-monospace" style={{ width: 24 }}>
+                            {axis} =
+                        </span>
+                        <input
+                            type="range"
+                            min={-range}
+                            max={range}
+                            step="0.1"
+                            className="form-range flex-grow-1"
+                            value={display.slices[axis].at}
+                            onChange={(e) => setSlice(axis, { at: Number(e.target.value) })}
+                        />
+                        <span className="badge bg-dark-subtle text-dark-emphasis">
+                            {display.slices[axis].at.toFixed(1)}
+                        </span>
+                    </div>
+                ))}
+
+            <label className="form-label mt-2 mb-1">Colorear {planar ? "el plano" : "los cortes"} por</label>
+            <select
+                className="form-select form-select-sm"
+                value={display.coloring}
+                onChange={(e) => onDisplayChange({ ...display, coloring: e.target.value as SliceColoring })}
+            >
+                <option value="none">Nada</option>
+                <option value="magnitude">Módulo |F|</option>
+                <option value="divergence">Divergencia div F</option>
+                <option value="curl">Rotacional (componente normal al corte)</option>
+            </select>
+            <div className="form-text">
+                Ejemplos: giro <code>(-y, x, 0)</code>, fuente <code>(x, y, z)</code>, remolino{" "}
+                <code>(-y, x, 0.3*z)</code>.
+            </div>
+        </div>
+    );
+}
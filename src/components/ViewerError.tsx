@@ -0,0 +1,29 @@
+// ViewerError.tsx
+// Aviso sobre el lienzo (arriba a la izquierda) cuando la expresión no se puede dibujar, p.ej. porque
+// excede el presupuesto de evaluación. El contenedor del visor debe tener position: relative.
+
+type Props = {
+    message: string | null;
+};
+
+export default function ViewerError({ message }: Props) {
+    if (!message) return null;
+    return (
+        <div
+            style={{
+                position: "absolute",
+                top: 8,
+                left: 8,
+                padding: "6px 10px",
+                background: "rgba(255,255,255,0.95)",
+                border: "1px solid #e3a0a0",
+                borderRadius: 8,
+                color: "#c00",
+                fontFamily: "Arial, sans-serif",
+                fontSize: 12,
+            }}
+        >
+            {message}
+        </div>
+    );
+}
@@ -0,0 +1,161 @@
+// Extremos absolutos de z = f(x,y) en la región cerrada (rectángulo o tipo I/II, recortada por h(x,y) ≤ 0):
+// se juntan los puntos críticos interiores, los extremos de f a lo largo de cada lado parametrizado de la
+// región, las esquinas y, si hay dominio, los extremos sobre la curva h = 0 (Lagrange con g = h). El mayor
+// y el menor de todos los candidatos son el máximo y el mínimo absolutos. Corre en el worker.
+
+import { tryCompileExpression2, tryCompileProfile, type Fn1 } from "./compileExpression";
+import { graphSecondOrder, scanExtrema, type AnalysisSource, type Report } from "./gridAnalysis";
+import { solveLagrange } from "./lagrange";
+import { compileRegion, type PlotRegion } from "./plotRegion";
+
+export type AbsoluteCandidate = {
+  x: number;
+  y: number;
+  z: number;
+  /** punto crítico interior, extremo sobre un lado (o sobre h = 0) o esquina de la región */
+  kind: "critical" | "boundary" | "corner";
+};
+
+/** Candidatos de mayor a menor f: el primero es el máximo absoluto y el último el mínimo. */
+export type AbsoluteExtrema = { candidates: AbsoluteCandidate[] };
+
+/** Un lado de la región: s ∈ [from, to] ↦ (x, y). */
+type BoundaryPiece = { at: (s: number) => [number, number]; from: number; to: number };
+
+// iteraciones de la sección áurea al refinar un extremo sobre un lado
+const GOLDEN_STEPS = 60;
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+/** Lados de la región: los cuatro del rectángulo, o las dos curvas y los dos segmentos de una tipo I/II. */
+function boundaryPieces(region: PlotRegion, lower: Fn1, upper: Fn1): BoundaryPiece[] {
+  if (region.kind === "box") {
+    const { xMin, xMax, yMin, yMax } = region;
+    return [
+      { at: (x) => [x, yMin], from: xMin, to: xMax },
+      { at: (x) => [x, yMax], from: xMin, to: xMax },
+      { at: (y) => [xMin, y], from: yMin, to: yMax },
+      { at: (y) => [xMax, y], from: yMin, to: yMax },
+    ];
+  }
+  // en tipo II los papeles de x e y se intercambian
+  const point = (s: number, v: number): [number, number] => (region.kind === "typeI" ? [s, v] : [v, s]);
+  const [from, to] = region.kind === "typeI" ? [region.xMin, region.xMax] : [region.yMin, region.yMax];
+  return [
+    { at: (s) => point(s, lower(s)), from, to },
+    { at: (s) => point(s, upper(s)), from, to },
+    { at: (v) => point(from, v), from: lower(from), to: upper(from) },
+    { at: (v) => point(to, v), from: lower(to), to: upper(to) },
+  ];
+}
+
+/** Mínimo de φ en [a, b] por sección áurea (φ unimodal cerca del extremo). */
+function goldenSection(phi: (s: number) => number, a: number, b: number): number {
+  let c = b - GOLDEN * (b - a);
+  let d = a + GOLDEN * (b - a);
+  let fc = phi(c);
+  let fd = phi(d);
+  for (let step = 0; step < GOLDEN_STEPS; step++) {
+    if (fc < fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - GOLDEN * (b - a);
+      fc = phi(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + GOLDEN * (b - a);
+      fd = phi(d);
+    }
+  }
+  return (a + b) / 2;
+}
+
+/** Candidatos a extremo absoluto de f en la región y el dominio h ≤ 0, ordenados de mayor a menor f. */
+export function absoluteExtrema(source: AnalysisSource, report: Report<AbsoluteExtrema>): AbsoluteExtrema {
+  const { parameters, definitions, region } = source;
+  const { box } = compileRegion(region, parameters, definitions);
+  const span = Math.max(box.xMax - box.xMin, box.yMax - box.yMin);
+  const samples = 2 * Math.max(32, source.resolution);
+  const f = graphSecondOrder(source, Math.max(1e-5, span / 2000)).f;
+  const h = source.domainExpression?.trim()
+    ? tryCompileExpression2(source.domainExpression, parameters, definitions).fn
+    : null;
+  // celda de la malla donde se traza h = 0; dos candidatos a menos de media celda son el mismo punto
+  const cell = span / Math.max(8, source.resolution);
+  const cluster = cell / 2;
+
+  const candidates: AbsoluteCandidate[] = [];
+  const add = (x: number, y: number, kind: AbsoluteCandidate["kind"]) => {
+    const z = f(x, y);
+    if (!Number.isFinite(z)) return;
+    if (candidates.some((c) => Math.hypot(c.x - x, c.y - y) < cluster)) return;
+    candidates.push({ x, y, z, kind });
+  };
+  const snapshot = (): AbsoluteExtrema => ({ candidates: [...candidates].sort((a, b) => b.z - a.z) });
+  const total = 6;
+
+  // lados de la región: extremos locales de f(s) en cada tramo válido (dentro de h ≤ 0) y sus puntas
+  const variable = region.kind === "typeII" ? "y" : "x";
+  const lower = region.kind === "box" ? null : tryCompileProfile(region.lower, parameters, definitions, variable);
+  const upper = region.kind === "box" ? null : tryCompileProfile(region.upper, parameters, definitions, variable);
+  const pieces = boundaryPieces(region, lower?.fn ?? (() => NaN), upper?.fn ?? (() => NaN));
+  pieces.forEach((piece, index) => {
+    if (!Number.isFinite(piece.from) || !Number.isFinite(piece.to)) return;
+    const s = new Float64Array(samples + 1);
+    const z = new Float64Array(samples + 1);
+    for (let k = 0; k <= samples; k++) {
+      s[k] = piece.from + ((piece.to - piece.from) * k) / samples;
+      const [x, y] = piece.at(s[k]);
+      z[k] = h && !(h(x, y) <= 0) ? NaN : f(x, y);
+    }
+    const valid = (k: number) => k >= 0 && k <= samples && Number.isFinite(z[k]);
+    for (let k = 0; k <= samples; k++) {
+      if (!valid(k)) continue;
+      // donde empieza o termina un tramo válido hay una esquina (de la región o donde corta h = 0)
+      if (!valid(k - 1) || !valid(k + 1)) {
+        add(...piece.at(s[k]), "corner");
+        continue;
+      }
+      // estricto al menos de un lado: una meseta (p.ej. un lado con f constante) solo aporta sus bordes
+      const isMax = z[k] >= z[k - 1] && z[k] >= z[k + 1] && (z[k] > z[k - 1] || z[k] > z[k + 1]);
+      const isMin = z[k] <= z[k - 1] && z[k] <= z[k + 1] && (z[k] < z[k - 1] || z[k] < z[k + 1]);
+      if (!isMax && !isMin) continue;
+      const sign = isMax ? -1 : 1;
+      const best = goldenSection((t) => sign * f(...piece.at(t)), s[k - 1], s[k + 1]);
+      add(...piece.at(best), "boundary");
+    }
+    report(snapshot(), index + 1, total);
+  });
+
+  // puntos críticos interiores
+  for (const p of scanExtrema(source, () => {})) add(p.x, p.y, "critical");
+  report(snapshot(), pieces.length + 1, total);
+
+  // curva h = 0: extremos condicionados y, por si h tiene esquinas (max/min de varias restricciones),
+  // el mayor y el menor f entre los vértices trazados; un vértice a menos de un segmento (la diagonal de
+  // una celda) de un punto refinado es ese mismo extremo, con el error del trazado
+  if (h) {
+    const onCurve = solveLagrange(
+      { ...source, constraintExpression: source.domainExpression, domainExpression: undefined },
+      () => {}
+    );
+    for (const p of onCurve.points) add(p.x, p.y, "boundary");
+    let hi: [number, number] | null = null;
+    let lo: [number, number] | null = null;
+    for (let k = 0; k < onCurve.curve.length; k += 2) {
+      const x = onCurve.curve[k];
+      const y = onCurve.curve[k + 1];
+      const z = f(x, y);
+      if (!Number.isFinite(z)) continue;
+      if (!hi || z > f(...hi)) hi = [x, y];
+      if (!lo || z < f(...lo)) lo = [x, y];
+    }
+    const refined = ([x, y]: [number, number]) =>
+      onCurve.points.some((p) => Math.hypot(p.x - x, p.y - y) <= Math.SQRT2 * cell);
+    if (hi && !refined(hi)) add(...hi, "boundary");
+    if (lo && !refined(lo)) add(...lo, "boundary");
+  }
+  return snapshot();
+}
@@ -1,162 +1,1238 @@
+import {
+  expandProgram,
+  expressionTooLarge,
+  MAX_EXPANDED_NODES,
+  NO_DEFINITIONS,
+  type Definitions,
+} from "./definitions";
+import { differentiate, simplify } from "./differentiate";
+import { constantValue, resolveFunction, type FunctionSpec } from "./expressionFunctions";
+import {
+  ExpressionError,
+  checkTreeHeight,
+  printExpression,
+  type CompareOperator,
+  type ExprNode,
+} from "./expressionParser";
+
+export { compileDefinitions, type Definitions } from "./definitions";
+export { ExpressionError } from "./expressionParser";
+
 export type Fn3 = (x: number, y: number, t: number) => number;
 export type Fn2 = (x: number, y: number) => number;
+export type Fn1 = (t: number) => number;
+
+const XYT = ["x", "y", "t"];
+const XY = ["x", "y"];
+const UVT = ["u", "v", "t"];
+const XYZ = ["x", "y", "z"];
+const T = ["t"];
+
+/** Valores de los parámetros libres (a, b, k...) detectados en las expresiones. */
+export type Parameters = Record<string, number>;
+
+const NO_PARAMETERS: Parameters = {};
+
+type Scope = Float64Array;
+type Evaluator = (scope: Scope) => number;
+
+const COMPARISONS: Record<CompareOperator, (a: number, b: number) => boolean> = {
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+  "==": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+};
+
+/** Valor de verdad: 1 si es distinto de cero, 0 si es cero y NaN si está indefinido. */
+const truth = (value: number) => (Number.isNaN(value) ? NaN : value !== 0 ? 1 : 0);
+
+/** Índice de la variable en el scope, o el valor fijo de un parámetro o constante. */
+function resolveIdentifier(
+  node: Extract<ExprNode, { type: "identifier" }>,
+  slots: Map<string, number>,
+  parameters: Parameters
+): { slot: number } | { value: number } {
+  const slot = slots.get(node.name);
+  if (slot !== undefined) return { slot };
+  if (Object.hasOwn(parameters, node.name)) return { value: parameters[node.name] };
+  const constant = constantValue(node.name);
+  if (constant !== undefined) return { value: constant };
+  if (resolveFunction(node.name)) {
+    throw new ExpressionError(`La función '${node.name}' necesita argumentos entre paréntesis`, node.pos);
+  }
+  throw new ExpressionError(`Variable desconocida '${node.name}'`, node.pos);
+}
+
+/** Función llamada, tras comprobar que existe y que el número de argumentos es válido. */
+function resolveCall(node: Extract<ExprNode, { type: "call" }>): FunctionSpec {
+  const spec = resolveFunction(node.callee);
+  if (!spec) {
+    throw new ExpressionError(`Función desconocida '${node.callee}'`, node.pos);
+  }
+  const n = node.args.length;
+  if (n < spec.minArgs || n > spec.maxArgs) {
+    const expected =
+      spec.maxArgs === Infinity
+        ? `al menos ${spec.minArgs}`
+        : spec.minArgs === spec.maxArgs
+          ? `${spec.minArgs}`
+          : `entre ${spec.minArgs} y ${spec.maxArgs}`;
+    throw new ExpressionError(
+      `'${node.callee}' espera ${expected} argumento(s) y recibió ${n}`,
+      node.pos
+    );
+  }
+  return spec;
+}
+
+function compileNode(node: ExprNode, slots: Map<string, number>, parameters: Parameters): Evaluator {
+  switch (node.type) {
+    case "number": {
+      const value = node.value;
+      return () => value;
+    }
+    case "identifier": {
+      const resolved = resolveIdentifier(node, slots, parameters);
+      if ("slot" in resolved) {
+        const slot = resolved.slot;
+        return (s) => s[slot];
+      }
+      const value = resolved.value;
+      return () => value;
+    }
+    case "unary": {
+      const arg = compileNode(node.argument, slots, parameters);
+      return node.op === "-" ? (s) => -arg(s) : arg;
+    }
+    case "binary": {
+      const a = compileNode(node.left, slots, parameters);
+      const b = compileNode(node.right, slots, parameters);
+      switch (node.op) {
+        case "+":
+          return (s) => a(s) + b(s);
+        case "-":
+          return (s) => a(s) - b(s);
+        case "*":
+          return (s) => a(s) * b(s);
+        case "/":
+          return (s) => a(s) / b(s);
+        case "%":
+          return (s) => a(s) % b(s);
+        case "^":
+          return (s) => Math.pow(a(s), b(s));
+      }
+      break;
+    }
+    case "call": {
+      const impl = resolveCall(node).impl;
+      const n = node.args.length;
+      const args = node.args.map((arg) => compileNode(arg, slots, parameters));
+      if (n === 1) {
+        const [a] = args;
+        return (s) => impl(a(s));
+      }
+      if (n === 2) {
+        const [a, b] = args;
+        return (s) => impl(a(s), b(s));
+      }
+      return (s) => impl(...args.map((arg) => arg(s)));
+    }
+    case "compare": {
+      const a = compileNode(node.left, slots, parameters);
+      const b = compileNode(node.right, slots, parameters);
+      const compare = COMPARISONS[node.op];
+      return (s) => {
+        const l = a(s);
+        const r = b(s);
+        return Number.isNaN(l) || Number.isNaN(r) ? NaN : compare(l, r) ? 1 : 0;
+      };
+    }
+    case "logical": {
+      const a = compileNode(node.left, slots, parameters);
+      const b = compileNode(node.right, slots, parameters);
+      // cortocircuito: false && NaN = 0, true || NaN = 1
+      const decisive = node.op === "&&" ? 0 : 1;
+      return (s) => {
+        const l = truth(a(s));
+        if (l === decisive) return l;
+        const r = truth(b(s));
+        return r === decisive || !Number.isNaN(l) ? r : NaN;
+      };
+    }
+    case "not": {
+      const arg = compileNode(node.argument, slots, parameters);
+      return (s) => 1 - truth(arg(s));
+    }
+    case "conditional": {
+      const test = compileNode(node.test, slots, parameters);
+      const consequent = compileNode(node.consequent, slots, parameters);
+      const alternate = compileNode(node.alternate, slots, parameters);
+      return (s) => {
+        const c = truth(test(s));
+        if (Number.isNaN(c)) return NaN;
+        return c === 1 ? consequent(s) : alternate(s);
+      };
+    }
+  }
+  throw new ExpressionError("Nodo de expresión no soportado", 0);
+}
+
+// —— presupuesto de evaluación: ninguna pasada sobre la malla puede congelar la pestaña
+
+/** Tiempo máximo de una pasada completa sobre una malla (o de un bucle de muestreo). */
+export const EVALUATION_BUDGET_MS = 250;
+
+// nodos × puntos a partir del cual ni se intenta evaluar (expresiones enormes tras expandir definiciones)
+const MAX_GRID_OPERATIONS = 400_000_000;
+
+// puntos por bloque entre dos controles de tiempo
+const BATCH_CHUNK = 4096;
+
+/** La evaluación superó el presupuesto de tiempo; el visor debe mostrarlo y no reintentar. */
+export class EvaluationBudgetError extends Error {
+  constructor(ms: number = EVALUATION_BUDGET_MS) {
+    super(
+      `Evaluación demasiado costosa: supera ${ms} ms por pasada. ` +
+        "Simplifica la expresión o baja la resolución."
+    );
+    this.name = "EvaluationBudgetError";
+  }
+}
+
+/**
+ * Control de tiempo para bucles que evalúan punto a punto: llamar a la función devuelta en cada
+ * muestra; lanza EvaluationBudgetError cuando se agota el presupuesto.
+ */
+export function evaluationBudget(ms: number = EVALUATION_BUDGET_MS): () => void {
+  const start = performance.now();
+  let samples = 0;
+  return () => {
+    samples += 1;
+    if ((samples & 63) === 0 && performance.now() - start > ms) throw new EvaluationBudgetError(ms);
+  };
+}
+
+// —— evaluación por lotes: cada nodo procesa todos los puntos de una vez sobre Float64Array
+
+/** Una columna por variable (x, y, t), con un valor por punto. */
+type Columns = Float64Array[];
+type BatchEvaluator = (columns: Columns, n: number) => Float64Array;
+
+/** Buffer propio de un nodo; se reutiliza mientras alcance para la cantidad de puntos (solo se leen los n primeros). */
+function nodeBuffer(): (n: number) => Float64Array {
+  let buffer = new Float64Array(0);
+  return (n) => (buffer.length >= n ? buffer : (buffer = new Float64Array(n)));
+}
+
+function constantBatch(value: number): BatchEvaluator {
+  const take = nodeBuffer();
+  return (_columns, n) => {
+    const out = take(n);
+    if (out[0] !== value) out.fill(value); // NaN siempre se rellena: es barato y poco frecuente
+    return out;
+  };
+}
+
+function mapBatch(a: BatchEvaluator, op: (v: number) => number): BatchEvaluator {
+  const take = nodeBuffer();
+  return (columns, n) => {
+    const out = take(n);
+    const av = a(columns, n);
+    for (let i = 0; i < n; i++) out[i] = op(av[i]);
+    return out;
+  };
+}
+
+function zipBatch(a: BatchEvaluator, b: BatchEvaluator, op: (u: number, v: number) => number): BatchEvaluator {
+  const take = nodeBuffer();
+  return (columns, n) => {
+    const out = take(n);
+    const av = a(columns, n);
+    const bv = b(columns, n);
+    for (let i = 0; i < n; i++) out[i] = op(av[i], bv[i]);
+    return out;
+  };
+}
+
+/** Igual que compileNode, pero cada evaluador llena un Float64Array con el valor en todos los puntos. */
+function compileBatchNode(node: ExprNode, slots: Map<string, number>, parameters: Parameters): BatchEvaluator {
+  const compile = (child: ExprNode) => compileBatchNode(child, slots, parameters);
+  switch (node.type) {
+    case "number":
+      return constantBatch(node.value);
+    case "identifier": {
+      const resolved = resolveIdentifier(node, slots, parameters);
+      if ("slot" in resolved) {
+        const slot = resolved.slot;
+        return (columns) => columns[slot];
+      }
+      return constantBatch(resolved.value);
+    }
+    case "unary": {
+      const arg = compile(node.argument);
+      return node.op === "-" ? mapBatch(arg, (v) => -v) : arg;
+    }
+    case "binary": {
+      const a = compile(node.left);
+      const b = compile(node.right);
+      const take = nodeBuffer();
+      // bucles escritos a mano para las operaciones más frecuentes
+      switch (node.op) {
+        case "+":
+          return (columns, n) => {
+            const out = take(n);
+            const av = a(columns, n);
+            const bv = b(columns, n);
+            for (let i = 0; i < n; i++) out[i] = av[i] + bv[i];
+            return out;
+          };
+        case "-":
+          return (columns, n) => {
+            const out = take(n);
+            const av = a(columns, n);
+            const bv = b(columns, n);
+            for (let i = 0; i < n; i++) out[i] = av[i] - bv[i];
+            return out;
+          };
+        case "*":
+          return (columns, n) => {
+            const out = take(n);
+            const av = a(columns, n);
+            const bv = b(columns, n);
+            for (let i = 0; i < n; i++) out[i] = av[i] * bv[i];
+            return out;
+          };
+        case "/":
+          return (columns, n) => {
+            const out = take(n);
+            const av = a(columns, n);
+            const bv = b(columns, n);
+            for (let i = 0; i < n; i++) out[i] = av[i] / bv[i];
+            return out;
+          };
+        case "%":
+          return zipBatch(a, b, (u, v) => u % v);
+        case "^":
+          return zipBatch(a, b, Math.pow);
+      }
+      break;
+    }
+    case "call": {
+      const impl = resolveCall(node).impl;
+      const args = node.args.map(compile);
+      if (args.length === 1) return mapBatch(args[0], impl);
+      if (args.length === 2) return zipBatch(args[0], args[1], impl);
+      const take = nodeBuffer();
+      return (columns, n) => {
+        const out = take(n);
+        const values = args.map((arg) => arg(columns, n));
+        const point = new Array<number>(values.length);
+        for (let i = 0; i < n; i++) {
+          for (let k = 0; k < values.length; k++) point[k] = values[k][i];
+          out[i] = impl(...point);
+        }
+        return out;
+      };
+    }
+    case "compare": {
+      const compare = COMPARISONS[node.op];
+      return zipBatch(compile(node.left), compile(node.right), (l, r) =>
+        Number.isNaN(l) || Number.isNaN(r) ? NaN : compare(l, r) ? 1 : 0
+      );
+    }
+    case "logical": {
+      // sin cortocircuito: ambos lados se evalúan en todos los puntos (no tienen efectos)
+      const decisive = node.op === "&&" ? 0 : 1;
+      return zipBatch(compile(node.left), compile(node.right), (u, v) => {
+        const l = truth(u);
+        if (l === decisive) return l;
+        const r = truth(v);
+        return r === decisive || !Number.isNaN(l) ? r : NaN;
+      });
+    }
+    case "not":
+      return mapBatch(compile(node.argument), (v) => 1 - truth(v));
+    case "conditional": {
+      const test = compile(node.test);
+      const consequent = compile(node.consequent);
+      const alternate = compile(node.alternate);
+      const take = nodeBuffer();
+      return (columns, n) => {
+        const out = take(n);
+        const c = test(columns, n);
+        const a = consequent(columns, n);
+        const b = alternate(columns, n);
+        for (let i = 0; i < n; i++) {
+          const v = truth(c[i]);
+          out[i] = Number.isNaN(v) ? NaN : v === 1 ? a[i] : b[i];
+        }
+        return out;
+      };
+    }
+  }
+  throw new ExpressionError("Nodo de expresión no soportado", 0);
+}
+
+/** Malla regular de nx × ny puntos: el punto (i, j) es (x0 + i·dx, y0 + j·dy) y ocupa el índice i + nx·j. */
+export type Grid = { x0: number; y0: number; dx: number; dy: number; nx: number; ny: number };
+
+/** Malla de (cells+1) × (cells+1) vértices sobre [-range, range]², con el orden de vértices de los visores. */
+export function squareGrid(range: number, cells: number): Grid {
+  const d = (2 * range) / cells;
+  return { x0: -range, y0: -range, dx: d, dy: d, nx: cells + 1, ny: cells + 1 };
+}
+
+/** Malla de (cellsX+1) × (cellsY+1) vértices sobre el rectángulo [xMin, xMax] × [yMin, yMax]. */
+export function boxGrid(xMin: number, xMax: number, cellsX: number, yMin: number, yMax: number, cellsY: number): Grid {
+  return {
+    x0: xMin,
+    y0: yMin,
+    dx: (xMax - xMin) / cellsX,
+    dy: (yMax - yMin) / cellsY,
+    nx: cellsX + 1,
+    ny: cellsY + 1,
+  };
+}
+
+/** Centros de las cells × cells celdas de [-range, range]² (para sumas de Riemann). */
+export function cellCenterGrid(range: number, cells: number): Grid {
+  const d = (2 * range) / cells;
+  return { x0: -range + d / 2, y0: -range + d / 2, dx: d, dy: d, nx: cells, ny: cells };
+}
+
+/**
+ * Valores de f en toda la malla al tiempo t; se escriben en `out` si se pasa (longitud nx·ny).
+ * Lanza EvaluationBudgetError si la pasada es demasiado costosa.
+ */
+export type GridFn3 = (grid: Grid, t: number, out?: Float64Array) => Float64Array;
+export type GridFn2 = (grid: Grid, out?: Float64Array) => Float64Array;
+
+/** Columnas x, y (y t) de una malla; se recalculan solo si cambia la malla o t. */
+function gridColumns(variables: number) {
+  const columns: Columns = [];
+  let last: Grid | null = null;
+  return (grid: Grid, t: number): Columns => {
+    const n = grid.nx * grid.ny;
+    const sameGrid =
+      last !== null &&
+      last.x0 === grid.x0 &&
+      last.y0 === grid.y0 &&
+      last.dx === grid.dx &&
+      last.dy === grid.dy &&
+      last.nx === grid.nx &&
+      last.ny === grid.ny;
+    if (!sameGrid) {
+      const xs = new Float64Array(n);
+      const ys = new Float64Array(n);
+      for (let j = 0, k = 0; j < grid.ny; j++) {
+        const y = grid.y0 + j * grid.dy;
+        for (let i = 0; i < grid.nx; i++, k++) {
+          xs[k] = grid.x0 + i * grid.dx;
+          ys[k] = y;
+        }
+      }
+      columns[0] = xs;
+      columns[1] = ys;
+      if (variables > 2) columns[2] = new Float64Array(n).fill(t);
+      last = { ...grid };
+    } else if (variables > 2 && columns[2][0] !== t) {
+      columns[2].fill(t);
+    }
+    return columns;
+  };
+}
+
+type Batch = { evaluate: BatchEvaluator; nodes: number };
+
+/**
+ * Evalúa por bloques de puntos y escribe en `result`. Aborta con EvaluationBudgetError si la
+ * pasada supera el presupuesto de tiempo, o de entrada si su costo estimado ya es excesivo.
+ */
+function evaluateColumns(batch: Batch, columns: Columns, n: number, result: Float64Array) {
+  if (batch.nodes * n > MAX_GRID_OPERATIONS) throw new EvaluationBudgetError();
+  const start = performance.now();
+  for (let from = 0; from < n; from += BATCH_CHUNK) {
+    const to = Math.min(n, from + BATCH_CHUNK);
+    const chunk = columns.map((column) => column.subarray(from, to));
+    const values = batch.evaluate(chunk, to - from);
+    for (let i = from; i < to; i++) result[i] = finiteOrNaN(values[i - from]);
+    if (to < n && performance.now() - start > EVALUATION_BUDGET_MS) throw new EvaluationBudgetError();
+  }
+  return result;
+}
+
+function toGridFn3(batch: Batch): GridFn3 {
+  const columnsFor = gridColumns(XYT.length);
+  return (grid, t, out) => {
+    const n = grid.nx * grid.ny;
+    return evaluateColumns(batch, columnsFor(grid, t), n, out ?? new Float64Array(n));
+  };
+}
+
+function toGridFn2(batch: Batch): GridFn2 {
+  const columnsFor = gridColumns(XY.length);
+  return (grid, out) => {
+    const n = grid.nx * grid.ny;
+    return evaluateColumns(batch, columnsFor(grid, 0), n, out ?? new Float64Array(n));
+  };
+}
+
+// tamaño de cada subárbol ya contado: las derivadas y las definiciones comparten subárboles por referencia,
+// así que contar sin memoria recorrería cada uno tantas veces como aparece
+const nodeCounts = new WeakMap<ExprNode, number>();
 
-const MATH_FUNCTIONS = [
-  "abs",
-  "acos",
-  "acosh",
-  "asin",
-  "asinh",
-  "atan",
-  "atan2",
-  "atanh",
-  "cbrt",
-  "ceil",
-  "clz32",
-  "cos",
-  "cosh",
-  "exp",
-  "expm1",
-  "floor",
-  "fround",
-  "hypot",
-  "log",
-  "log10",
-  "log1p",
-  "log2",
-  "max",
-  "min",
-  "pow",
-  "round",
-  "sign",
-  "sin",
-  "sinh",
-  "sqrt",
-  "tan",
-  "tanh",
-  "trunc",
-];
-
-const CONSTANT_REPLACEMENTS: Array<[RegExp, string]> = [
-  [/\bpi\b/gi, "Math.PI"],
-  [/π/g, "Math.PI"],
-  [/\btau\b/gi, "(2*Math.PI)"],
-  [/\bphi\b/gi, "((1+Math.sqrt(5))/2)"],
-  [/\bdeg2rad\b/gi, "(Math.PI/180)"],
-  [/\brad2deg\b/gi, "(180/Math.PI)"],
-];
-
-const FUNCTION_ALIAS_REPLACEMENTS: Array<[RegExp, string]> = [
-  [/\bsen\s*\(/gi, "Math.sin("], // español
-  [/\bln\s*\(/gi, "Math.log("],
-  [/\btg\s*\(/gi, "Math.tan("],
-  [/\bsign\s*\(/gi, "Math.sign("],
-];
-
-const HELPER_FUNCTION_DEFINITIONS = `
-const cot = (v) => 1 / Math.tan(v);
-const ctg = (v) => 1 / Math.tan(v);
-const sec = (v) => 1 / Math.cos(v);
-const csc = (v) => 1 / Math.sin(v);
-const sech = (v) => 1 / Math.cosh(v);
-const csch = (v) => 1 / Math.sinh(v);
-const coth = (v) => 1 / Math.tanh(v);
-`;
-
-const FUNCTION_REGEXP = new RegExp(`\\b(${MATH_FUNCTIONS.join("|")})\\b`, "gi");
-
-function sanitizeExpression(rawExpression: string): string {
-  let expr = rawExpression.trim();
-
-  if (!expr) {
-    return "0";
-  }
-
-  // soportar expoentes con ^ -> ** (JS exponentiation operator)
-  expr = expr.replace(/\^/g, "**");
-
-  // reemplazos de constantes conocidos
-  for (const [regex, value] of CONSTANT_REPLACEMENTS) {
-    expr = expr.replace(regex, value);
-  }
-
-  // alias de funciones comunes (en español o abreviaturas)
-  for (const [regex, value] of FUNCTION_ALIAS_REPLACEMENTS) {
-    expr = expr.replace(regex, value);
-  }
-
-  // añadir Math. a funciones conocidas si no lo tienen ya
-  expr = expr.replace(FUNCTION_REGEXP, (match, _fnName, offset, source) => {
-    const index = Number(offset);
-    let i = index - 1;
-    while (i >= 0 && /\s/.test(source[i])) {
-      i -= 1;
-    }
-    if (i >= 0 && source[i] === ".") {
-      return match; // ya está como Math.fn
-    }
-    const lower = String(match).toLowerCase();
-    return `Math.${lower}`;
-  });
-
-  return expr;
-}
-
-function wrapCallable(fn: Function): Fn3 {
+/** Nodos del árbol completo (un subárbol compartido cuenta cada vez que aparece). */
+function countNodes(node: ExprNode): number {
+  const cached = nodeCounts.get(node);
+  if (cached !== undefined) return cached;
+  let count: number;
+  switch (node.type) {
+    case "number":
+    case "identifier":
+      count = 1;
+      break;
+    case "unary":
+    case "not":
+      count = 1 + countNodes(node.argument);
+      break;
+    case "binary":
+    case "compare":
+    case "logical":
+      count = 1 + countNodes(node.left) + countNodes(node.right);
+      break;
+    case "call":
+      count = node.args.reduce((total, arg) => total + countNodes(arg), 1);
+      break;
+    case "conditional":
+      count = 1 + countNodes(node.test) + countNodes(node.consequent) + countNodes(node.alternate);
+      break;
+  }
+  nodeCounts.set(node, count);
+  return count;
+}
+
+// nodos a partir de los cuales no se deriva simbólicamente: cada derivada puede multiplicar el tamaño
+const MAX_DERIVATIVE_NODES = 20_000;
+
+/**
+ * ∂node/∂name con límite de tamaño antes y después de derivar; lanza ExpressionError si se excede (quien
+ * deriva lo atrapa y recurre a diferencias finitas).
+ */
+function derivative(node: ExprNode, name: string): ExprNode {
+  if (countNodes(node) > MAX_DERIVATIVE_NODES) {
+    throw expressionTooLarge(`más de ${MAX_DERIVATIVE_NODES} nodos para derivar`, node.pos);
+  }
+  const result = differentiate(node, name);
+  checkTreeHeight(result);
+  if (countNodes(result) > MAX_DERIVATIVE_NODES) {
+    throw expressionTooLarge(`la derivada tiene más de ${MAX_DERIVATIVE_NODES} nodos`, node.pos);
+  }
+  return result;
+}
+
+function compileBatchAst(node: ExprNode, variables: string[], parameters: Parameters): Batch {
+  const slots = new Map(variables.map((name, index) => [name, index]));
+  return { evaluate: compileBatchNode(node, slots, parameters), nodes: countNodes(node) };
+}
+
+const nanGrid3: GridFn3 = (grid, _t, out) => (out ?? new Float64Array(grid.nx * grid.ny)).fill(NaN);
+
+/**
+ * Parsea `expr` (con sus definiciones locales) y sustituye las definiciones compartidas. Lanza
+ * ExpressionError si el árbol resultante es demasiado grande para compilarlo.
+ */
+function parseSource(expr: string, definitions: Definitions): ExprNode {
+  const ast = expandProgram(expr, definitions);
+  if (countNodes(ast) > MAX_EXPANDED_NODES) {
+    throw expressionTooLarge(`más de ${MAX_EXPANDED_NODES} nodos`, ast.pos);
+  }
+  return ast;
+}
+
+function compileAst(node: ExprNode, variables: string[], parameters: Parameters): Evaluator {
+  const slots = new Map(variables.map((name, index) => [name, index]));
+  return compileNode(node, slots, parameters);
+}
+
+const finiteOrNaN = (value: number) => (Number.isFinite(value) ? value : NaN);
+
+function toFn3(evaluator: Evaluator): Fn3 {
+  const scope = new Float64Array(XYT.length);
   return (x: number, y: number, t: number) => {
+    scope[0] = x;
+    scope[1] = y;
+    scope[2] = t;
+    return finiteOrNaN(evaluator(scope));
+  };
+}
+
+function toFn1(evaluator: Evaluator): Fn1 {
+  const scope = new Float64Array(T.length);
+  return (t: number) => {
+    scope[0] = t;
+    return finiteOrNaN(evaluator(scope));
+  };
+}
+
+function toFn2(evaluator: Evaluator): Fn2 {
+  const scope = new Float64Array(XY.length);
+  return (x: number, y: number) => {
+    scope[0] = x;
+    scope[1] = y;
+    return finiteOrNaN(evaluator(scope));
+  };
+}
+
+/** Condiciones de la expresión: los test de `c ? a : b` y todas las comparaciones. */
+function collectBranchTests(node: ExprNode, out: ExprNode[]) {
+  switch (node.type) {
+    case "number":
+    case "identifier":
+      break;
+    case "unary":
+    case "not":
+      collectBranchTests(node.argument, out);
+      break;
+    case "binary":
+    case "logical":
+      collectBranchTests(node.left, out);
+      collectBranchTests(node.right, out);
+      break;
+    case "compare":
+      out.push(node);
+      collectBranchTests(node.left, out);
+      collectBranchTests(node.right, out);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectBranchTests(arg, out));
+      break;
+    case "conditional":
+      if (node.test.type !== "compare") out.push(node.test);
+      collectBranchTests(node.test, out);
+      collectBranchTests(node.consequent, out);
+      collectBranchTests(node.alternate, out);
+      break;
+  }
+}
+
+/**
+ * Firma de las ramas que toma la expresión en cada punto: un entero que codifica el valor de verdad
+ * (0, 1 o indefinido) de cada condición. Dos puntos con distinta firma están en ramas distintas.
+ * null si la expresión no tiene condiciones.
+ */
+function compileBranches(node: ExprNode, variables: string[], parameters: Parameters): Evaluator | null {
+  const tests: ExprNode[] = [];
+  collectBranchTests(node, tests);
+  if (tests.length === 0) return null;
+  const evaluators = tests.map((test) => compileAst(test, variables, parameters));
+  return (s) => {
+    let code = 0;
+    for (const test of evaluators) {
+      const value = truth(test(s));
+      code = (code * 3 + (Number.isNaN(value) ? 2 : value)) % Number.MAX_SAFE_INTEGER;
+    }
+    return code;
+  };
+}
+
+/**
+ * Resultado de compilar: la función (que devuelve NaN si la expresión no es válida), su versión por
+ * lotes sobre mallas y el error, si lo hubo.
+ */
+export type CompileResult<F, G> = {
+  fn: F;
+  grid: G;
+  error: ExpressionError | null;
+  /** firma de la rama en cada punto, para no unir ramas de una función a trozos (null si no hay ramas) */
+  branch: F | null;
+};
+
+function asExpressionError(error: unknown): ExpressionError {
+  if (error instanceof ExpressionError) return error;
+  throw error;
+}
+
+export function tryCompileExpression3(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): CompileResult<Fn3, GridFn3> {
+  try {
+    const ast = parseSource(expr, definitions);
+    const fn = toFn3(compileAst(ast, XYT, parameters));
+    const grid = toGridFn3(compileBatchAst(ast, XYT, parameters));
+    const branch = compileBranches(ast, XYT, parameters);
+    return { fn, grid, error: null, branch: branch && toFn3(branch) };
+  } catch (error) {
+    return { fn: () => NaN, grid: nanGrid3, error: asExpressionError(error), branch: null };
+  }
+}
+
+/** Para g(x,y): `fn` es null si la expresión está vacía o no es válida. */
+export function tryCompileExpression2(
+  expr: string | undefined,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): CompileResult<Fn2 | null, GridFn2 | null> {
+  if (!expr || !expr.trim()) {
+    return { fn: null, grid: null, error: null, branch: null };
+  }
+  try {
+    const ast = parseSource(expr, definitions);
+    const fn = toFn2(compileAst(ast, XY, parameters));
+    const grid = toGridFn2(compileBatchAst(ast, XY, parameters));
+    const branch = compileBranches(ast, XY, parameters);
+    return { fn, grid, error: null, branch: branch && toFn2(branch) };
+  } catch (error) {
+    return { fn: null, grid: null, error: asExpressionError(error), branch: null };
+  }
+}
+
+export function compileExpression3(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): Fn3 {
+  return tryCompileExpression3(expr, parameters, definitions).fn;
+}
+
+/** Versión por lotes de compileExpression3 (rellena NaN si la expresión no es válida). */
+export function compileGrid3(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): GridFn3 {
+  return tryCompileExpression3(expr, parameters, definitions).grid;
+}
+
+export function compileExpression2(
+  expr: string | undefined,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): Fn2 | null {
+  return tryCompileExpression2(expr, parameters, definitions).fn;
+}
+
+/** Valor de una expresión sin variables (p.ej. el límite `2*pi` de un intervalo); NaN si no es válida. */
+export function evaluateConstant(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): { value: number; error: ExpressionError | null } {
+  try {
+    const evaluator = compileAst(parseSource(expr, definitions), [], parameters);
+    return { value: finiteOrNaN(evaluator(new Float64Array(0))), error: null };
+  } catch (error) {
+    return { value: NaN, error: asExpressionError(error) };
+  }
+}
+
+// —— superficies paramétricas r(u,v,t) = (x, y, z)
+
+export type Component = "x" | "y" | "z";
+export const COMPONENTS: Component[] = ["x", "y", "z"];
+
+/**
+ * Componentes de r(u,v,t) compiladas: cada Fn3 recibe (u, v, t) y cada GridFn3 una malla en (u, v).
+ * `ru` y `rv` son los vectores tangentes simbólicos (null si alguna componente no se puede derivar).
+ */
+export type ParametricSurface = {
+  fn: Record<Component, Fn3>;
+  grid: Record<Component, GridFn3>;
+  ru: Record<Component, Fn3> | null;
+  rv: Record<Component, Fn3> | null;
+  gridRu: Record<Component, GridFn3> | null;
+  gridRv: Record<Component, GridFn3> | null;
+  /** nombres de los dos parámetros para mostrar: (u, v), o (r, θ) etc. en otras coordenadas */
+  labels: [string, string];
+  /** primera componente con error, si la hay (null si el error está en la única expresión); las funciones devuelven NaN */
+  error: { component: Component | null; error: ExpressionError } | null;
+};
+
+const nanFn3: Fn3 = () => NaN;
+
+const mapComponents = <A, B>(values: Record<Component, A>, map: (value: A) => B): Record<Component, B> => ({
+  x: map(values.x),
+  y: map(values.y),
+  z: map(values.z),
+});
+
+function nanSurface(labels: [string, string], component: Component | null, error: unknown): ParametricSurface {
+  const nan = { x: nanFn3, y: nanFn3, z: nanFn3 };
+  const nanGrid = { x: nanGrid3, y: nanGrid3, z: nanGrid3 };
+  return {
+    fn: nan,
+    grid: nanGrid,
+    ru: null,
+    rv: null,
+    gridRu: null,
+    gridRv: null,
+    labels,
+    error: { component, error: asExpressionError(error) },
+  };
+}
+
+/** Compila componentes ya validadas; `variables` son los nombres de (u, v, t) en los AST. */
+function compileSurfaceAsts(
+  asts: Record<Component, ExprNode>,
+  variables: string[],
+  labels: [string, string],
+  parameters: Parameters
+): ParametricSurface {
+  const toFn = (ast: ExprNode) => toFn3(compileAst(ast, variables, parameters));
+  const toGrid = (ast: ExprNode) => toGridFn3(compileBatchAst(ast, variables, parameters));
+  let tangents: Pick<ParametricSurface, "ru" | "rv" | "gridRu" | "gridRv">;
+  try {
+    const du = mapComponents(asts, (ast) => derivative(ast, variables[0]));
+    const dv = mapComponents(asts, (ast) => derivative(ast, variables[1]));
+    tangents = {
+      ru: mapComponents(du, toFn),
+      rv: mapComponents(dv, toFn),
+      gridRu: mapComponents(du, toGrid),
+      gridRv: mapComponents(dv, toGrid),
+    };
+  } catch {
+    // sin derivada simbólica (p.ej. noise): quien lo use recurre a diferencias finitas
+    tangents = { ru: null, rv: null, gridRu: null, gridRv: null };
+  }
+  return { fn: mapComponents(asts, toFn), grid: mapComponents(asts, toGrid), ...tangents, labels, error: null };
+}
+
+export function tryCompileParametric(
+  exprs: Record<Component, string>,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): ParametricSurface {
+  const asts = {} as Record<Component, ExprNode>;
+  for (const component of COMPONENTS) {
     try {
-      const result = fn(x, y, t);
-      const value = Number(result);
-      return Number.isFinite(value) ? value : NaN;
-    } catch (_error) {
-      return NaN;
+      asts[component] = parseSource(exprs[component], definitions);
+      compileAst(asts[component], UVT, parameters); // valida antes de derivar
+    } catch (error) {
+      return nanSurface(["u", "v"], component, error);
     }
+  }
+  return compileSurfaceAsts(asts, UVT, ["u", "v"], parameters);
+}
+
+// —— superficies en coordenadas polares, cilíndricas y esféricas
+
+export type CoordinateSystem = "polar" | "cylindrical" | "spherical";
+
+/**
+ * Cada sistema es una parametrización fija: `variables` hacen de (u, v) y `components` da (x, y, z)
+ * en función de ellas y de `f`, la expresión del usuario.
+ */
+export const COORDINATE_SYSTEMS: Record<
+  CoordinateSystem,
+  { variables: [string, string]; labels: [string, string]; components: Record<Component, string> }
+> = {
+  // z = f(r, θ)
+  polar: {
+    variables: ["r", "theta"],
+    labels: ["r", "θ"],
+    components: { x: "r*cos(theta)", y: "r*sin(theta)", z: "f" },
+  },
+  // r = f(θ, z)
+  cylindrical: {
+    variables: ["theta", "z"],
+    labels: ["θ", "z"],
+    components: { x: "f*cos(theta)", y: "f*sin(theta)", z: "z" },
+  },
+  // ρ = f(θ, φ), con φ el ángulo desde el eje z
+  spherical: {
+    variables: ["theta", "phi"],
+    labels: ["θ", "φ"],
+    components: { x: "f*sin(phi)*cos(theta)", y: "f*sin(phi)*sin(theta)", z: "f*cos(phi)" },
+  },
+};
+
+/** Copia de `node` con cada identificador `name` reemplazado por `value`. */
+function substitute(node: ExprNode, name: string, value: ExprNode): ExprNode {
+  const sub = (child: ExprNode) => substitute(child, name, value);
+  switch (node.type) {
+    case "number":
+      return node;
+    case "identifier":
+      return node.name === name ? value : node;
+    case "unary":
+    case "not":
+      return { ...node, argument: sub(node.argument) };
+    case "binary":
+    case "compare":
+    case "logical":
+      return { ...node, left: sub(node.left), right: sub(node.right) };
+    case "call":
+      return { ...node, args: node.args.map(sub) };
+    case "conditional":
+      return { ...node, test: sub(node.test), consequent: sub(node.consequent), alternate: sub(node.alternate) };
+  }
+}
+
+/** Variables de la expresión del usuario en cada sistema (las dos coordenadas y t). */
+export function coordinateVariables(system: CoordinateSystem): string[] {
+  return [...COORDINATE_SYSTEMS[system].variables, "t"];
+}
+
+/** Compila z = f(r,θ,t), r = f(θ,z,t) o ρ = f(θ,φ,t) como la superficie paramétrica equivalente. */
+export function tryCompileCoordinates(
+  system: CoordinateSystem,
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): ParametricSurface {
+  const { components, labels } = COORDINATE_SYSTEMS[system];
+  const variables = coordinateVariables(system);
+  let f: ExprNode;
+  try {
+    f = parseSource(expr, definitions);
+    compileAst(f, variables, parameters);
+  } catch (error) {
+    return nanSurface(labels, null, error);
+  }
+  const asts = mapComponents(components, (template) => substitute(parseSource(template, NO_DEFINITIONS), "f", f));
+  return compileSurfaceAsts(asts, variables, labels, parameters);
+}
+
+// —— superficies implícitas F(x,y,z) = c
+
+/**
+ * F(x,y,z) compilada: `fn` recibe (x, y, z) y `grid` evalúa el corte a altura z de una malla en (x, y).
+ * `gradient` es ∇F simbólico (null si no se puede derivar).
+ */
+export type ImplicitFunction = {
+  fn: Fn3;
+  grid: GridFn3;
+  gradient: Record<Component, Fn3> | null;
+  error: ExpressionError | null;
+};
+
+export function tryCompileImplicit(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): ImplicitFunction {
+  let ast: ExprNode;
+  try {
+    ast = parseSource(expr, definitions);
+    compileAst(ast, XYZ, parameters);
+  } catch (error) {
+    return { fn: nanFn3, grid: nanGrid3, gradient: null, error: asExpressionError(error) };
+  }
+  let gradient: Record<Component, Fn3> | null;
+  try {
+    gradient = mapComponents({ x: "x", y: "y", z: "z" }, (name) =>
+      toFn3(compileAst(derivative(ast, name), XYZ, parameters))
+    );
+  } catch {
+    gradient = null;
+  }
+  return {
+    fn: toFn3(compileAst(ast, XYZ, parameters)),
+    grid: toGridFn3(compileBatchAst(ast, XYZ, parameters)),
+    gradient,
+    error: null,
   };
 }
 
-export function compileExpression3(expr: string): Fn3 {
-  const sanitized = sanitizeExpression(expr);
+// —— curvas en el espacio r(t) = (x, y, z)
+
+/**
+ * Componentes de r(t) compiladas. `derivatives` son r', r'' y r''' simbólicas (null si alguna componente
+ * no se puede derivar; quien las use recurre a diferencias finitas).
+ */
+export type SpaceCurve = {
+  fn: Record<Component, Fn1>;
+  derivatives: [Record<Component, Fn1>, Record<Component, Fn1>, Record<Component, Fn1>] | null;
+  /** primera componente con error, si la hay (las funciones devuelven NaN) */
+  error: { component: Component; error: ExpressionError } | null;
+};
+
+const nanFn1: Fn1 = () => NaN;
+
+export function tryCompileCurve(
+  exprs: Record<Component, string>,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): SpaceCurve {
+  const asts = {} as Record<Component, ExprNode>;
+  for (const component of COMPONENTS) {
+    try {
+      asts[component] = parseSource(exprs[component], definitions);
+      compileAst(asts[component], T, parameters);
+    } catch (error) {
+      return {
+        fn: { x: nanFn1, y: nanFn1, z: nanFn1 },
+        derivatives: null,
+        error: { component, error: asExpressionError(error) },
+      };
+    }
+  }
+
+  const toFn = (ast: ExprNode) => toFn1(compileAst(ast, T, parameters));
+  let derivatives: SpaceCurve["derivatives"];
+  try {
+    const first = mapComponents(asts, (ast) => derivative(ast, "t"));
+    const second = mapComponents(first, (ast) => derivative(ast, "t"));
+    const third = mapComponents(second, (ast) => derivative(ast, "t"));
+    derivatives = [mapComponents(first, toFn), mapComponents(second, toFn), mapComponents(third, toFn)];
+  } catch {
+    derivatives = null;
+  }
+  return { fn: mapComponents(asts, toFn), derivatives, error: null };
+}
+
+// —— perfiles y = g(x) (sólidos de revolución, regiones tipo I) o x = h(y) (regiones tipo II)
+
+/** Para perfiles de una variable: `fn` devuelve NaN si la expresión no es válida. */
+export function tryCompileProfile(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS,
+  variable: "x" | "y" = "x"
+): { fn: Fn1; error: ExpressionError | null } {
+  try {
+    return { fn: toFn1(compileAst(parseSource(expr, definitions), [variable], parameters)), error: null };
+  } catch (error) {
+    return { fn: nanFn1, error: asExpressionError(error) };
+  }
+}
+
+// —— campos vectoriales F(x,y,z) = (P, Q, R)
+
+/**
+ * Componentes de F compiladas; cada Fn3 recibe (x, y, z). `jacobian[c][v]` es ∂F_c/∂v simbólica
+ * (null si alguna componente no se puede derivar; quien la use recurre a diferencias finitas).
+ */
+export type VectorField = {
+  fn: Record<Component, Fn3>;
+  jacobian: Record<Component, Record<Component, Fn3>> | null;
+  /** primera componente con error, si la hay (las funciones devuelven NaN) */
+  error: { component: Component; error: ExpressionError } | null;
+};
+
+/** Compila F = (P, Q, R); si `planar`, las componentes solo pueden usar x e y. */
+export function tryCompileVectorField(
+  exprs: Record<Component, string>,
+  planar = false,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): VectorField {
+  const variables = planar ? XY : XYZ;
+  const asts = {} as Record<Component, ExprNode>;
+  for (const component of COMPONENTS) {
+    try {
+      asts[component] = parseSource(exprs[component], definitions);
+      compileAst(asts[component], variables, parameters);
+    } catch (error) {
+      return {
+        fn: { x: nanFn3, y: nanFn3, z: nanFn3 },
+        jacobian: null,
+        error: { component, error: asExpressionError(error) },
+      };
+    }
+  }
+
+  // las variables ocupan las posiciones (x, y, z) de Fn3; en el plano z se ignora
+  const toFn = (ast: ExprNode) => toFn3(compileAst(ast, variables, parameters));
+  let jacobian: VectorField["jacobian"];
   try {
-    // eslint-disable-next-line no-new-func
-    const compiled = new Function(
-      "x",
-      "y",
-      "t",
-      `"use strict";\n${HELPER_FUNCTION_DEFINITIONS}return (${sanitized});`
+    jacobian = mapComponents(asts, (ast) =>
+      mapComponents({ x: "x", y: "y", z: "z" }, (name) => toFn(derivative(ast, name)))
     );
-    return wrapCallable(compiled);
-  } catch (_error) {
-    return () => NaN;
+  } catch {
+    jacobian = null;
   }
+  return { fn: mapComponents(asts, toFn), jacobian, error: null };
 }
 
-export function compileExpression2(expr: string | undefined): Fn2 | null {
-  if (!expr || !expr.trim()) {
+type PartialKey = "fx" | "fy" | "fxx" | "fxy" | "fyy";
+
+/** Derivadas parciales simbólicas compiladas, con su forma simplificada imprimible en `text`. */
+export type Derivatives2 = Record<PartialKey, Fn2> & {
+  grid: Record<PartialKey, GridFn2>;
+  text: Record<PartialKey, string>;
+};
+export type Derivatives3 = Record<PartialKey | "ft", Fn3> & {
+  grid: Record<PartialKey | "ft", GridFn3>;
+  text: Record<PartialKey | "ft", string>;
+};
+
+function symbolicPartials(f: ExprNode) {
+  const fx = derivative(f, "x");
+  const fy = derivative(f, "y");
+  return {
+    fx,
+    fy,
+    ft: derivative(f, "t"),
+    fxx: derivative(fx, "x"),
+    fxy: derivative(fx, "y"),
+    fyy: derivative(fy, "y"),
+  };
+}
+
+/** ∂f/∂x, ∂f/∂y, ∂f/∂t y segundas parciales de f(x,y,t); null si la expresión no es válida. */
+export function compileDerivatives3(
+  expr: string,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): Derivatives3 | null {
+  try {
+    const f = parseSource(expr, definitions);
+    compileAst(f, XYT, parameters); // valida variables y funciones antes de derivar
+    const p = symbolicPartials(f);
+    return {
+      fx: toFn3(compileAst(p.fx, XYT, parameters)),
+      fy: toFn3(compileAst(p.fy, XYT, parameters)),
+      ft: toFn3(compileAst(p.ft, XYT, parameters)),
+      fxx: toFn3(compileAst(p.fxx, XYT, parameters)),
+      fxy: toFn3(compileAst(p.fxy, XYT, parameters)),
+      fyy: toFn3(compileAst(p.fyy, XYT, parameters)),
+      grid: {
+        fx: toGridFn3(compileBatchAst(p.fx, XYT, parameters)),
+        fy: toGridFn3(compileBatchAst(p.fy, XYT, parameters)),
+        ft: toGridFn3(compileBatchAst(p.ft, XYT, parameters)),
+        fxx: toGridFn3(compileBatchAst(p.fxx, XYT, parameters)),
+        fxy: toGridFn3(compileBatchAst(p.fxy, XYT, parameters)),
+        fyy: toGridFn3(compileBatchAst(p.fyy, XYT, parameters)),
+      },
+      text: {
+        fx: printExpression(p.fx),
+        fy: printExpression(p.fy),
+        ft: printExpression(p.ft),
+        fxx: printExpression(p.fxx),
+        fxy: printExpression(p.fxy),
+        fyy: printExpression(p.fyy),
+      },
+    };
+  } catch {
     return null;
   }
-  const sanitized = sanitizeExpression(expr);
+}
+
+/** Igual que compileDerivatives3 para funciones g(x,y) (restricciones, densidades). */
+export function compileDerivatives2(
+  expr: string | undefined,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): Derivatives2 | null {
+  if (!expr || !expr.trim()) return null;
   try {
-    // eslint-disable-next-line no-new-func
-    const compiled = new Function("x", "y", `"use strict";\n${HELPER_FUNCTION_DEFINITIONS}return (${sanitized});`);
-    const wrapped = (x: number, y: number) => {
-      try {
-        const result = compiled(x, y);
-        const value = Number(result);
-        return Number.isFinite(value) ? value : NaN;
-      } catch (_error) {
-        return NaN;
-      }
+    const f = parseSource(expr, definitions);
+    compileAst(f, XY, parameters);
+    const p = symbolicPartials(f);
+    return {
+      fx: toFn2(compileAst(p.fx, XY, parameters)),
+      fy: toFn2(compileAst(p.fy, XY, parameters)),
+      fxx: toFn2(compileAst(p.fxx, XY, parameters)),
+      fxy: toFn2(compileAst(p.fxy, XY, parameters)),
+      fyy: toFn2(compileAst(p.fyy, XY, parameters)),
+      grid: {
+        fx: toGridFn2(compileBatchAst(p.fx, XY, parameters)),
+        fy: toGridFn2(compileBatchAst(p.fy, XY, parameters)),
+        fxx: toGridFn2(compileBatchAst(p.fxx, XY, parameters)),
+        fxy: toGridFn2(compileBatchAst(p.fxy, XY, parameters)),
+        fyy: toGridFn2(compileBatchAst(p.fyy, XY, parameters)),
+      },
+      text: {
+        fx: printExpression(p.fx),
+        fy: printExpression(p.fy),
+        fxx: printExpression(p.fxx),
+        fxy: printExpression(p.fxy),
+        fyy: printExpression(p.fyy),
+      },
     };
-    return wrapped;
-  } catch (_error) {
+  } catch {
     return null;
   }
 }
 
+/**
+ * Valida la expresión sin evaluarla. Devuelve el error (con posición) o null si es válida.
+ * `variables` indica qué identificadores libres se admiten (por defecto x, y, t).
+ */
+export function checkExpression(
+  expr: string | undefined,
+  variables: string[] = XYT,
+  parameters: Parameters = NO_PARAMETERS,
+  definitions: Definitions = NO_DEFINITIONS
+): ExpressionError | null {
+  if (!expr || !expr.trim()) return null;
+  try {
+    compileAst(parseSource(expr, definitions), variables, parameters);
+    return null;
+  } catch (error) {
+    return asExpressionError(error);
+  }
+}
+
+function collectIdentifiers(node: ExprNode, out: Set<string>) {
+  switch (node.type) {
+    case "identifier":
+      out.add(node.name);
+      break;
+    case "unary":
+      collectIdentifiers(node.argument, out);
+      break;
+    case "binary":
+      collectIdentifiers(node.left, out);
+      collectIdentifiers(node.right, out);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectIdentifiers(arg, out));
+      break;
+    case "compare":
+    case "logical":
+      collectIdentifiers(node.left, out);
+      collectIdentifiers(node.right, out);
+      break;
+    case "not":
+      collectIdentifiers(node.argument, out);
+      break;
+    case "conditional":
+      collectIdentifiers(node.test, out);
+      collectIdentifiers(node.consequent, out);
+      collectIdentifiers(node.alternate, out);
+      break;
+  }
+}
+
+/**
+ * Identificadores libres (p.ej. a, b, k en `a*sin(k*x)+b*y`) que no son variables (por defecto x, y, t),
+ * constantes conocidas ni nombres definidos. Las expresiones con errores se ignoran. Devuelve los nombres ordenados.
+ */
+export function findFreeParameters(
+  exprs: Array<string | undefined>,
+  definitions: Definitions = NO_DEFINITIONS,
+  variables: string[] = XYT
+): string[] {
+  const names = new Set<string>();
+  for (const expr of exprs) {
+    if (!expr || !expr.trim()) continue;
+    try {
+      collectIdentifiers(parseSource(expr, definitions), names);
+    } catch {
+      // el error se informa por checkExpression
+    }
+  }
+  return [...names]
+    .filter(
+      (name) =>
+        !variables.includes(name) && constantValue(name) === undefined && !resolveFunction(name)
+    )
+    .sort();
+}
+
 export function evalExpression3(expr: string, x: number, y: number, t: number): number {
   return compileExpression3(expr)(x, y, t);
 }
 
 export function sanitizeForPreview(expr: string): string {
-  return sanitizeExpression(expr);
+  try {
+    return printExpression(simplify(parseSource(expr, NO_DEFINITIONS)));
+  } catch {
+    return expr.trim();
+  }
 }
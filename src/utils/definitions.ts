@@ -0,0 +1,264 @@
+// Definiciones de usuario (variables y funciones) y su expansión en línea sobre el AST.
+// Tras expandir, la expresión solo contiene x, y, t, parámetros, constantes y funciones predefinidas,
+// así que se compila, deriva e imprime con el mismo código que una expresión simple.
+
+import { constantValue, resolveFunction } from "./expressionFunctions";
+import {
+  ExpressionError,
+  MAX_TREE_HEIGHT,
+  expressionTooDeep,
+  parseProgram,
+  type Definition,
+  type ExprNode,
+} from "./expressionParser";
+
+/** Conjunto de definiciones ya validado (sin ciclos ni nombres repetidos), indexado por nombre. */
+export type Definitions = ReadonlyMap<string, Definition>;
+
+export const NO_DEFINITIONS: Definitions = new Map();
+
+const RESERVED = ["x", "y", "t"];
+
+/** Límite de nodos tras expandir, para que definiciones anidadas no exploten en tamaño. */
+export const MAX_EXPANDED_NODES = 200_000;
+
+/**
+ * Expresión demasiado grande para compilarla o derivarla: mismo aviso que EvaluationBudgetError, pero
+ * detectado antes de evaluar y con posición, como cualquier error de la expresión.
+ */
+export function expressionTooLarge(detail: string, pos: number): ExpressionError {
+  return new ExpressionError(`Evaluación demasiado costosa: ${detail}. Simplifica la expresión`, pos);
+}
+
+function addDefinitions(target: Map<string, Definition>, list: Definition[]) {
+  for (const def of list) {
+    if (RESERVED.includes(def.name)) {
+      throw new ExpressionError(`No se puede redefinir la variable '${def.name}'`, def.pos);
+    }
+    if (constantValue(def.name) !== undefined || resolveFunction(def.name)) {
+      throw new ExpressionError(`'${def.name}' ya es una constante o función predefinida`, def.pos);
+    }
+    if (target.has(def.name)) {
+      throw new ExpressionError(`'${def.name}' está definido más de una vez`, def.pos);
+    }
+    const params = def.params ?? [];
+    const duplicated = params.find((p, i) => params.indexOf(p) !== i);
+    if (duplicated) {
+      throw new ExpressionError(`Parámetro '${duplicated}' repetido en '${def.name}'`, def.pos);
+    }
+    target.set(def.name, def);
+  }
+}
+
+/** Nombres definidos que usa `node` (sin contar los parámetros locales `bound`). */
+function referencedDefinitions(node: ExprNode, defs: Definitions, bound: string[], out: Set<string>) {
+  switch (node.type) {
+    case "number":
+      return;
+    case "identifier":
+      if (!bound.includes(node.name) && defs.has(node.name)) out.add(node.name);
+      return;
+    case "unary":
+      referencedDefinitions(node.argument, defs, bound, out);
+      return;
+    case "binary":
+      referencedDefinitions(node.left, defs, bound, out);
+      referencedDefinitions(node.right, defs, bound, out);
+      return;
+    case "call":
+      if (defs.has(node.callee)) out.add(node.callee);
+      node.args.forEach((arg) => referencedDefinitions(arg, defs, bound, out));
+      return;
+    case "compare":
+    case "logical":
+      referencedDefinitions(node.left, defs, bound, out);
+      referencedDefinitions(node.right, defs, bound, out);
+      return;
+    case "not":
+      referencedDefinitions(node.argument, defs, bound, out);
+      return;
+    case "conditional":
+      referencedDefinitions(node.test, defs, bound, out);
+      referencedDefinitions(node.consequent, defs, bound, out);
+      referencedDefinitions(node.alternate, defs, bound, out);
+      return;
+  }
+}
+
+/** Lanza ExpressionError si hay dependencias circulares, indicando el ciclo (r → s → r). */
+function checkCycles(defs: Definitions) {
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (name: string) => {
+    const current = state.get(name);
+    if (current === "done") return;
+    const def = defs.get(name)!;
+    if (current === "visiting") {
+      const cycle = [...path.slice(path.indexOf(name)), name].join(" → ");
+      throw new ExpressionError(`Definición circular: ${cycle}`, def.pos);
+    }
+    state.set(name, "visiting");
+    path.push(name);
+    const deps = new Set<string>();
+    referencedDefinitions(def.body, defs, def.params ?? [], deps);
+    deps.forEach(visit);
+    path.pop();
+    state.set(name, "done");
+  };
+
+  defs.forEach((_def, name) => visit(name));
+}
+
+/** Resultado de compilar el bloque de definiciones compartido. */
+export type DefinitionsResult = {
+  definitions: Definitions;
+  error: ExpressionError | null;
+};
+
+/**
+ * Compila el bloque de definiciones (una por línea). Si hay un error se devuelve junto a un conjunto
+ * vacío, para que las expresiones que dependan de él informen "variable desconocida" y no valores falsos.
+ */
+export function compileDefinitions(source: string | undefined): DefinitionsResult {
+  if (!source || !source.trim()) return { definitions: NO_DEFINITIONS, error: null };
+  try {
+    const program = parseProgram(source);
+    if (program.result) {
+      throw new ExpressionError("Cada línea debe ser una definición (nombre = expresión)", program.result.pos);
+    }
+    const defs = new Map<string, Definition>();
+    addDefinitions(defs, program.definitions);
+    checkCycles(defs);
+    return { definitions: defs, error: null };
+  } catch (error) {
+    if (error instanceof ExpressionError) return { definitions: NO_DEFINITIONS, error };
+    throw error;
+  }
+}
+
+/**
+ * Parsea `source` (que puede traer sus propias definiciones en líneas previas) y devuelve la
+ * expresión final con todas las definiciones sustituidas. Si la última línea es `z = ...`, su
+ * lado derecho es el resultado.
+ */
+export function expandProgram(source: string, shared: Definitions = NO_DEFINITIONS): ExprNode {
+  const program = parseProgram(source.trim() ? source : "0");
+  let definitions = program.definitions;
+  let result = program.result;
+
+  if (!result) {
+    const last = definitions[definitions.length - 1];
+    if (!last || last.params) {
+      throw new ExpressionError("Falta la expresión final", source.length);
+    }
+    result = last.body;
+    definitions = definitions.slice(0, -1);
+  }
+
+  let defs: Definitions = shared;
+  if (definitions.length > 0) {
+    const merged = new Map(shared);
+    addDefinitions(merged, definitions);
+    checkCycles(merged);
+    defs = merged;
+  }
+  if (defs.size === 0) return result;
+
+  let visited = 0;
+  let depth = 0;
+  const variableCache = new Map<string, ExprNode>();
+  // tamaño del árbol completo bajo cada nodo armado: las variables en caché y los argumentos se reutilizan
+  // por referencia, pero cada reutilización cuenta con su tamaño real (y su altura)
+  const sizes = new WeakMap<ExprNode, number>();
+  const heights = new WeakMap<ExprNode, number>();
+  const tooLarge = (pos: number) =>
+    expressionTooLarge(`las definiciones generan más de ${MAX_EXPANDED_NODES} nodos`, pos);
+  const measured = (node: ExprNode, children: ExprNode[]): ExprNode => {
+    const total = children.reduce((sum, child) => sum + (sizes.get(child) ?? 1), 1);
+    if (total > MAX_EXPANDED_NODES) throw tooLarge(node.pos);
+    const height = children.reduce((max, child) => Math.max(max, heights.get(child) ?? 1), 0) + 1;
+    if (height > MAX_TREE_HEIGHT) throw expressionTooDeep(node.pos);
+    sizes.set(node, total);
+    heights.set(node, height);
+    return node;
+  };
+
+  // las definiciones encadenadas suman su profundidad: se limita la recursión además del resultado
+  const expand = (node: ExprNode, bindings: ReadonlyMap<string, ExprNode>): ExprNode => {
+    if (depth >= MAX_TREE_HEIGHT) throw expressionTooDeep(node.pos);
+    depth += 1;
+    try {
+      return expandNode(node, bindings);
+    } finally {
+      depth -= 1;
+    }
+  };
+
+  const expandNode = (node: ExprNode, bindings: ReadonlyMap<string, ExprNode>): ExprNode => {
+    visited += 1;
+    if (visited > MAX_EXPANDED_NODES) throw tooLarge(node.pos);
+    switch (node.type) {
+      case "number":
+        return node;
+      case "identifier": {
+        const bound = bindings.get(node.name);
+        if (bound) return bound;
+        const def = defs.get(node.name);
+        if (!def) return node;
+        if (def.params) {
+          throw new ExpressionError(`La función '${node.name}' necesita argumentos entre paréntesis`, node.pos);
+        }
+        let value = variableCache.get(node.name);
+        if (!value) {
+          value = expand(def.body, new Map());
+          variableCache.set(node.name, value);
+        }
+        return value;
+      }
+      case "unary": {
+        const argument = expand(node.argument, bindings);
+        return measured({ ...node, argument }, [argument]);
+      }
+      case "binary": {
+        const left = expand(node.left, bindings);
+        const right = expand(node.right, bindings);
+        return measured({ ...node, left, right }, [left, right]);
+      }
+      case "call": {
+        const args = node.args.map((arg) => expand(arg, bindings));
+        const def = defs.get(node.callee);
+        if (!def) return measured({ ...node, args }, args);
+        if (!def.params) {
+          throw new ExpressionError(`'${node.callee}' es una variable, no una función`, node.pos);
+        }
+        if (def.params.length !== args.length) {
+          throw new ExpressionError(
+            `'${node.callee}' espera ${def.params.length} argumento(s) y recibió ${args.length}`,
+            node.pos
+          );
+        }
+        const params = def.params;
+        return expand(def.body, new Map(params.map((p, i) => [p, args[i]])));
+      }
+      case "compare":
+      case "logical": {
+        const left = expand(node.left, bindings);
+        const right = expand(node.right, bindings);
+        return measured({ ...node, left, right }, [left, right]);
+      }
+      case "not": {
+        const argument = expand(node.argument, bindings);
+        return measured({ ...node, argument }, [argument]);
+      }
+      case "conditional": {
+        const test = expand(node.test, bindings);
+        const consequent = expand(node.consequent, bindings);
+        const alternate = expand(node.alternate, bindings);
+        return measured({ ...node, test, consequent, alternate }, [test, consequent, alternate]);
+      }
+    }
+  };
+
+  return expand(result, new Map());
+}
@@ -0,0 +1,387 @@
+// Derivación simbólica sobre el AST de expressionParser y simplificación algebraica básica.
+// Las derivadas resultantes son ASTs normales: se compilan e imprimen igual que la expresión original.
+
+import { canonicalFunctionName, resolveFunction } from "./expressionFunctions";
+import { ExpressionError, type BinaryOperator, type ExprNode } from "./expressionParser";
+
+// —— constructores con simplificación en línea (plegado de constantes e identidades)
+
+const num = (value: number): ExprNode => ({ type: "number", value, pos: 0 });
+
+const isNum = (node: ExprNode): node is Extract<ExprNode, { type: "number" }> => node.type === "number";
+
+const isValue = (node: ExprNode, value: number) => node.type === "number" && node.value === value;
+
+/** Igualdad estructural de dos subárboles (ignora posiciones). */
+function sameNode(a: ExprNode, b: ExprNode): boolean {
+  if (a.type === "number" && b.type === "number") return a.value === b.value;
+  if (a.type === "identifier" && b.type === "identifier") return a.name === b.name;
+  if (a.type === "unary" && b.type === "unary") return a.op === b.op && sameNode(a.argument, b.argument);
+  if (a.type === "binary" && b.type === "binary") {
+    return a.op === b.op && sameNode(a.left, b.left) && sameNode(a.right, b.right);
+  }
+  if ((a.type === "compare" && b.type === "compare") || (a.type === "logical" && b.type === "logical")) {
+    return a.op === b.op && sameNode(a.left, b.left) && sameNode(a.right, b.right);
+  }
+  if (a.type === "not" && b.type === "not") return sameNode(a.argument, b.argument);
+  if (a.type === "conditional" && b.type === "conditional") {
+    return (
+      sameNode(a.test, b.test) && sameNode(a.consequent, b.consequent) && sameNode(a.alternate, b.alternate)
+    );
+  }
+  if (a.type === "call" && b.type === "call") {
+    return (
+      canonicalFunctionName(a.callee) === canonicalFunctionName(b.callee) &&
+      a.args.length === b.args.length &&
+      a.args.every((arg, i) => sameNode(arg, b.args[i]))
+    );
+  }
+  return false;
+}
+
+/** Separa el coeficiente numérico de un producto: 3*x -> [3, x], 5 -> [5, 1]. */
+function splitCoefficient(node: ExprNode): [number, ExprNode] {
+  if (isNum(node)) return [node.value, num(1)];
+  if (node.type === "binary" && node.op === "*" && isNum(node.left)) return [node.left.value, node.right];
+  return [1, node];
+}
+
+function neg(a: ExprNode): ExprNode {
+  if (isNum(a)) return num(-a.value);
+  if (a.type === "unary" && a.op === "-") return a.argument;
+  if (a.type === "binary" && a.op === "*" && isNum(a.left)) return mul(num(-a.left.value), a.right);
+  if (a.type === "binary" && a.op === "/" && splitCoefficient(a.left)[0] !== 1) return div(neg(a.left), a.right);
+  return { type: "unary", op: "-", argument: a, pos: a.pos };
+}
+
+function binaryNode(op: BinaryOperator, left: ExprNode, right: ExprNode): ExprNode {
+  return { type: "binary", op, left, right, pos: left.pos };
+}
+
+function add(a: ExprNode, b: ExprNode): ExprNode {
+  if (isNum(a) && isNum(b)) return num(a.value + b.value);
+  if (isValue(a, 0)) return b;
+  if (isValue(b, 0)) return a;
+  if (b.type === "unary" && b.op === "-") return sub(a, b.argument);
+  if (splitCoefficient(b)[0] < 0) return sub(a, neg(b));
+  if (isNum(b) && a.type === "binary" && (a.op === "+" || a.op === "-") && isNum(a.right)) {
+    return add(a.left, num((a.op === "+" ? a.right.value : -a.right.value) + b.value));
+  }
+  if (sameNode(a, b)) return mul(num(2), a);
+  return binaryNode("+", a, b);
+}
+
+function sub(a: ExprNode, b: ExprNode): ExprNode {
+  if (isNum(a) && isNum(b)) return num(a.value - b.value);
+  if (isValue(b, 0)) return a;
+  if (isValue(a, 0)) return neg(b);
+  if (b.type === "unary" && b.op === "-") return add(a, b.argument);
+  if (isNum(b) && a.type === "binary" && (a.op === "+" || a.op === "-") && isNum(a.right)) {
+    return sub(a.left, num((a.op === "-" ? a.right.value : -a.right.value) + b.value));
+  }
+  if (sameNode(a, b)) return num(0);
+  return binaryNode("-", a, b);
+}
+
+function mul(a: ExprNode, b: ExprNode): ExprNode {
+  if (isNum(a) && isNum(b)) return num(a.value * b.value);
+  if (isValue(a, 0) || isValue(b, 0)) return num(0);
+  if (isValue(a, 1)) return b;
+  if (isValue(b, 1)) return a;
+  if (isValue(a, -1)) return neg(b);
+  if (isValue(b, -1)) return neg(a);
+  // constantes a la izquierda: x*2 -> 2*x, 2*(3*x) -> 6*x
+  if (isNum(b)) return mul(b, a);
+  if (a.type === "unary" && a.op === "-") return neg(mul(a.argument, b));
+  if (b.type === "unary" && b.op === "-") return neg(mul(a, b.argument));
+  const [ca, ra] = splitCoefficient(a);
+  const [cb, rb] = splitCoefficient(b);
+  if (isNum(a)) return cb !== 1 ? mul(num(ca * cb), rb) : binaryNode("*", a, b);
+  if (ca !== 1 || cb !== 1) return mul(num(ca * cb), mul(ra, rb));
+  if (sameNode(a, b)) return pow(a, num(2));
+  return binaryNode("*", a, b);
+}
+
+function div(a: ExprNode, b: ExprNode): ExprNode {
+  if (isNum(a) && isNum(b) && b.value !== 0) return num(a.value / b.value);
+  if (isValue(a, 0)) return num(0);
+  if (isValue(b, 1)) return a;
+  if (a.type === "unary" && a.op === "-") return neg(div(a.argument, b));
+  if (sameNode(a, b)) return num(1);
+  const [ca, ra] = splitCoefficient(a);
+  const [cb, rb] = splitCoefficient(b);
+  if (cb !== 1 && cb !== 0) return mul(num(ca / cb), div(ra, rb));
+  return binaryNode("/", a, b);
+}
+
+function pow(a: ExprNode, b: ExprNode): ExprNode {
+  if (isNum(a) && isNum(b)) return num(Math.pow(a.value, b.value));
+  if (isValue(b, 0)) return num(1);
+  if (isValue(b, 1)) return a;
+  return binaryNode("^", a, b);
+}
+
+function call(callee: string, ...args: ExprNode[]): ExprNode {
+  const spec = resolveFunction(callee);
+  if (spec && args.every((arg) => isNum(arg))) {
+    const value = spec.impl(...args.map((arg) => (arg as Extract<ExprNode, { type: "number" }>).value));
+    if (Number.isFinite(value)) return num(value);
+  }
+  return { type: "call", callee, args, pos: args[0]?.pos ?? 0 };
+}
+
+/** test ? a : b, eligiendo la rama si la condición es constante o si ambas ramas coinciden. */
+function conditional(test: ExprNode, a: ExprNode, b: ExprNode): ExprNode {
+  if (isNum(test) && !Number.isNaN(test.value)) return test.value !== 0 ? a : b;
+  if (sameNode(a, b)) return a;
+  return { type: "conditional", test, consequent: a, alternate: b, pos: test.pos };
+}
+
+/** u == 0 ? atZero : otherwise, para derivadas con un límite removible en 0. */
+function atZero(u: ExprNode, value: ExprNode, otherwise: ExprNode): ExprNode {
+  return conditional({ type: "compare", op: "==", left: u, right: num(0), pos: u.pos }, value, otherwise);
+}
+
+/** Simplifica la expresión reconstruyéndola con los constructores anteriores. */
+export function simplify(node: ExprNode): ExprNode {
+  switch (node.type) {
+    case "number":
+    case "identifier":
+      return node;
+    case "unary":
+      return node.op === "-" ? neg(simplify(node.argument)) : simplify(node.argument);
+    case "call":
+      return call(node.callee, ...node.args.map(simplify));
+    case "binary": {
+      const a = simplify(node.left);
+      const b = simplify(node.right);
+      switch (node.op) {
+        case "+":
+          return add(a, b);
+        case "-":
+          return sub(a, b);
+        case "*":
+          return mul(a, b);
+        case "/":
+          return div(a, b);
+        case "^":
+          return pow(a, b);
+        default:
+          return binaryNode(node.op, a, b);
+      }
+    }
+    case "compare":
+    case "logical":
+      return { ...node, left: simplify(node.left), right: simplify(node.right) };
+    case "not":
+      return { ...node, argument: simplify(node.argument) };
+    case "conditional":
+      return conditional(simplify(node.test), simplify(node.consequent), simplify(node.alternate));
+  }
+}
+
+/** ¿Depende `node` de la variable `name`? */
+function dependsOn(node: ExprNode, name: string): boolean {
+  switch (node.type) {
+    case "number":
+      return false;
+    case "identifier":
+      return node.name === name;
+    case "unary":
+      return dependsOn(node.argument, name);
+    case "binary":
+      return dependsOn(node.left, name) || dependsOn(node.right, name);
+    case "call":
+      return node.args.some((arg) => dependsOn(arg, name));
+    case "compare":
+    case "logical":
+      return dependsOn(node.left, name) || dependsOn(node.right, name);
+    case "not":
+      return dependsOn(node.argument, name);
+    case "conditional":
+      return dependsOn(node.test, name) || dependsOn(node.consequent, name) || dependsOn(node.alternate, name);
+  }
+}
+
+const square = (a: ExprNode) => pow(a, num(2));
+
+/** Derivada de f(u) respecto de u (regla de la cadena aplicada por el llamador). */
+function functionDerivative(node: Extract<ExprNode, { type: "call" }>, name: string): ExprNode {
+  const fn = canonicalFunctionName(node.callee);
+  const args = node.args;
+  const u = args[0];
+  const du = () => differentiate(u, name);
+  const chain = (outer: ExprNode) => mul(outer, du());
+
+  switch (fn) {
+    case "abs":
+      return chain(call("sign", u));
+    case "acos":
+      return neg(div(du(), call("sqrt", sub(num(1), square(u)))));
+    case "acosh":
+      return div(du(), call("sqrt", sub(square(u), num(1))));
+    case "asin":
+      return div(du(), call("sqrt", sub(num(1), square(u))));
+    case "asinh":
+      return div(du(), call("sqrt", add(square(u), num(1))));
+    case "atan":
+      return div(du(), add(num(1), square(u)));
+    case "atanh":
+      return div(du(), sub(num(1), square(u)));
+    case "atan2": {
+      // atan2(a, b) = ángulo de (b, a)
+      const [a, b] = args;
+      const da = differentiate(a, name);
+      const db = differentiate(b, name);
+      return div(sub(mul(b, da), mul(a, db)), add(square(a), square(b)));
+    }
+    case "cbrt":
+      return div(du(), mul(num(3), square(call("cbrt", u))));
+    case "ceil":
+    case "floor":
+    case "round":
+    case "trunc":
+    case "sign":
+    case "clz32":
+      return num(0);
+    case "fround":
+      return du();
+    case "cos":
+      return neg(chain(call("sin", u)));
+    case "cosh":
+      return chain(call("sinh", u));
+    case "exp":
+    case "expm1":
+      return chain(call("exp", u));
+    case "hypot": {
+      let numerator: ExprNode = num(0);
+      for (const arg of args) numerator = add(numerator, mul(arg, differentiate(arg, name)));
+      return div(numerator, call("hypot", ...args));
+    }
+    case "log":
+      return div(du(), u);
+    case "log10":
+      return div(du(), mul(u, call("log", num(10))));
+    case "log1p":
+      return div(du(), add(num(1), u));
+    case "log2":
+      return div(du(), mul(u, call("log", num(2))));
+    case "max":
+    case "min": {
+      if (args.length === 1) return du();
+      // max(a,b) = (a + b + |a - b|)/2, min(a,b) = (a + b - |a - b|)/2; más de dos argumentos se reducen por pares
+      const a = args.length > 2 ? call(fn, ...args.slice(0, -1)) : args[0];
+      const b = args[args.length - 1];
+      const da = differentiate(a, name);
+      const db = differentiate(b, name);
+      const jump = mul(call("sign", sub(a, b)), sub(da, db));
+      return div(fn === "max" ? add(add(da, db), jump) : sub(add(da, db), jump), num(2));
+    }
+    case "pow":
+      return differentiate(binaryNode("^", args[0], args[1]), name);
+    case "sin":
+      return chain(call("cos", u));
+    case "sinh":
+      return chain(call("cosh", u));
+    case "sqrt":
+      return div(du(), mul(num(2), call("sqrt", u)));
+    case "tan":
+      return div(du(), square(call("cos", u)));
+    case "tanh":
+      return chain(sub(num(1), square(call("tanh", u))));
+    case "cot":
+      return neg(div(du(), square(call("sin", u))));
+    case "sec":
+      return chain(mul(call("sec", u), call("tan", u)));
+    case "csc":
+      return neg(chain(mul(call("csc", u), call("cot", u))));
+    case "sech":
+      return neg(chain(mul(call("sech", u), call("tanh", u))));
+    case "csch":
+      return neg(chain(mul(call("csch", u), call("coth", u))));
+    case "coth":
+      return neg(div(du(), square(call("sinh", u))));
+    case "erf":
+      return chain(mul(num(2 / Math.sqrt(Math.PI)), call("exp", neg(square(u)))));
+    case "erfc":
+      return neg(chain(mul(num(2 / Math.sqrt(Math.PI)), call("exp", neg(square(u))))));
+    case "j0":
+      return neg(chain(call("j1", u)));
+    case "j1":
+      // J₁'(u) = J₀(u) - J₁(u)/u, que vale 1/2 en u = 0
+      return chain(atZero(u, num(0.5), sub(call("j0", u), div(call("j1", u), u))));
+    case "sinc":
+      // sinc'(u) = (cos u - sinc u)/u, que vale 0 en u = 0
+      return chain(atZero(u, num(0), div(sub(call("cos", u), call("sinc", u)), u)));
+    case "heaviside":
+      return num(0);
+    case "clamp":
+      return differentiate(call("min", call("max", args[0], args[1]), args[2]), name);
+    case "mod": {
+      // mod(a, b) = a - b floor(a/b)
+      const [a, b] = args;
+      return sub(differentiate(a, name), mul(call("floor", div(a, b)), differentiate(b, name)));
+    }
+  }
+  throw new ExpressionError(`No se conoce la derivada de '${node.callee}'`, node.pos);
+}
+
+/** Derivada simbólica ∂node/∂name, ya simplificada. */
+export function differentiate(node: ExprNode, name: string): ExprNode {
+  if (!dependsOn(node, name)) return num(0);
+
+  switch (node.type) {
+    case "number":
+      return num(0);
+    case "identifier":
+      return num(node.name === name ? 1 : 0);
+    case "unary": {
+      const d = differentiate(node.argument, name);
+      return node.op === "-" ? neg(d) : d;
+    }
+    case "call":
+      return functionDerivative(node, name);
+    case "compare":
+    case "logical":
+    case "not":
+      // 0/1 constante a trozos; el salto en la frontera no se deriva
+      return num(0);
+    case "conditional":
+      // derivada por ramas; la frontera entre ramas queda como discontinuidad
+      return conditional(node.test, differentiate(node.consequent, name), differentiate(node.alternate, name));
+    case "binary": {
+      const a = node.left;
+      const b = node.right;
+      switch (node.op) {
+        case "+":
+          return add(differentiate(a, name), differentiate(b, name));
+        case "-":
+          return sub(differentiate(a, name), differentiate(b, name));
+        case "*":
+          return add(mul(differentiate(a, name), b), mul(a, differentiate(b, name)));
+        case "/":
+          return div(sub(mul(differentiate(a, name), b), mul(a, differentiate(b, name))), square(b));
+        case "%":
+          // a % b = a - trunc(a/b)*b (trunc es localmente constante)
+          return sub(differentiate(a, name), mul(call("trunc", div(a, b)), differentiate(b, name)));
+        case "^": {
+          const baseVaries = dependsOn(a, name);
+          const expVaries = dependsOn(b, name);
+          if (baseVaries && !expVaries) {
+            // regla de la potencia: b * a^(b-1) * a'
+            return mul(mul(b, pow(a, sub(b, num(1)))), differentiate(a, name));
+          }
+          if (!baseVaries) {
+            // exponencial: a^b * ln(a) * b'
+            return mul(mul(pow(a, b), call("log", a)), differentiate(b, name));
+          }
+          // caso general: a^b * (b' ln(a) + b a'/a)
+          return mul(
+            pow(a, b),
+            add(mul(differentiate(b, name), call("log", a)), div(mul(b, differentiate(a, name)), a))
+          );
+        }
+      }
+    }
+  }
+}
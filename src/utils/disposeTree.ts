@@ -0,0 +1,11 @@
+import type * as THREE from "three";
+
+/** Libera geometrías y materiales de `root` y de todo lo que cuelga de él (no lo quita de la escena). */
+export function disposeTree(root: THREE.Object3D) {
+  root.traverse((object) => {
+    const { geometry, material } = object as THREE.Mesh;
+    geometry?.dispose();
+    if (Array.isArray(material)) material.forEach((m) => m.dispose());
+    else material?.dispose();
+  });
+}
@@ -0,0 +1,14 @@
+// Dominio de z = f(x,y) como varias restricciones h_k(x,y) ≤ 0 unidas con Y (todas a la vez) u O (alguna).
+// Se arma una sola expresión h para que siga viajando como texto hasta el worker de análisis:
+// Y es max(h1, h2, ...) ≤ 0 y O es min(h1, h2, ...) ≤ 0.
+
+export type DomainCombine = "and" | "or";
+
+/** La h combinada (≤ 0 dentro); undefined si no hay restricciones, es decir, todo el plano. */
+export function combineDomain(constraints: string[], combine: DomainCombine): string | undefined {
+  const active = constraints.map((constraint) => constraint.trim()).filter((constraint) => constraint.length > 0);
+  if (active.length === 0) return undefined;
+  if (active.length === 1) return active[0];
+  // cada restricción entre paréntesis: pueden traer comas de piecewise o de otras funciones
+  return `${combine === "and" ? "max" : "min"}(${active.map((constraint) => `(${constraint})`).join(", ")})`;
+}
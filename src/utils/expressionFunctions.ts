@@ -0,0 +1,132 @@
+// Tabla de funciones, alias y constantes admitidos en las expresiones.
+
+import {
+  besselJ0,
+  besselJ1,
+  binomial,
+  clamp,
+  erf,
+  erfc,
+  factorial,
+  gamma,
+  heaviside,
+  mod,
+  noise,
+  sinc,
+} from "./specialFunctions";
+
+export type FunctionSpec = {
+  impl: (...args: number[]) => number;
+  minArgs: number;
+  maxArgs: number;
+};
+
+const unary = (impl: (v: number) => number): FunctionSpec => ({ impl, minArgs: 1, maxArgs: 1 });
+const binary = (impl: (a: number, b: number) => number): FunctionSpec => ({ impl, minArgs: 2, maxArgs: 2 });
+const variadic = (impl: (...args: number[]) => number): FunctionSpec => ({ impl, minArgs: 1, maxArgs: Infinity });
+
+const MATH_FUNCTIONS: Record<string, FunctionSpec> = {
+  abs: unary(Math.abs),
+  acos: unary(Math.acos),
+  acosh: unary(Math.acosh),
+  asin: unary(Math.asin),
+  asinh: unary(Math.asinh),
+  atan: unary(Math.atan),
+  atan2: binary(Math.atan2),
+  atanh: unary(Math.atanh),
+  cbrt: unary(Math.cbrt),
+  ceil: unary(Math.ceil),
+  clz32: unary(Math.clz32),
+  cos: unary(Math.cos),
+  cosh: unary(Math.cosh),
+  exp: unary(Math.exp),
+  expm1: unary(Math.expm1),
+  floor: unary(Math.floor),
+  fround: unary(Math.fround),
+  hypot: variadic(Math.hypot),
+  log: unary(Math.log),
+  log10: unary(Math.log10),
+  log1p: unary(Math.log1p),
+  log2: unary(Math.log2),
+  max: variadic(Math.max),
+  min: variadic(Math.min),
+  pow: binary(Math.pow),
+  round: unary(Math.round),
+  sign: unary(Math.sign),
+  sin: unary(Math.sin),
+  sinh: unary(Math.sinh),
+  sqrt: unary(Math.sqrt),
+  tan: unary(Math.tan),
+  tanh: unary(Math.tanh),
+  trunc: unary(Math.trunc),
+};
+
+const HELPER_FUNCTIONS: Record<string, FunctionSpec> = {
+  cot: unary((v) => 1 / Math.tan(v)),
+  sec: unary((v) => 1 / Math.cos(v)),
+  csc: unary((v) => 1 / Math.sin(v)),
+  sech: unary((v) => 1 / Math.cosh(v)),
+  csch: unary((v) => 1 / Math.sinh(v)),
+  coth: unary((v) => 1 / Math.tanh(v)),
+};
+
+// funciones especiales (ver specialFunctions.ts); fuera de su dominio real devuelven NaN
+const SPECIAL_FUNCTIONS: Record<string, FunctionSpec> = {
+  gamma: unary(gamma),
+  erf: unary(erf),
+  erfc: unary(erfc),
+  j0: unary(besselJ0),
+  j1: unary(besselJ1),
+  sinc: unary(sinc),
+  heaviside: unary(heaviside),
+  clamp: { impl: clamp, minArgs: 3, maxArgs: 3 },
+  mod: binary(mod),
+  fact: unary(factorial),
+  binom: binary(binomial),
+  // noise(x, y) o noise(x, y, semilla)
+  noise: { impl: noise, minArgs: 2, maxArgs: 3 },
+};
+
+// alias de funciones comunes (en español o abreviaturas)
+const FUNCTION_ALIASES: Record<string, string> = {
+  sen: "sin",
+  ln: "log",
+  tg: "tan",
+  ctg: "cot",
+  besselj0: "j0",
+  besselj1: "j1",
+  factorial: "fact",
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  π: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+  phi: (1 + Math.sqrt(5)) / 2,
+  deg2rad: Math.PI / 180,
+  rad2deg: 180 / Math.PI,
+  // valor "indefinido": esa parte de la superficie no se dibuja (x > 0 ? sqrt(x) : nan)
+  nan: NaN,
+};
+
+/** Entrada propia de una tabla (sin heredar `constructor`, `toString`... de Object.prototype). */
+function own<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+/** Valor de una constante conocida (sin distinguir mayúsculas), o undefined. */
+export function constantValue(name: string): number | undefined {
+  return own(CONSTANTS, name.toLowerCase());
+}
+
+/** Nombre canónico (minúsculas, sin alias) de una función, p.ej. "Sen" -> "sin". */
+export function canonicalFunctionName(name: string): string {
+  const lower = name.toLowerCase();
+  return own(FUNCTION_ALIASES, lower) ?? lower;
+}
+
+export function resolveFunction(name: string): FunctionSpec | undefined {
+  const canonical = canonicalFunctionName(name);
+  return own(MATH_FUNCTIONS, canonical) ?? own(HELPER_FUNCTIONS, canonical) ?? own(SPECIAL_FUNCTIONS, canonical);
+}
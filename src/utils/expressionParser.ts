@@ -0,0 +1,590 @@
+// Tokenizador y parser (descenso recursivo) para la gramática matemática de las expresiones.
+// Nunca se genera ni ejecuta JavaScript: el resultado es un AST que se evalúa en compileExpression.
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "^";
+export type UnaryOperator = "+" | "-";
+export type CompareOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+export type LogicalOperator = "&&" | "||";
+
+export type ExprNode =
+  | { type: "number"; value: number; pos: number }
+  | { type: "identifier"; name: string; pos: number }
+  | { type: "unary"; op: UnaryOperator; argument: ExprNode; pos: number }
+  | { type: "binary"; op: BinaryOperator; left: ExprNode; right: ExprNode; pos: number }
+  | { type: "call"; callee: string; args: ExprNode[]; pos: number }
+  | { type: "compare"; op: CompareOperator; left: ExprNode; right: ExprNode; pos: number }
+  | { type: "logical"; op: LogicalOperator; left: ExprNode; right: ExprNode; pos: number }
+  | { type: "not"; argument: ExprNode; pos: number }
+  | { type: "conditional"; test: ExprNode; consequent: ExprNode; alternate: ExprNode; pos: number };
+
+/** Definición de usuario: `r = sqrt(x^2+y^2)` (variable) o `g(u) = exp(-u^2)` (función). */
+export type Definition = {
+  name: string;
+  /** null para variables; lista de parámetros para funciones */
+  params: string[] | null;
+  body: ExprNode;
+  pos: number;
+};
+
+/** Bloque de varias líneas: definiciones y, opcionalmente, una expresión final (el resultado). */
+export type Program = {
+  definitions: Definition[];
+  result: ExprNode | null;
+};
+
+/** Error de sintaxis o de compilación con la posición (0-based) del carácter que lo produjo. */
+export class ExpressionError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (posición ${position + 1})`);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
+
+// anidamiento máximo de paréntesis, llamadas, ?: y signos: más profundo desbordaría la pila del parser
+const MAX_DEPTH = 200;
+
+/** Altura máxima del árbol: compilar, derivar e imprimir lo recorren de forma recursiva. */
+export const MAX_TREE_HEIGHT = 500;
+
+export function expressionTooDeep(pos: number): ExpressionError {
+  return new ExpressionError("Expresión demasiado anidada", pos);
+}
+
+type TokenKind =
+  | "number"
+  | "identifier"
+  | "operator"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "equals"
+  | "separator"
+  | "eof";
+
+type Token = {
+  kind: TokenKind;
+  text: string;
+  pos: number;
+  value?: number;
+};
+
+const NUMBER_REGEXP = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_REGEXP = /[\p{L}_][\p{L}\p{N}_]*/uy;
+// los de dos caracteres primero, para que "<=" no se lea como "<" seguido de "="
+const OPERATORS = ["**", "<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "%", "^", "<", ">", "!", "?", ":"];
+// conectivas escritas con palabras: x > 0 and y > 0
+const KEYWORD_OPERATORS: Record<string, string> = { and: "&&", or: "||", not: "!" };
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let depth = 0; // los saltos de línea dentro de paréntesis no separan sentencias
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === ";" || (ch === "\n" && depth === 0)) {
+      tokens.push({ kind: "separator", text: ch, pos: i });
+      i += 1;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+
+    NUMBER_REGEXP.lastIndex = i;
+    const num = NUMBER_REGEXP.exec(source);
+    if (num) {
+      tokens.push({ kind: "number", text: num[0], pos: i, value: Number(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+
+    IDENTIFIER_REGEXP.lastIndex = i;
+    const ident = IDENTIFIER_REGEXP.exec(source);
+    if (ident) {
+      // solo claves propias: `constructor`, `toString`... son identificadores comunes
+      const keyword = Object.hasOwn(KEYWORD_OPERATORS, ident[0]) ? KEYWORD_OPERATORS[ident[0]] : undefined;
+      tokens.push(keyword ? { kind: "operator", text: keyword, pos: i } : { kind: "identifier", text: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    if (ch === "(") {
+      tokens.push({ kind: "lparen", text: ch, pos: i });
+      depth += 1;
+      i += 1;
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen", text: ch, pos: i });
+      depth = Math.max(0, depth - 1);
+      i += 1;
+      continue;
+    }
+    if (ch === ",") {
+      tokens.push({ kind: "comma", text: ch, pos: i });
+      i += 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (op) {
+      // ** es sinónimo de ^ (compatibilidad con la sintaxis JS anterior)
+      tokens.push({ kind: "operator", text: op === "**" ? "^" : op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    if (ch === "=") {
+      tokens.push({ kind: "equals", text: ch, pos: i });
+      i += 1;
+      continue;
+    }
+
+    throw new ExpressionError(`Carácter no permitido '${ch}'`, i);
+  }
+
+  tokens.push({ kind: "eof", text: "", pos: source.length });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  return token.kind === "eof" ? "fin de la expresión" : `'${token.text}'`;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+  private readonly tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== "eof") this.index += 1;
+    return token;
+  }
+
+  private isOperator(...ops: string[]): boolean {
+    const token = this.peek();
+    return token.kind === "operator" && ops.includes(token.text);
+  }
+
+  /** Ejecuta `parse` un nivel más adentro; lanza ExpressionError en vez de agotar la pila. */
+  private nested(pos: number, parse: () => ExprNode): ExprNode {
+    if (this.depth >= MAX_DEPTH) throw expressionTooDeep(pos);
+    this.depth += 1;
+    try {
+      return parse();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private expect(kind: TokenKind, label: string): Token {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      throw new ExpressionError(`Se esperaba ${label} y se encontró ${describe(token)}`, token.pos);
+    }
+    return this.next();
+  }
+
+  parseSingle(): ExprNode {
+    const node = this.parseConditional();
+    const rest = this.peek();
+    if (rest.kind !== "eof") {
+      throw new ExpressionError(`Símbolo inesperado ${describe(rest)}`, rest.pos);
+    }
+    checkTreeHeight(node);
+    return node;
+  }
+
+  parseProgram(): Program {
+    const definitions: Definition[] = [];
+    let result: ExprNode | null = null;
+
+    for (;;) {
+      while (this.peek().kind === "separator") this.next();
+      const start = this.peek();
+      if (start.kind === "eof") break;
+
+      if (result) {
+        throw new ExpressionError("La expresión final debe ir en la última línea", result.pos);
+      }
+
+      const header = this.definitionHeader();
+      if (header) {
+        const body = this.parseConditional();
+        checkTreeHeight(body);
+        definitions.push({ name: start.text, params: header.params, body, pos: start.pos });
+      } else {
+        result = this.parseConditional();
+        checkTreeHeight(result);
+      }
+
+      const end = this.peek();
+      if (end.kind !== "separator" && end.kind !== "eof") {
+        throw new ExpressionError(`Símbolo inesperado ${describe(end)}`, end.pos);
+      }
+    }
+
+    return { definitions, result };
+  }
+
+  /**
+   * Si la sentencia actual empieza con `nombre =` o `nombre(a, b) =`, consume la cabecera
+   * (hasta el '=') y devuelve los parámetros (null para variables). Si no, no consume nada.
+   */
+  private definitionHeader(): { params: string[] | null } | null {
+    const at = (offset: number) => this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    if (at(0).kind !== "identifier") return null;
+
+    if (at(1).kind === "equals") {
+      this.index += 2;
+      return { params: null };
+    }
+
+    if (at(1).kind !== "lparen") return null;
+    const params: string[] = [];
+    let k = 2;
+    if (at(k).kind !== "rparen") {
+      for (;;) {
+        if (at(k).kind !== "identifier") return null;
+        params.push(at(k).text);
+        k += 1;
+        if (at(k).kind === "comma") {
+          k += 1;
+          continue;
+        }
+        break;
+      }
+    }
+    if (at(k).kind !== "rparen" || at(k + 1).kind !== "equals") return null;
+    this.index += k + 2;
+    return { params };
+  }
+
+  // c ? a : b (asociativo a derecha: c1 ? a : c2 ? b : d)
+  private parseConditional(): ExprNode {
+    return this.nested(this.peek().pos, () => this.parseTernary());
+  }
+
+  private parseTernary(): ExprNode {
+    const test = this.parseOr();
+    if (!this.isOperator("?")) return test;
+    const op = this.next();
+    const consequent = this.parseConditional();
+    if (!this.isOperator(":")) {
+      const token = this.peek();
+      throw new ExpressionError(`Se esperaba ':' y se encontró ${describe(token)}`, token.pos);
+    }
+    this.next();
+    const alternate = this.parseConditional();
+    return { type: "conditional", test, consequent, alternate, pos: op.pos };
+  }
+
+  // a || b, a or b
+  private parseOr(): ExprNode {
+    let left = this.parseAnd();
+    while (this.isOperator("||")) {
+      const op = this.next();
+      const right = this.parseAnd();
+      left = { type: "logical", op: "||", left, right, pos: op.pos };
+    }
+    return left;
+  }
+
+  // a && b, a and b
+  private parseAnd(): ExprNode {
+    let left = this.parseNot();
+    while (this.isOperator("&&")) {
+      const op = this.next();
+      const right = this.parseNot();
+      left = { type: "logical", op: "&&", left, right, pos: op.pos };
+    }
+    return left;
+  }
+
+  // !a, not a (se aplica a una comparación entera: !x < 0 = !(x < 0))
+  private parseNot(): ExprNode {
+    if (this.isOperator("!")) {
+      const op = this.next();
+      const argument = this.nested(op.pos, () => this.parseNot());
+      return { type: "not", argument, pos: op.pos };
+    }
+    return this.parseComparison();
+  }
+
+  // a < b, a == b... Las cadenas a < b <= c equivalen a (a < b) && (b <= c)
+  private parseComparison(): ExprNode {
+    let left = this.parseAdditive();
+    let result: ExprNode | null = null;
+    while (this.isOperator("<", "<=", ">", ">=", "==", "!=")) {
+      const op = this.next();
+      const right = this.parseAdditive();
+      const compare: ExprNode = { type: "compare", op: op.text as CompareOperator, left, right, pos: op.pos };
+      result = result ? { type: "logical", op: "&&", left: result, right: compare, pos: op.pos } : compare;
+      left = right;
+    }
+    return result ?? left;
+  }
+
+  // a + b, a - b
+  private parseAdditive(): ExprNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator("+", "-")) {
+      const op = this.next();
+      const right = this.parseMultiplicative();
+      left = { type: "binary", op: op.text as BinaryOperator, left, right, pos: op.pos };
+    }
+    return left;
+  }
+
+  // a * b, a / b, a % b y multiplicación implícita (2x, 3(x+1), (x+1)(x-1))
+  private parseMultiplicative(): ExprNode {
+    let left = this.parseUnary();
+    for (;;) {
+      if (this.isOperator("*", "/", "%")) {
+        const op = this.next();
+        const right = this.parseUnary();
+        left = { type: "binary", op: op.text as BinaryOperator, left, right, pos: op.pos };
+        continue;
+      }
+      const token = this.peek();
+      if (token.kind === "identifier" || token.kind === "lparen") {
+        const right = this.parsePower();
+        left = { type: "binary", op: "*", left, right, pos: token.pos };
+        continue;
+      }
+      return left;
+    }
+  }
+
+  // -a, +a (menor precedencia que ^: -x^2 = -(x^2))
+  private parseUnary(): ExprNode {
+    if (this.isOperator("+", "-")) {
+      const op = this.next();
+      const argument = this.nested(op.pos, () => this.parseUnary());
+      return { type: "unary", op: op.text as UnaryOperator, argument, pos: op.pos };
+    }
+    return this.parsePower();
+  }
+
+  // a ^ b (asociativo a derecha; el exponente admite signo: 2^-x)
+  private parsePower(): ExprNode {
+    const base = this.parsePrimary();
+    if (this.isOperator("^")) {
+      const op = this.next();
+      const exponent = this.nested(op.pos, () => this.parseUnary());
+      return { type: "binary", op: "^", left: base, right: exponent, pos: op.pos };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExprNode {
+    const token = this.peek();
+
+    if (token.kind === "number") {
+      this.next();
+      return { type: "number", value: token.value ?? NaN, pos: token.pos };
+    }
+
+    if (token.kind === "identifier") {
+      this.next();
+      if (this.peek().kind === "lparen") {
+        this.next();
+        const args: ExprNode[] = [];
+        if (this.peek().kind !== "rparen") {
+          args.push(this.parseConditional());
+          while (this.peek().kind === "comma") {
+            this.next();
+            args.push(this.parseConditional());
+          }
+        }
+        this.expect("rparen", "')'");
+        if (token.text.toLowerCase() === "piecewise") return piecewise(args, token.pos);
+        return { type: "call", callee: token.text, args, pos: token.pos };
+      }
+      return { type: "identifier", name: token.text, pos: token.pos };
+    }
+
+    if (token.kind === "lparen") {
+      this.next();
+      const inner = this.parseConditional();
+      this.expect("rparen", "')'");
+      return inner;
+    }
+
+    throw new ExpressionError(`Símbolo inesperado ${describe(token)}`, token.pos);
+  }
+}
+
+/**
+ * piecewise(c1, e1, c2, e2, ..., [defecto]) se traduce a c1 ? e1 : (c2 ? e2 : ... defecto).
+ * Sin valor por defecto, fuera de todas las ramas el resultado es NaN (no se dibuja).
+ */
+function piecewise(args: ExprNode[], pos: number): ExprNode {
+  if (args.length < 2) {
+    throw new ExpressionError("'piecewise' espera al menos una condición y su valor", pos);
+  }
+  let result: ExprNode = args.length % 2 === 1 ? args[args.length - 1] : { type: "number", value: NaN, pos };
+  for (let i = args.length - (args.length % 2 === 1 ? 3 : 2); i >= 0; i -= 2) {
+    result = { type: "conditional", test: args[i], consequent: args[i + 1], alternate: result, pos: args[i].pos };
+  }
+  return result;
+}
+
+function childrenOf(node: ExprNode): ExprNode[] {
+  switch (node.type) {
+    case "number":
+    case "identifier":
+      return [];
+    case "unary":
+    case "not":
+      return [node.argument];
+    case "binary":
+    case "compare":
+    case "logical":
+      return [node.left, node.right];
+    case "call":
+      return node.args;
+    case "conditional":
+      return [node.test, node.consequent, node.alternate];
+  }
+}
+
+/**
+ * Lanza ExpressionError si el árbol supera MAX_TREE_HEIGHT. Es iterativo (una cadena a+b+c+... larga no
+ * anida pero sí hace alto el árbol) y mide una sola vez cada subárbol compartido.
+ */
+export function checkTreeHeight(root: ExprNode): void {
+  const heights = new Map<ExprNode, number>();
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack[stack.length - 1];
+    const children = childrenOf(node);
+    const pending = children.filter((child) => !heights.has(child));
+    if (pending.length > 0) {
+      stack.push(...pending);
+      continue;
+    }
+    stack.pop();
+    const height = children.reduce((max, child) => Math.max(max, heights.get(child)!), 0) + 1;
+    if (height > MAX_TREE_HEIGHT) throw expressionTooDeep(node.pos);
+    heights.set(node, height);
+  }
+}
+
+/** Convierte el texto en un AST. Lanza ExpressionError si no pertenece a la gramática. */
+export function parseExpression(source: string): ExprNode {
+  return new Parser(tokenize(source)).parseSingle();
+}
+
+/** Parsea un bloque de varias líneas (separadas por salto de línea o ';') con definiciones. */
+export function parseProgram(source: string): Program {
+  return new Parser(tokenize(source)).parseProgram();
+}
+
+const PRECEDENCE: Record<BinaryOperator | CompareOperator | LogicalOperator, number> = {
+  "||": 1,
+  "&&": 2,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "==": 4,
+  "!=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+  "^": 8,
+};
+const CONDITIONAL_PRECEDENCE = 0;
+const NOT_PRECEDENCE = 3;
+const UNARY_PRECEDENCE = 7;
+
+function precedenceOf(node: ExprNode): number {
+  if (node.type === "binary" || node.type === "compare" || node.type === "logical") return PRECEDENCE[node.op];
+  if (node.type === "conditional") return CONDITIONAL_PRECEDENCE;
+  if (node.type === "not") return NOT_PRECEDENCE;
+  if (node.type === "unary") return UNARY_PRECEDENCE;
+  if (node.type === "number" && node.value < 0) return UNARY_PRECEDENCE;
+  return 9;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return "nan";
+  if (Number.isInteger(value) && Math.abs(value) < 1e15) return String(value);
+  return String(Number(value.toPrecision(12)));
+}
+
+/** Imprime el AST con la mínima cantidad de paréntesis necesaria. */
+export function printExpression(node: ExprNode): string {
+  switch (node.type) {
+    case "number":
+      return formatNumber(node.value);
+    case "identifier":
+      return node.name;
+    case "call":
+      return `${node.callee}(${node.args.map(printExpression).join(", ")})`;
+    case "unary": {
+      const inner = printExpression(node.argument);
+      // -(a*b) se imprime como -a*b: el valor es el mismo
+      const wrap = precedenceOf(node.argument) < PRECEDENCE["*"] || /^[+-]/.test(inner);
+      return wrap ? `${node.op}(${inner})` : `${node.op}${inner}`;
+    }
+    case "binary": {
+      const prec = PRECEDENCE[node.op];
+      const rightAssoc = node.op === "^";
+      let left = printExpression(node.left);
+      let right = printExpression(node.right);
+      const lp = precedenceOf(node.left);
+      const rp = precedenceOf(node.right);
+      if (lp < prec || (rightAssoc && lp === prec)) {
+        left = `(${left})`;
+      }
+      const regroupable = node.op === "+" || (node.op === "*" && !(node.right.type === "binary" && node.right.op === "%"));
+      if (rp < prec || (!rightAssoc && rp === prec && !regroupable)) {
+        right = `(${right})`;
+      }
+      const spaced = node.op === "+" || node.op === "-";
+      return spaced ? `${left} ${node.op} ${right}` : `${left}${node.op}${right}`;
+    }
+    case "compare":
+    case "logical": {
+      // los operandos de la misma precedencia van entre paréntesis: (a < b) == c no es una cadena
+      const prec = PRECEDENCE[node.op];
+      const wrap = (child: ExprNode, strict: boolean) => {
+        const text = printExpression(child);
+        const p = precedenceOf(child);
+        return p < prec || (strict && p === prec) ? `(${text})` : text;
+      };
+      const chained = node.type === "compare";
+      return `${wrap(node.left, chained)} ${node.op} ${wrap(node.right, true)}`;
+    }
+    case "not": {
+      const inner = printExpression(node.argument);
+      // !(x > 0) en lugar de !x > 0, aunque ambos signifiquen lo mismo
+      return precedenceOf(node.argument) < UNARY_PRECEDENCE ? `!(${inner})` : `!${inner}`;
+    }
+    case "conditional": {
+      const test = printExpression(node.test);
+      const wrapTest = precedenceOf(node.test) === CONDITIONAL_PRECEDENCE;
+      return `${wrapTest ? `(${test})` : test} ? ${printExpression(node.consequent)} : ${printExpression(node.alternate)}`;
+    }
+  }
+}
@@ -0,0 +1,366 @@
+// Análisis numérico sobre la malla de z = f(x,y): estadísticas globales, puntos críticos y contornos.
+// No depende de React ni de three.js: se ejecuta dentro del worker (src/workers) y envía resultados
+// parciales a medida que avanza por franjas de filas.
+
+import {
+  compileDerivatives3,
+  tryCompileExpression2,
+  tryCompileExpression3,
+  type Definitions,
+  type Fn2,
+  type Grid,
+  type GridFn2,
+  type Parameters,
+} from "./compileExpression";
+import {
+  compileRegion,
+  insideRegion,
+  intersectMasks,
+  regionCellGrid,
+  regionGrid,
+  type PlotRegion,
+  type RegionBox,
+} from "./plotRegion";
+
+/** Expresiones y malla del Inspector; todo es clonable para enviarlo al worker. */
+export type AnalysisSource = {
+  expression: string;
+  densityExpression?: string;
+  domainExpression?: string;
+  /** restricción g(x,y) = 0 de los extremos condicionados (ver lagrange.ts) */
+  constraintExpression?: string;
+  parameters?: Parameters;
+  definitions?: Definitions;
+  /** rectángulo o región tipo I/II donde se evalúa f */
+  region: PlotRegion;
+  resolution: number;
+};
+
+export type GlobalStats = {
+  zMin: number;
+  zMax: number;
+  volume: number;
+  mass: number;
+  com: { x: number; y: number; z: number };
+};
+
+/** "degenerate": el Hessiano es singular (D ≈ 0) y el criterio de la segunda derivada no decide. */
+export type CriticalPoint = { x: number; y: number; z: number; type: "max" | "min" | "saddle" | "degenerate" };
+
+/** Segmentos de contorno en el plano z = 0, como (x1, y1, x2, y2) consecutivos. */
+export type Contours = {
+  /** un arreglo por nivel de z, de menor a mayor */
+  levels: Float32Array[];
+  /** borde del dominio (región tipo I/II y h(x,y) = 0), si hay */
+  domain: Float32Array | null;
+};
+
+/** Avance de un cálculo: `done` de `total` pasos, con el resultado acumulado hasta ahí. */
+export type Report<T> = (partial: T, done: number, total: number) => void;
+
+// filas por franja entre dos reportes de avance
+const BAND_ROWS = 16;
+// pasos de Newton por candidato (los puntos degenerados convergen despacio) y tope de puntos críticos
+const NEWTON_STEPS = 50;
+const MAX_CRITICAL = 200;
+
+/** Una función de (x, y) con sus parciales primeras y segundas. */
+export type SecondOrder = { f: Fn2; fx: Fn2; fy: Fn2; fxx: Fn2; fxy: Fn2; fyy: Fn2 };
+
+/** Parciales por diferencias centrales, para cuando no hay derivadas simbólicas. */
+export function finiteDifferences(f: Fn2, h: number): SecondOrder {
+  return {
+    f,
+    fx: (x, y) => (f(x + h, y) - f(x - h, y)) / (2 * h),
+    fy: (x, y) => (f(x, y + h) - f(x, y - h)) / (2 * h),
+    fxx: (x, y) => (f(x + h, y) - 2 * f(x, y) + f(x - h, y)) / (h * h),
+    fyy: (x, y) => (f(x, y + h) - 2 * f(x, y) + f(x, y - h)) / (h * h),
+    fxy: (x, y) => (f(x + h, y + h) - f(x + h, y - h) - f(x - h, y + h) + f(x - h, y - h)) / (4 * h * h),
+  };
+}
+
+/** f(x, y, 0) punto a punto con sus derivadas (simbólicas, o por diferencias de paso h). */
+export function graphSecondOrder(source: AnalysisSource, h: number): SecondOrder {
+  const { parameters, definitions } = source;
+  const fn = tryCompileExpression3(source.expression, parameters, definitions).fn;
+  const f: Fn2 = (x, y) => fn(x, y, 0);
+  const deriv = compileDerivatives3(source.expression, parameters, definitions);
+  if (!deriv) return finiteDifferences(f, h);
+  return {
+    f,
+    fx: (x, y) => deriv.fx(x, y, 0),
+    fy: (x, y) => deriv.fy(x, y, 0),
+    fxx: (x, y) => deriv.fxx(x, y, 0),
+    fxy: (x, y) => deriv.fxy(x, y, 0),
+    fyy: (x, y) => deriv.fyy(x, y, 0),
+  };
+}
+
+/** Caja de la región y máscara ≤ 0 que combina la región con el dominio h(x,y) ≤ 0. */
+export function analysisDomain(source: AnalysisSource): { box: RegionBox; mask: GridFn2 | null } {
+  const { parameters, definitions } = source;
+  const region = compileRegion(source.region, parameters, definitions);
+  const dom = tryCompileExpression2(source.domainExpression, parameters, definitions).grid;
+  return { box: region.box, mask: intersectMasks(dom, region.mask) };
+}
+
+/** Filas [j0, j1) de `grid` como una malla propia. */
+function bandGrid(grid: Grid, j0: number, j1: number): Grid {
+  return { ...grid, y0: grid.y0 + j0 * grid.dy, ny: j1 - j0 };
+}
+
+/** Rango de z, volumen de z⁺, masa con densidad σ y centro de masa, restringidos a la región y al dominio h ≤ 0. */
+export function computeGlobalStats(source: AnalysisSource, report: Report<GlobalStats>): GlobalStats {
+  const { parameters, definitions } = source;
+  const f = tryCompileExpression3(source.expression, parameters, definitions).grid;
+  const dens = tryCompileExpression2(source.densityExpression, parameters, definitions).grid;
+  const { box, mask: dom } = analysisDomain(source);
+
+  const N = Math.max(16, Math.min(200, source.resolution));
+  const cells = regionCellGrid(box, N);
+  const dA = cells.dx * cells.dy;
+
+  let zMin = Infinity,
+    zMax = -Infinity;
+  let vol = 0; // ∫ max(f,0) dA dentro del dominio
+  let mass = 0; // ∫ σ * max(f,0) dA dentro del dominio
+  let mx = 0,
+    my = 0,
+    mz = 0;
+
+  const snapshot = (): GlobalStats => ({
+    zMin: Number.isFinite(zMin) ? zMin : NaN,
+    zMax: Number.isFinite(zMax) ? zMax : NaN,
+    volume: vol,
+    mass,
+    com: mass > 0 ? { x: mx / mass, y: my / mass, z: mz / mass } : { x: NaN, y: NaN, z: NaN },
+  });
+
+  for (let j0 = 0; j0 < N; j0 += BAND_ROWS) {
+    const band = bandGrid(cells, j0, Math.min(N, j0 + BAND_ROWS));
+    const zValues = f(band, 0);
+    const sigmaValues = dens ? dens(band) : null;
+    const hValues = dom ? dom(band) : null;
+
+    for (let j = 0; j < band.ny; j++) {
+      const y = band.y0 + j * band.dy;
+      for (let i = 0; i < N; i++) {
+        const k = i + N * j;
+        if (hValues && !(hValues[k] <= 0)) continue;
+
+        const z = zValues[k];
+        if (!Number.isFinite(z)) continue;
+        const x = band.x0 + i * band.dx;
+        zMin = Math.min(zMin, z);
+        zMax = Math.max(zMax, z);
+        const h = Math.max(0, z);
+        const sigma = sigmaValues ? sigmaValues[k] : 1;
+        const dV = h * dA;
+        const dM = sigma * dV;
+
+        vol += dV;
+        mass += dM;
+        mx += x * dM;
+        my += y * dM;
+        mz += h * h * 0.5 * sigma * dA; // z medio local = h/2
+      }
+    }
+    report(snapshot(), j0 + band.ny, N);
+  }
+  return snapshot();
+}
+
+/**
+ * Puntos críticos de f: los nodos de la malla donde |∇f| es casi nulo o donde fx y fy cambian de signo
+ * entre los vecinos son candidatos, cada uno se refina
+ * con Newton sobre ∇f = 0 y los que caen en el mismo punto se agrupan. Se clasifican con el Hessiano
+ * (máximo, mínimo, silla o degenerado). Usa derivadas simbólicas si existen; si no, diferencias finitas.
+ */
+export function scanExtrema(source: AnalysisSource, report: Report<CriticalPoint[]>): CriticalPoint[] {
+  const { parameters, definitions } = source;
+  const f = tryCompileExpression3(source.expression, parameters, definitions).grid;
+  const { box, mask: dom } = analysisDomain(source);
+  const deriv = compileDerivatives3(source.expression, parameters, definitions);
+
+  const Nx = Math.max(24, Math.min(120, source.resolution));
+  const scanGrid = regionGrid(box, Nx);
+  const nx = scanGrid.nx;
+  const dx = scanGrid.dx;
+  const dy = scanGrid.dy;
+  const halfSpan = Math.max(box.xMax - box.xMin, box.yMax - box.yMin) / 2;
+  const epsGrad = 1e-2 * Math.max(1, halfSpan); // umbral suave
+  const point = graphSecondOrder(source, Math.min(dx, dy) / 4);
+  // dos candidatos que convergen a menos de media celda son el mismo punto crítico
+  const cluster = Math.min(dx, dy) / 2;
+
+  const found: CriticalPoint[] = [];
+
+  // la malla tiene Nx + 1 nodos por lado: se recorren las filas interiores 1..Nx-1 por franjas; el
+  // gradiente se toma también en la fila vecina a cada lado (y las diferencias finitas necesitan una más)
+  for (let j0 = 1; j0 < nx - 1 && found.length < MAX_CRITICAL; j0 += BAND_ROWS) {
+    const j1 = Math.min(nx - 1, j0 + BAND_ROWS);
+    const band = bandGrid(scanGrid, j0 - 1, j1 + 1);
+    const H = dom ? dom(band) : null;
+    let Gx: Float64Array;
+    let Gy: Float64Array;
+    if (deriv) {
+      Gx = deriv.grid.fx(band, 0);
+      Gy = deriv.grid.fy(band, 0);
+    } else {
+      const F = f(bandGrid(scanGrid, j0 - 2, j1 + 2), 0);
+      Gx = new Float64Array(band.nx * band.ny).fill(NaN);
+      Gy = new Float64Array(band.nx * band.ny).fill(NaN);
+      for (let k = 0; k < Gx.length; k++) {
+        const i = k % nx;
+        if (i === 0 || i === Nx) continue;
+        const kF = k + nx; // F empieza una fila antes
+        Gx[k] = (F[kF + 1] - F[kF - 1]) / (2 * dx);
+        Gy[k] = (F[kF + nx] - F[kF - nx]) / (2 * dy);
+      }
+    }
+    // ¿toma la componente valores ≤ 0 y ≥ 0 entre el nodo k y sus 8 vecinos?
+    const changesSign = (G: Float64Array, k: number) => {
+      let below = false;
+      let above = false;
+      for (const dj of [-nx, 0, nx]) {
+        for (const di of [-1, 0, 1]) {
+          const v = G[k + dj + di];
+          below ||= v <= 0;
+          above ||= v >= 0;
+        }
+      }
+      return below && above;
+    };
+
+    for (let j = j0; j < j1; j++) {
+      const y = box.yMin + j * dy;
+      for (let i = 1; i < nx - 1 && found.length < MAX_CRITICAL; i++) {
+        const x = box.xMin + i * dx;
+        const k = i + nx * (j - j0 + 1);
+        if (H && !(H[k] <= 0)) continue;
+
+        const gnorm = Math.hypot(Gx[k], Gy[k]);
+        if (!Number.isFinite(gnorm)) continue;
+        if (gnorm > epsGrad && !(changesSign(Gx, k) && changesSign(Gy, k))) continue;
+
+        const refined = refineCritical(point, x, y, epsGrad);
+        if (!refined || !insideRegion({ box, mask: dom }, refined.x, refined.y)) continue;
+        if (found.some((p) => Math.hypot(p.x - refined.x, p.y - refined.y) < cluster)) continue;
+        found.push(refined);
+      }
+    }
+    report(found.slice(), j1 - 1, nx - 2);
+  }
+  return found;
+}
+
+/**
+ * Newton sobre ∇f = 0 desde (x0, y0); null si no llega a un punto con ∇f ≈ 0. Si el Hessiano se vuelve
+ * singular se detiene donde está (pasa en los puntos degenerados, a los que Newton se acerca despacio).
+ */
+function refineCritical(f: SecondOrder, x0: number, y0: number, epsGrad: number): CriticalPoint | null {
+  let x = x0;
+  let y = y0;
+  for (let step = 0; step < NEWTON_STEPS; step++) {
+    const fx = f.fx(x, y);
+    const fy = f.fy(x, y);
+    const fxx = f.fxx(x, y);
+    const fxy = f.fxy(x, y);
+    const fyy = f.fyy(x, y);
+    const D = fxx * fyy - fxy * fxy;
+    if (!(Math.abs(D) > 1e-300)) break;
+    const sx = (fy * fxy - fx * fyy) / D;
+    const sy = (fx * fxy - fy * fxx) / D;
+    if (!Number.isFinite(sx) || !Number.isFinite(sy)) return null;
+    x += sx;
+    y += sy;
+    if (Math.hypot(sx, sy) <= 1e-13 * (1 + Math.hypot(x, y))) break;
+  }
+
+  const z = f.f(x, y);
+  if (!Number.isFinite(z) || !(Math.hypot(f.fx(x, y), f.fy(x, y)) <= 1e-6 * epsGrad)) return null;
+  const fxx = f.fxx(x, y);
+  const fxy = f.fxy(x, y);
+  const fyy = f.fyy(x, y);
+  const D = fxx * fyy - fxy * fxy;
+  if (!Number.isFinite(D)) return null;
+  // D ≈ 0 frente a las entradas del Hessiano, o un Hessiano casi nulo para la escala de f
+  const entries = fxx * fxx + 2 * fxy * fxy + fyy * fyy;
+  const degenerate = Math.abs(D) <= 1e-6 * entries || Math.sqrt(entries) <= 1e-6 * (1 + Math.abs(z));
+  const type = degenerate ? "degenerate" : D < 0 ? "saddle" : fxx < 0 ? "max" : "min";
+  return { x, y, z, type };
+}
+
+/**
+ * Marching squares sobre los valores de una malla (índice i + nx·j). Los NaN cuentan como "por
+ * debajo" del nivel. Devuelve los segmentos como (x1, y1, x2, y2) consecutivos.
+ */
+export function marchingSquares(values: ArrayLike<number>, grid: Grid, level: number): Float32Array {
+  const { x0, y0, dx, dy, nx, ny } = grid;
+  const segs: number[] = [];
+  const v = (i: number, j: number) => values[i + nx * j] - level;
+
+  const pts: number[] = [];
+  const edge = (xA: number, yA: number, vA: number, xB: number, yB: number, vB: number) => {
+    if (vA > 0 === vB > 0) return;
+    const t = vA === vB ? 0.5 : vA / (vA - vB);
+    pts.push(xA + t * (xB - xA), yA + t * (yB - yA));
+  };
+
+  for (let i = 0; i < nx - 1; i++) {
+    for (let j = 0; j < ny - 1; j++) {
+      const xA = x0 + i * dx;
+      const yA = y0 + j * dy;
+      const xB = xA + dx;
+      const yB = yA + dy;
+
+      const f00 = v(i, j);
+      const f10 = v(i + 1, j);
+      const f11 = v(i + 1, j + 1);
+      const f01 = v(i, j + 1);
+
+      // aristas: (00-10), (10-11), (11-01), (01-00)
+      pts.length = 0;
+      edge(xA, yA, f00, xB, yA, f10);
+      edge(xB, yA, f10, xB, yB, f11);
+      edge(xB, yB, f11, xA, yB, f01);
+      edge(xA, yB, f01, xA, yA, f00);
+      // 2 cortes: un segmento; 4 cortes (caso ambiguo): dos segmentos
+      if (pts.length === 4 || pts.length === 8) segs.push(...pts);
+    }
+  }
+  return new Float32Array(segs);
+}
+
+// niveles de contorno entre zMin y zMax
+const CONTOUR_LEVELS = 10;
+
+/** Curvas de nivel de f en la malla del visor (fuera del dominio no hay contorno) y el borde del dominio. */
+export function extractContours(source: AnalysisSource, report: Report<Contours>): Contours {
+  const { parameters, definitions } = source;
+  const f = tryCompileExpression3(source.expression, parameters, definitions).grid;
+  const { box, mask: dom } = analysisDomain(source);
+
+  const meshGrid = regionGrid(box, Math.max(8, source.resolution));
+  const zValues = f(meshGrid, 0);
+  const hValues = dom ? dom(meshGrid) : null;
+  let zMin = Infinity;
+  let zMax = -Infinity;
+  for (let k = 0; k < zValues.length; k++) {
+    if (hValues && !(hValues[k] <= 0)) zValues[k] = NaN;
+    const z = zValues[k];
+    if (Number.isFinite(z)) {
+      zMin = Math.min(zMin, z);
+      zMax = Math.max(zMax, z);
+    }
+  }
+
+  const result: Contours = { levels: [], domain: hValues && marchingSquares(hValues, meshGrid, 0) };
+  if (!Number.isFinite(zMin)) return result;
+  for (let k = 1; k < CONTOUR_LEVELS; k++) {
+    const level = zMin + (k * (zMax - zMin)) / CONTOUR_LEVELS;
+    result.levels.push(marchingSquares(zValues, meshGrid, level));
+    report(result, k, CONTOUR_LEVELS - 1);
+  }
+  return result;
+}
@@ -0,0 +1,176 @@
+// Malla de la superficie de nivel F(x,y,z) = c por marching cubes sobre una grilla 3D muestreada.
+// Es el análogo 3D de marchingSquares (gridAnalysis): F se evalúa por lotes corte a corte en z y las
+// normales salen de ∇F en cada vértice, no de los triángulos.
+
+import { edgeTable, triTable } from "three/examples/jsm/objects/MarchingCubes.js";
+import {
+  EVALUATION_BUDGET_MS,
+  EvaluationBudgetError,
+  squareGrid,
+  type ImplicitFunction,
+} from "./compileExpression";
+import type { Vec3 } from "./parametricMesh";
+
+// las tablas clásicas de Bourke: edgeTable[caso] marca las aristas cortadas y triTable (16 por caso,
+// terminadas en -1) las agrupa en triángulos; los tipos de three las declaran mal como Int32Array[]
+const EDGES = edgeTable as unknown as Int32Array;
+const TRIANGLES = triTable as unknown as Int32Array;
+
+// esquinas del cubo (dx, dy, dz) en el orden de las tablas
+const CORNERS = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [1, 1, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+  [1, 0, 1],
+  [1, 1, 1],
+  [0, 1, 1],
+];
+// aristas como pares de esquinas
+const CUBE_EDGES = [
+  [0, 1],
+  [1, 2],
+  [3, 2],
+  [0, 3],
+  [4, 5],
+  [5, 6],
+  [7, 6],
+  [4, 7],
+  [0, 4],
+  [1, 5],
+  [2, 6],
+  [3, 7],
+];
+
+/** Superficie implícita tal como la describe el usuario; x, y recorren [-range, range]. */
+export type ImplicitSource = {
+  expression: string;
+  /** nivel c de F(x,y,z) = c */
+  level: number;
+  zMin: number;
+  zMax: number;
+  /** celdas por eje de la grilla 3D */
+  cells: number;
+};
+
+export type ImplicitMesh = {
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: number[];
+  zMin: number;
+  zMax: number;
+};
+
+/** ∇F en (x, y, z): simbólico si existe, si no diferencias centrales con paso h. */
+export function implicitGradient(implicit: ImplicitFunction, x: number, y: number, z: number, h = 1e-4): Vec3 {
+  if (implicit.gradient) {
+    return [implicit.gradient.x(x, y, z), implicit.gradient.y(x, y, z), implicit.gradient.z(x, y, z)];
+  }
+  const f = implicit.fn;
+  return [
+    (f(x + h, y, z) - f(x - h, y, z)) / (2 * h),
+    (f(x, y + h, z) - f(x, y - h, z)) / (2 * h),
+    (f(x, y, z + h) - f(x, y, z - h)) / (2 * h),
+  ];
+}
+
+/**
+ * Extrae F = level en la caja [-range, range]² × [zMin, zMax]. Lanza EvaluationBudgetError si el
+ * muestreo completo supera el presupuesto de una pasada.
+ */
+export function buildImplicitMesh(implicit: ImplicitFunction, source: ImplicitSource, range: number): ImplicitMesh {
+  const cells = Math.max(2, Math.round(source.cells));
+  const slice = squareGrid(range, cells);
+  const n = cells + 1;
+  const dz = (source.zMax - source.zMin) / cells;
+  const level = source.level;
+
+  // F - c en los n³ puntos, corte a corte (índice i + n·j + n²·k)
+  const values = new Float64Array(n * n * n);
+  const start = performance.now();
+  for (let k = 0; k < n; k++) {
+    implicit.grid(slice, source.zMin + k * dz, values.subarray(k * n * n, (k + 1) * n * n));
+    if (performance.now() - start > EVALUATION_BUDGET_MS) throw new EvaluationBudgetError();
+  }
+  for (let p = 0; p < values.length; p++) values[p] -= level;
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  // vértice ya creado sobre cada arista de la grilla (3 por punto: +x, +y, +z), para compartirlo
+  const edgeVertex = new Int32Array(3 * values.length).fill(-1);
+  const pointAt = (i: number, j: number, k: number) => i + n * j + n * n * k;
+
+  const vertexOn = (i: number, j: number, k: number, edge: number): number => {
+    const [a, b] = CUBE_EDGES[edge];
+    const [ai, aj, ak] = CORNERS[a];
+    const [bi, bj, bk] = CORNERS[b];
+    const pa = pointAt(i + ai, j + aj, k + ak);
+    const pb = pointAt(i + bi, j + bj, k + bk);
+    const axis = bi !== ai ? 0 : bj !== aj ? 1 : 2;
+    const key = 3 * pa + axis;
+    if (edgeVertex[key] >= 0) return edgeVertex[key];
+
+    const va = values[pa];
+    const vb = values[pb];
+    const s = va === vb ? 0.5 : va / (va - vb);
+    const x = slice.x0 + (i + ai + s * (bi - ai)) * slice.dx;
+    const y = slice.y0 + (j + aj + s * (bj - aj)) * slice.dy;
+    const z = source.zMin + (k + ak + s * (bk - ak)) * dz;
+    edgeVertex[key] = positions.length / 3;
+    positions.push(x, y, z);
+    return edgeVertex[key];
+  };
+
+  const corner = new Float64Array(8);
+  const cubeVertices = new Int32Array(12);
+  for (let k = 0; k < cells; k++) {
+    for (let j = 0; j < cells; j++) {
+      for (let i = 0; i < cells; i++) {
+        let caseIndex = 0;
+        let defined = true;
+        for (let c = 0; c < 8; c++) {
+          const [ci, cj, ck] = CORNERS[c];
+          corner[c] = values[pointAt(i + ci, j + cj, k + ck)];
+          if (!Number.isFinite(corner[c])) defined = false;
+          if (corner[c] < 0) caseIndex |= 1 << c;
+        }
+        // un cubo con esquinas indefinidas no se triangula (como los vértices NaN en z = f(x,y))
+        if (!defined) continue;
+        const edges = EDGES[caseIndex];
+        if (edges === 0) continue;
+        for (let e = 0; e < 12; e++) {
+          if (edges & (1 << e)) cubeVertices[e] = vertexOn(i, j, k, e);
+        }
+        // la tabla orienta los triángulos hacia F decreciente; se invierten para que miren hacia ∇F
+        for (let t = 16 * caseIndex; TRIANGLES[t] !== -1; t += 3) {
+          indices.push(cubeVertices[TRIANGLES[t]], cubeVertices[TRIANGLES[t + 2]], cubeVertices[TRIANGLES[t + 1]]);
+        }
+      }
+    }
+  }
+
+  // normales: ∇F normalizado (simbólico, o diferencias centrales de medio paso de la grilla)
+  const count = positions.length / 3;
+  const normals = new Float32Array(count * 3);
+  const h = 0.5 * Math.min(slice.dx, Math.abs(dz) || slice.dx);
+  let zMin = Infinity;
+  let zMax = -Infinity;
+  for (let v = 0; v < count; v++) {
+    const x = positions[3 * v];
+    const y = positions[3 * v + 1];
+    const z = positions[3 * v + 2];
+    zMin = Math.min(zMin, z);
+    zMax = Math.max(zMax, z);
+    const [gx, gy, gz] = implicitGradient(implicit, x, y, z, h);
+    const norm = Math.hypot(gx, gy, gz);
+    // en puntos singulares (∇F = 0, p.ej. el vértice de un cono) queda una normal nula
+    if (norm > 0 && Number.isFinite(norm)) {
+      normals[3 * v] = gx / norm;
+      normals[3 * v + 1] = gy / norm;
+      normals[3 * v + 2] = gz / norm;
+    }
+  }
+
+  return { positions: new Float32Array(positions), normals, indices, zMin, zMax };
+}
@@ -0,0 +1,167 @@
+// Extremos condicionados de z = f(x,y) sobre la curva g(x,y) = 0 (multiplicadores de Lagrange). Se traza
+// g = 0 con marching squares, se buscan en la curva los cambios de signo de fx·gy − fy·gx (donde ∇f ∥ ∇g)
+// y cada candidato se refina con Newton sobre el sistema ∇f = λ∇g, g = 0. Como gridAnalysis, corre en el
+// worker y envía resultados parciales.
+
+import { compileDerivatives2, tryCompileExpression2 } from "./compileExpression";
+import {
+  analysisDomain,
+  finiteDifferences,
+  graphSecondOrder,
+  marchingSquares,
+  type AnalysisSource,
+  type Report,
+  type SecondOrder,
+} from "./gridAnalysis";
+import { insideRegion, regionGrid } from "./plotRegion";
+
+export type ConstrainedPoint = {
+  x: number;
+  y: number;
+  /** multiplicador: ∇f = λ∇g */
+  lambda: number;
+  z: number;
+  /** por el signo del hessiano orlado; "inconclusive" si su determinante se anula */
+  type: "max" | "min" | "inconclusive";
+};
+
+export type ConstrainedExtrema = {
+  /** la curva g = 0 dentro de la región y del dominio, como (x1, y1, x2, y2) consecutivos */
+  curve: Float32Array;
+  /** de mayor a menor f */
+  points: ConstrainedPoint[];
+};
+
+// pasos de Newton por candidato y tope de puntos distintos (g = 0 podría ser una curva de nivel de f)
+const NEWTON_STEPS = 40;
+const MAX_POINTS = 200;
+// segmentos de la curva entre dos reportes de avance
+const SEGMENT_BATCH = 256;
+
+/** Solución de A·v = b (3 × 3) por eliminación con pivoteo parcial; null si A es singular. */
+function solve3(A: number[][], b: number[]): number[] | null {
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    if (!(Math.abs(m[pivot][col]) > 1e-300)) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < 3; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < 4; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const v = [0, 0, 0];
+  for (let row = 2; row >= 0; row--) {
+    let sum = m[row][3];
+    for (let k = row + 1; k < 3; k++) sum -= m[row][k] * v[k];
+    v[row] = sum / m[row][row];
+  }
+  return v;
+}
+
+/**
+ * Newton sobre F(x, y, λ) = (fx − λ·gx, fy − λ·gy, g) desde un punto de la curva; null si no converge a
+ * una solución del sistema. La clasificación usa el hessiano orlado de L = f − λg.
+ */
+function refine(f: SecondOrder, g: SecondOrder, x0: number, y0: number, scale: number): ConstrainedPoint | null {
+  let x = x0;
+  let y = y0;
+  const gradG = Math.hypot(g.fx(x, y), g.fy(x, y));
+  let lambda = (f.fx(x, y) * g.fx(x, y) + f.fy(x, y) * g.fy(x, y)) / (gradG * gradG);
+  if (!Number.isFinite(lambda)) return null;
+  const hessianL = () => [
+    f.fxx(x, y) - lambda * g.fxx(x, y),
+    f.fxy(x, y) - lambda * g.fxy(x, y),
+    f.fyy(x, y) - lambda * g.fyy(x, y),
+  ];
+
+  for (let step = 0; step < NEWTON_STEPS; step++) {
+    const gx = g.fx(x, y);
+    const gy = g.fy(x, y);
+    const [lxx, lxy, lyy] = hessianL();
+    const residual = [f.fx(x, y) - lambda * gx, f.fy(x, y) - lambda * gy, g.f(x, y)];
+    const delta = solve3(
+      [
+        [lxx, lxy, -gx],
+        [lxy, lyy, -gy],
+        [gx, gy, 0],
+      ],
+      residual.map((r) => -r)
+    );
+    if (!delta || !delta.every(Number.isFinite)) return null;
+    x += delta[0];
+    y += delta[1];
+    lambda += delta[2];
+    if (Math.hypot(delta[0], delta[1]) <= 1e-13 * scale) break;
+  }
+
+  // se acepta solo si de verdad resuelve el sistema
+  const fx = f.fx(x, y);
+  const fy = f.fy(x, y);
+  const gx = g.fx(x, y);
+  const gy = g.fy(x, y);
+  const onCurve = Math.abs(g.f(x, y)) <= 1e-8 * (1 + Math.hypot(gx, gy) * scale);
+  const parallel = Math.hypot(fx - lambda * gx, fy - lambda * gy) <= 1e-6 * (1 + Math.hypot(fx, fy));
+  const z = f.f(x, y);
+  if (!onCurve || !parallel || !Number.isFinite(z)) return null;
+
+  // hessiano orlado [[0, gx, gy], [gx, Lxx, Lxy], [gy, Lxy, Lyy]]: det > 0 máximo, det < 0 mínimo
+  const [lxx, lxy, lyy] = hessianL();
+  const det = -gx * gx * lyy + 2 * gx * gy * lxy - gy * gy * lxx;
+  const size = (gx * gx + gy * gy) * (Math.abs(lxx) + Math.abs(lxy) + Math.abs(lyy));
+  const type = !Number.isFinite(det) || Math.abs(det) <= 1e-9 * size ? "inconclusive" : det > 0 ? "max" : "min";
+  return { x, y, lambda, z, type };
+}
+
+/** Curva g = 0 en la malla del visor y los extremos de f sobre ella (dentro de la región y del dominio h ≤ 0). */
+export function solveLagrange(source: AnalysisSource, report: Report<ConstrainedExtrema>): ConstrainedExtrema {
+  const { parameters, definitions } = source;
+  const g2 = tryCompileExpression2(source.constraintExpression, parameters, definitions);
+  const { box, mask } = analysisDomain(source);
+  const result: ConstrainedExtrema = { curve: new Float32Array(0), points: [] };
+  if (!g2.fn || !g2.grid) return result;
+
+  const scale = Math.max(box.xMax - box.xMin, box.yMax - box.yMin);
+  const h = Math.max(1e-5, scale / 2000);
+  const f = graphSecondOrder(source, h);
+  const dg = compileDerivatives2(source.constraintExpression, parameters, definitions);
+  const g: SecondOrder = dg ? { ...dg, f: g2.fn } : finiteDifferences(g2.fn, h);
+
+  // g = 0 en la malla; fuera de la región o del dominio g vale NaN y esos segmentos se descartan
+  const meshGrid = regionGrid(box, Math.max(8, source.resolution));
+  const gValues = g2.grid(meshGrid);
+  if (mask) {
+    const hValues = mask(meshGrid);
+    for (let k = 0; k < gValues.length; k++) if (!(hValues[k] <= 0)) gValues[k] = NaN;
+  }
+  const raw = marchingSquares(gValues, meshGrid, 0);
+  const kept: number[] = [];
+  for (let k = 0; k < raw.length; k += 4) {
+    const segment = raw.subarray(k, k + 4);
+    if (segment.every(Number.isFinite)) kept.push(...segment);
+  }
+  result.curve = new Float32Array(kept);
+
+  // candidatos: cambios de signo de fx·gy − fy·gx entre los extremos de cada segmento
+  const phi = (x: number, y: number) => f.fx(x, y) * g.fy(x, y) - f.fy(x, y) * g.fx(x, y);
+  const segments = result.curve.length / 4;
+  for (let s = 0; s < segments && result.points.length < MAX_POINTS; s++) {
+    const [x1, y1, x2, y2] = result.curve.subarray(4 * s, 4 * s + 4);
+    const p1 = phi(x1, y1);
+    const p2 = phi(x2, y2);
+    if (p1 * p2 <= 0) {
+      const t = p1 === p2 ? 0.5 : p1 / (p1 - p2);
+      const point = refine(f, g, x1 + t * (x2 - x1), y1 + t * (y2 - y1), scale);
+      const seen = (other: ConstrainedPoint) => point && Math.hypot(other.x - point.x, other.y - point.y) < 1e-6 * scale;
+      if (point && insideRegion({ box, mask }, point.x, point.y) && !result.points.some(seen)) {
+        result.points.push(point);
+      }
+    }
+    if ((s + 1) % SEGMENT_BATCH === 0) {
+      report({ curve: result.curve, points: [...result.points].sort((a, b) => b.z - a.z) }, s + 1, segments);
+    }
+  }
+  result.points.sort((a, b) => b.z - a.z);
+  return result;
+}
@@ -0,0 +1,94 @@
+// Detección de saltos en funciones a trozos (c ? a : b, piecewise...) para las mallas z = f(x,y).
+// Un triángulo cuyos vértices caen en ramas distintas solo se dibuja si la función es continua
+// en la frontera; si hay salto se omite y la discontinuidad se ve como un corte, no como una pared.
+
+import type { Fn3 } from "./compileExpression";
+
+// bisecciones para acercarse a la frontera entre ramas (la arista se reduce 2^20 veces)
+const BISECTION_STEPS = 20;
+
+/**
+ * ¿Salta f a lo largo del segmento (ax, ay)-(bx, by)? Busca por bisección el punto donde cambia
+ * la rama y compara f a ambos lados: para una función continua la diferencia es despreciable
+ * frente a la variación total entre los extremos.
+ */
+export function hasJump(
+  f: Fn3,
+  branch: Fn3,
+  t: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+): boolean {
+  const start = branch(ax, ay, t);
+  if (start === branch(bx, by, t)) return false;
+
+  let lo = 0;
+  let hi = 1;
+  for (let k = 0; k < BISECTION_STEPS; k++) {
+    const mid = (lo + hi) / 2;
+    if (branch(ax + (bx - ax) * mid, ay + (by - ay) * mid, t) === start) lo = mid;
+    else hi = mid;
+  }
+
+  const zLo = f(ax + (bx - ax) * lo, ay + (by - ay) * lo, t);
+  const zHi = f(ax + (bx - ax) * hi, ay + (by - ay) * hi, t);
+  if (!Number.isFinite(zLo) || !Number.isFinite(zHi)) return true;
+  const za = f(ax, ay, t);
+  const zb = f(bx, by, t);
+  const tolerance = 0.01 * Math.abs(zb - za) + 1e-6 * (1 + Math.abs(za) + Math.abs(zb));
+  return Math.abs(zHi - zLo) > tolerance;
+}
+
+/**
+ * Prepara la comprobación de saltos para una malla cuyos vértices están en `positions` (x, y, z
+ * consecutivos). Devuelve `(p, q) => boolean` para la arista entre los vértices p y q.
+ */
+export function createJumpTest(
+  f: Fn3,
+  branch: Fn3 | null,
+  t: number,
+  positions: ArrayLike<number>
+): (p: number, q: number) => boolean {
+  if (!branch) return () => false;
+  // firma de cada vértice, calculada una sola vez (NaN = aún no calculada)
+  const signatures = new Float64Array(positions.length / 3).fill(NaN);
+  const signature = (p: number) => {
+    if (Number.isNaN(signatures[p])) signatures[p] = branch(positions[3 * p], positions[3 * p + 1], t);
+    return signatures[p];
+  };
+  return (p, q) =>
+    signature(p) !== signature(q) &&
+    hasJump(f, branch, t, positions[3 * p], positions[3 * p + 1], positions[3 * q], positions[3 * q + 1]);
+}
+
+/**
+ * Índices de los triángulos de una malla de (cols + 1) × (rows + 1) vértices por filas: cada celda se
+ * parte por la diagonal b-d y un triángulo se dibuja si sus tres vértices son válidos y ninguna de sus
+ * aristas cruza un salto según `jump`.
+ */
+export function gridIndices(
+  validity: Uint8Array,
+  jump: (p: number, q: number) => boolean,
+  cols: number,
+  rows: number
+): number[] {
+  const indices: number[] = [];
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const a = i + (cols + 1) * j;
+      const b = i + (cols + 1) * (j + 1);
+      const c = i + 1 + (cols + 1) * (j + 1);
+      const d = i + 1 + (cols + 1) * j;
+      const bdJump = validity[b] && validity[d] && jump(b, d);
+      if (validity[a] && validity[b] && validity[d] && !bdJump && !jump(a, b) && !jump(a, d)) {
+        indices.push(a, b, d);
+      }
+      if (validity[b] && validity[c] && validity[d] && !bdJump && !jump(b, c) && !jump(c, d)) {
+        indices.push(b, c, d);
+      }
+    }
+  }
+  return indices;
+}
@@ -0,0 +1,21 @@
+import type { Parameters } from "./compileExpression";
+
+/** Configuración del slider de un parámetro libre. */
+export type ParameterSetting = {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export const DEFAULT_PARAMETER_SETTING: ParameterSetting = { value: 1, min: -5, max: 5, step: 0.1 };
+
+/** Configuración de `name`, o la de por defecto (solo claves propias: un parámetro puede llamarse `constructor`). */
+export function parameterSetting(settings: Record<string, ParameterSetting>, name: string): ParameterSetting {
+  return Object.hasOwn(settings, name) ? settings[name] : DEFAULT_PARAMETER_SETTING;
+}
+
+/** Valores actuales de los parámetros `names` (los que no tienen configuración usan el valor por defecto). */
+export function parameterValues(names: string[], settings: Record<string, ParameterSetting>): Parameters {
+  return Object.fromEntries(names.map((name) => [name, parameterSetting(settings, name).value]));
+}
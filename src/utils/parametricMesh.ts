@@ -0,0 +1,166 @@
+// Malla y geometría diferencial de superficies paramétricas r(u,v,t) = (x, y, z).
+// Igual que gridAnalysis, no depende de three.js: devuelve arreglos listos para un BufferGeometry.
+
+import {
+  boxGrid,
+  COMPONENTS,
+  tryCompileCoordinates,
+  tryCompileParametric,
+  type Component,
+  type CoordinateSystem,
+  type Definitions,
+  type Grid,
+  type Parameters,
+  type ParametricSurface,
+} from "./compileExpression";
+
+/** Rectángulo de parámetros [uMin, uMax] × [vMin, vMax] y celdas por eje. */
+export type ParametricDomain = {
+  uMin: number;
+  uMax: number;
+  vMin: number;
+  vMax: number;
+  uCells: number;
+  vCells: number;
+};
+
+/**
+ * Superficie paramétrica tal como la describe el usuario: las tres componentes en u, v, t, o una sola
+ * expresión en polares, cilíndricas o esféricas; y el dominio de los dos parámetros.
+ */
+export type ParametricSource = (Record<Component, string> | { system: CoordinateSystem; expression: string }) & {
+  domain: ParametricDomain;
+};
+
+export function compileParametricSource(
+  source: ParametricSource,
+  parameters?: Parameters,
+  definitions?: Definitions
+): ParametricSurface {
+  return "system" in source
+    ? tryCompileCoordinates(source.system, source.expression, parameters, definitions)
+    : tryCompileParametric(source, parameters, definitions);
+}
+
+/** Mensaje del error de compilación, con la componente delante si la hay. */
+export function surfaceErrorMessage(surface: ParametricSurface): string | null {
+  if (!surface.error) return null;
+  const { component, error } = surface.error;
+  return component ? `${component}: ${error.message}` : error.message;
+}
+
+export type ParametricMesh = {
+  grid: Grid;
+  /** (x, y, z) por vértice; el vértice (i, j) ocupa el índice i + nx·j */
+  positions: Float32Array;
+  /** (u, v) por vértice, para recuperar los parámetros del punto bajo el cursor */
+  uv: Float32Array;
+  /** 1 si el vértice es finito en las tres componentes */
+  validity: Uint8Array;
+  /** triángulos con los tres vértices válidos */
+  indices: number[];
+  zMin: number;
+  zMax: number;
+};
+
+export function parametricGrid(domain: ParametricDomain): Grid {
+  const { uMin, uMax, vMin, vMax } = domain;
+  return boxGrid(uMin, uMax, Math.max(1, domain.uCells), vMin, vMax, Math.max(1, domain.vCells));
+}
+
+/** Evalúa r en toda la malla al tiempo t. Lanza EvaluationBudgetError si alguna componente es muy costosa. */
+export function buildParametricMesh(surface: ParametricSurface, domain: ParametricDomain, t: number): ParametricMesh {
+  const grid = parametricGrid(domain);
+  const { nx, ny } = grid;
+  const count = nx * ny;
+  const values = COMPONENTS.map((component) => surface.grid[component](grid, t));
+
+  const positions = new Float32Array(count * 3);
+  const uv = new Float32Array(count * 2);
+  const validity = new Uint8Array(count);
+  let zMin = Infinity;
+  let zMax = -Infinity;
+  for (let j = 0, k = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++, k++) {
+      const x = values[0][k];
+      const y = values[1][k];
+      const z = values[2][k];
+      const ok = Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z);
+      validity[k] = ok ? 1 : 0;
+      positions[3 * k] = ok ? x : 0;
+      positions[3 * k + 1] = ok ? y : 0;
+      positions[3 * k + 2] = ok ? z : 0;
+      uv[2 * k] = grid.x0 + i * grid.dx;
+      uv[2 * k + 1] = grid.y0 + j * grid.dy;
+      if (ok) {
+        zMin = Math.min(zMin, z);
+        zMax = Math.max(zMax, z);
+      }
+    }
+  }
+
+  const indices: number[] = [];
+  for (let j = 0; j < ny - 1; j++) {
+    for (let i = 0; i < nx - 1; i++) {
+      const a = i + nx * j;
+      const b = i + nx * (j + 1);
+      const c = i + 1 + nx * (j + 1);
+      const d = i + 1 + nx * j;
+      if (validity[a] && validity[b] && validity[d]) indices.push(a, b, d);
+      if (validity[b] && validity[c] && validity[d]) indices.push(b, c, d);
+    }
+  }
+  return { grid, positions, uv, validity, indices, zMin, zMax };
+}
+
+/** Área aproximada: suma de las áreas de los triángulos de la malla. */
+export function meshArea(positions: ArrayLike<number>, indices: ArrayLike<number>): number {
+  let area = 0;
+  for (let k = 0; k < indices.length; k += 3) {
+    const a = 3 * indices[k];
+    const b = 3 * indices[k + 1];
+    const c = 3 * indices[k + 2];
+    const ux = positions[b] - positions[a];
+    const uy = positions[b + 1] - positions[a + 1];
+    const uz = positions[b + 2] - positions[a + 2];
+    const vx = positions[c] - positions[a];
+    const vy = positions[c + 1] - positions[a + 1];
+    const vz = positions[c + 2] - positions[a + 2];
+    area += 0.5 * Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx);
+  }
+  return area;
+}
+
+export type Vec3 = [number, number, number];
+
+/** r, vectores tangentes r_u y r_v, normal unitaria y elemento de área dS = |r_u × r_v| en (u, v). */
+export type TangentFrame = {
+  r: Vec3;
+  ru: Vec3;
+  rv: Vec3;
+  normal: Vec3;
+  dS: number;
+  /** true si r_u, r_v salen de las derivadas simbólicas */
+  exact: boolean;
+};
+
+export function tangentFrame(surface: ParametricSurface, u: number, v: number, t: number, h = 1e-4): TangentFrame {
+  const at = (uu: number, vv: number): Vec3 => [surface.fn.x(uu, vv, t), surface.fn.y(uu, vv, t), surface.fn.z(uu, vv, t)];
+  const r = at(u, v);
+  let ru: Vec3;
+  let rv: Vec3;
+  if (surface.ru && surface.rv) {
+    const { ru: du, rv: dv } = surface;
+    ru = [du.x(u, v, t), du.y(u, v, t), du.z(u, v, t)];
+    rv = [dv.x(u, v, t), dv.y(u, v, t), dv.z(u, v, t)];
+  } else {
+    // diferencias centrales
+    const central = (p: Vec3, m: Vec3): Vec3 => [(p[0] - m[0]) / (2 * h), (p[1] - m[1]) / (2 * h), (p[2] - m[2]) / (2 * h)];
+    ru = central(at(u + h, v), at(u - h, v));
+    rv = central(at(u, v + h), at(u, v - h));
+  }
+  const n: Vec3 = [ru[1] * rv[2] - ru[2] * rv[1], ru[2] * rv[0] - ru[0] * rv[2], ru[0] * rv[1] - ru[1] * rv[0]];
+  const dS = Math.hypot(n[0], n[1], n[2]);
+  const normal: Vec3 = dS > 0 ? [n[0] / dS, n[1] / dS, n[2] / dS] : [NaN, NaN, NaN];
+  return { r, ru, rv, normal, dS, exact: surface.ru !== null };
+}
@@ -0,0 +1,163 @@
+// Región del plano sobre la que se dibuja y se analiza z = f(x,y): un rectángulo [xMin, xMax] × [yMin, yMax]
+// o una región tipo I (a ≤ x ≤ b, g1(x) ≤ y ≤ g2(x)) o tipo II (c ≤ y ≤ d, h1(y) ≤ x ≤ h2(y)). Las de tipo
+// I/II se mallan sobre su caja y se recortan con una máscara ≤ 0, igual que el dominio h(x,y) ≤ 0.
+
+import {
+  evaluationBudget,
+  tryCompileProfile,
+  type Definitions,
+  type ExpressionError,
+  type Fn1,
+  type Grid,
+  type GridFn2,
+  type Parameters,
+} from "./compileExpression";
+
+export type RegionBox = { xMin: number; xMax: number; yMin: number; yMax: number };
+
+/** Región tal como la describe el usuario; es clonable para enviarla al worker. */
+export type PlotRegion =
+  | ({ kind: "box" } & RegionBox)
+  | { kind: "typeI"; xMin: number; xMax: number; lower: string; upper: string }
+  | { kind: "typeII"; yMin: number; yMax: number; lower: string; upper: string };
+
+/** El cuadrado [-range, range]² de siempre. */
+export function squareRegion(range: number): PlotRegion {
+  return { kind: "box", xMin: -range, xMax: range, yMin: -range, yMax: range };
+}
+
+export type CompiledRegion = {
+  /** caja que contiene la región: sobre ella se extienden las mallas */
+  box: RegionBox;
+  /** valores ≤ 0 dentro de la región; null si la región es toda la caja */
+  mask: GridFn2 | null;
+  /** error de la curva inferior o superior (la máscara queda vacía) */
+  error: { bound: "lower" | "upper"; error: ExpressionError } | null;
+};
+
+// muestras de las curvas para estimar la caja de una región tipo I/II
+const BOX_SAMPLES = 256;
+
+export function compileRegion(
+  region: PlotRegion,
+  parameters?: Parameters,
+  definitions?: Definitions
+): CompiledRegion {
+  if (region.kind === "box") {
+    const { xMin, xMax, yMin, yMax } = region;
+    return { box: { xMin, xMax, yMin, yMax }, mask: null, error: null };
+  }
+
+  // tipo I: curvas en x acotando y; tipo II: curvas en y acotando x
+  const variable = region.kind === "typeI" ? "x" : "y";
+  const lower = tryCompileProfile(region.lower, parameters, definitions, variable);
+  const upper = tryCompileProfile(region.upper, parameters, definitions, variable);
+  const error = lower.error
+    ? { bound: "lower" as const, error: lower.error }
+    : upper.error
+      ? { bound: "upper" as const, error: upper.error }
+      : null;
+  const [from, to] = region.kind === "typeI" ? [region.xMin, region.xMax] : [region.yMin, region.yMax];
+  const [spanMin, spanMax] = curvesSpan(lower.fn, upper.fn, from, to);
+  const box =
+    region.kind === "typeI"
+      ? { xMin: from, xMax: to, yMin: spanMin, yMax: spanMax }
+      : { xMin: spanMin, xMax: spanMax, yMin: from, yMax: to };
+  return { box, mask: regionMask(region.kind, lower.fn, upper.fn, from, to), error };
+}
+
+/** Menor y mayor valor de las dos curvas en [from, to]; [-1, 1] si no hay valores finitos. */
+function curvesSpan(lower: Fn1, upper: Fn1, from: number, to: number): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let k = 0; k <= BOX_SAMPLES; k++) {
+    const s = from + ((to - from) * k) / BOX_SAMPLES;
+    for (const value of [lower(s), upper(s)]) {
+      if (!Number.isFinite(value)) continue;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  if (!(min <= max)) return [-1, 1];
+  // una región degenerada (g1 = g2 constantes) igual necesita una caja con área
+  if (max - min < 1e-9) return [min - 0.5, max + 0.5];
+  return [min, max];
+}
+
+/**
+ * max(inferior − v, v − superior) en cada punto, con v la variable acotada (y en tipo I, x en tipo II):
+ * ≤ 0 dentro; NaN donde alguna curva no está definida o fuera de [from, to].
+ */
+function regionMask(kind: "typeI" | "typeII", lower: Fn1, upper: Fn1, from: number, to: number): GridFn2 {
+  return (grid: Grid, out?: Float64Array) => {
+    const { x0, y0, dx, dy, nx, ny } = grid;
+    const values = out ?? new Float64Array(nx * ny);
+    const tick = evaluationBudget();
+    // las curvas se evalúan una vez por columna (tipo I) o por fila (tipo II)
+    const lines = kind === "typeI" ? nx : ny;
+    for (let line = 0; line < lines; line++) {
+      tick();
+      const s = kind === "typeI" ? x0 + line * dx : y0 + line * dy;
+      const inRange = s >= Math.min(from, to) && s <= Math.max(from, to);
+      const lo = inRange ? lower(s) : NaN;
+      const hi = inRange ? upper(s) : NaN;
+      const across = kind === "typeI" ? ny : nx;
+      for (let m = 0; m < across; m++) {
+        const k = kind === "typeI" ? line + nx * m : m + nx * line;
+        const v = kind === "typeI" ? y0 + m * dy : x0 + m * dx;
+        values[k] = Math.max(lo - v, v - hi);
+      }
+    }
+    return values;
+  };
+}
+
+/** Dos máscaras ≤ 0 a la vez (intersección); null si no hay ninguna. */
+export function intersectMasks(a: GridFn2 | null, b: GridFn2 | null): GridFn2 | null {
+  if (!a || !b) return a ?? b;
+  return (grid: Grid, out?: Float64Array) => {
+    const values = a(grid, out);
+    const other = b(grid);
+    // Math.max propaga NaN: fuera de cualquiera de las dos
+    for (let k = 0; k < values.length; k++) values[k] = Math.max(values[k], other[k]);
+    return values;
+  };
+}
+
+/** Malla de (cells+1)² vértices sobre la caja. */
+export function regionGrid(box: RegionBox, cells: number): Grid {
+  return {
+    x0: box.xMin,
+    y0: box.yMin,
+    dx: (box.xMax - box.xMin) / cells,
+    dy: (box.yMax - box.yMin) / cells,
+    nx: cells + 1,
+    ny: cells + 1,
+  };
+}
+
+/** Centros de las cells × cells celdas de la caja (para sumas de Riemann). */
+export function regionCellGrid(box: RegionBox, cells: number): Grid {
+  const dx = (box.xMax - box.xMin) / cells;
+  const dy = (box.yMax - box.yMin) / cells;
+  return { x0: box.xMin + dx / 2, y0: box.yMin + dy / 2, dx, dy, nx: cells, ny: cells };
+}
+
+/** Descripción corta para los paneles. */
+export function describeRegion(region: PlotRegion, digits = 3): string {
+  const n = (v: number) => (Number.isFinite(v) ? Number(v.toFixed(digits)).toString() : "N/D");
+  switch (region.kind) {
+    case "box":
+      return `[${n(region.xMin)}, ${n(region.xMax)}] × [${n(region.yMin)}, ${n(region.yMax)}]`;
+    case "typeI":
+      return `${n(region.xMin)} ≤ x ≤ ${n(region.xMax)}, ${region.lower} ≤ y ≤ ${region.upper}`;
+    case "typeII":
+      return `${n(region.yMin)} ≤ y ≤ ${n(region.yMax)}, ${region.lower} ≤ x ≤ ${region.upper}`;
+  }
+}
+
+/** ¿Está (x, y) en la región? (dentro de la caja y con máscara ≤ 0) */
+export function insideRegion({ box, mask }: Pick<CompiledRegion, "box" | "mask">, x: number, y: number): boolean {
+  if (x < box.xMin || x > box.xMax || y < box.yMin || y > box.yMax) return false;
+  return !mask || mask({ x0: x, y0: y, dx: 0, dy: 0, nx: 1, ny: 1 })[0] <= 0;
+}
@@ -0,0 +1,228 @@
+// Sólidos de revolución: la región entre y = g(x) e y = h(x), x ∈ [a, b], girada alrededor de una recta
+// horizontal y = c o vertical x = c. Malla del sólido barrido hasta un ángulo y volumen por discos/arandelas
+// y por capas cilíndricas.
+
+import { evaluationBudget, type Fn1 } from "./compileExpression";
+import type { Vec3 } from "./parametricMesh";
+
+/** Eje de giro: y = axisAt (horizontal) o x = axisAt (vertical), en el plano de la región. */
+export type RevolutionAxis = "horizontal" | "vertical";
+
+/** Sólido tal como lo describe el usuario; `samples` son los tramos en x (y en el radio, para el volumen). */
+export type RevolutionSource = {
+  outer: string;
+  inner: string;
+  a: number;
+  b: number;
+  axis: RevolutionAxis;
+  axisAt: number;
+  samples: number;
+};
+
+/** Las dos curvas compiladas; la región es la franja entre ambas, en cualquier orden. */
+export type Profile = { outer: Fn1; inner: Fn1 };
+
+type ProfileSamples = { x: Float64Array; lo: Float64Array; hi: Float64Array };
+
+/**
+ * g y h en n puntos de [a, b] (extremos incluidos, o los centros de n tramos si `midpoints`), ordenados
+ * como borde inferior y superior. Lanza EvaluationBudgetError si las curvas son muy costosas.
+ */
+function sampleProfile(profile: Profile, a: number, b: number, n: number, midpoints: boolean): ProfileSamples {
+  const x = new Float64Array(n);
+  const lo = new Float64Array(n);
+  const hi = new Float64Array(n);
+  const tick = evaluationBudget();
+  for (let i = 0; i < n; i++) {
+    tick();
+    x[i] = midpoints ? a + ((b - a) * (i + 0.5)) / n : a + ((b - a) * i) / (n - 1);
+    const g = profile.outer(x[i]);
+    const h = profile.inner(x[i]);
+    lo[i] = Math.min(g, h);
+    hi[i] = Math.max(g, h);
+  }
+  return { x, lo, hi };
+}
+
+export type RevolutionVolumes = {
+  /** ∫ π (R² − r²) a lo largo del eje */
+  washer: number;
+  /** ∫ 2π ρ · (altura de la capa) dρ */
+  shell: number;
+  /** el eje atraviesa la región: ambos métodos miden la unión de lo barrido por cada lado */
+  crossesAxis: boolean;
+};
+
+/**
+ * Volumen por los dos métodos con sumas de punto medio (como las estadísticas del Inspector). El sólido
+ * es {(s, ρ)}: posición a lo largo del eje y distancia al eje; cada método integra primero una de las dos
+ * variables de forma exacta y la otra en la malla, así que coinciden salvo por el error de muestreo.
+ */
+export function revolutionVolumes(profile: Profile, source: RevolutionSource): RevolutionVolumes {
+  const { a, b, axisAt: c } = source;
+  const n = Math.max(8, Math.round(source.samples));
+  const { lo, hi } = sampleProfile(profile, a, b, n, true);
+  const dx = (b - a) / n;
+  const valid = (i: number) => Number.isFinite(lo[i]) && Number.isFinite(hi[i]);
+
+  if (source.axis === "horizontal") {
+    // en cada x la sección es una arandela de radios r ≤ R (r = 0 si el eje corta el segmento)
+    const r = new Float64Array(n);
+    const R = new Float64Array(n);
+    let crossesAxis = false;
+    let rhoMax = 0;
+    for (let i = 0; i < n; i++) {
+      if (!valid(i)) continue;
+      const inside = lo[i] < c && c < hi[i];
+      crossesAxis ||= inside;
+      r[i] = inside ? 0 : Math.min(Math.abs(lo[i] - c), Math.abs(hi[i] - c));
+      R[i] = Math.max(Math.abs(lo[i] - c), Math.abs(hi[i] - c));
+      rhoMax = Math.max(rhoMax, R[i]);
+    }
+    let washer = 0;
+    for (let i = 0; i < n; i++) if (valid(i)) washer += Math.PI * (R[i] * R[i] - r[i] * r[i]) * dx;
+    // capas: a distancia ρ la capa mide lo que ocupan, en x, las arandelas que contienen ese radio
+    let shell = 0;
+    const dRho = rhoMax / n;
+    for (let k = 0; k < n; k++) {
+      const rho = (k + 0.5) * dRho;
+      let length = 0;
+      for (let i = 0; i < n; i++) if (valid(i) && r[i] <= rho && rho <= R[i]) length += dx;
+      shell += 2 * Math.PI * rho * length * dRho;
+    }
+    return { washer, shell, crossesAxis };
+  }
+
+  // eje vertical x = c: a distancia ρ están x = c + ρ y x = c − ρ, cada una con su segmento [lo, hi]
+  const rhoMax = Math.max(Math.abs(a - c), Math.abs(b - c));
+  const dRho = rhoMax / n;
+  const rhoSides = new Float64Array(n);
+  for (let k = 0; k < n; k++) rhoSides[k] = (k + 0.5) * dRho;
+  const bothSides = [1, -1].map((side) => {
+    const sideLo = new Float64Array(n).fill(NaN);
+    const sideHi = new Float64Array(n).fill(NaN);
+    const tick = evaluationBudget();
+    for (let k = 0; k < n; k++) {
+      tick();
+      const xk = c + side * rhoSides[k];
+      if (xk < Math.min(a, b) || xk > Math.max(a, b)) continue;
+      const g = profile.outer(xk);
+      const h = profile.inner(xk);
+      sideLo[k] = Math.min(g, h);
+      sideHi[k] = Math.max(g, h);
+    }
+    return { lo: sideLo, hi: sideHi };
+  });
+  const crossesAxis = Math.min(a, b) < c && c < Math.max(a, b);
+
+  // capas: a radio ρ la altura es la unión de los dos segmentos
+  let shell = 0;
+  let yMin = Infinity;
+  let yMax = -Infinity;
+  for (let k = 0; k < n; k++) {
+    const segments = bothSides
+      .map(({ lo: sLo, hi: sHi }) => [sLo[k], sHi[k]])
+      .filter(([l, h]) => Number.isFinite(l) && Number.isFinite(h));
+    for (const [l, h] of segments) {
+      yMin = Math.min(yMin, l);
+      yMax = Math.max(yMax, h);
+    }
+    shell += 2 * Math.PI * rhoSides[k] * unionLength(segments) * dRho;
+  }
+
+  // arandelas: a cada altura y, los radios ρ cuyo segmento (de algún lado) contiene a y
+  let washer = 0;
+  if (yMin < yMax) {
+    const dy = (yMax - yMin) / n;
+    for (let m = 0; m < n; m++) {
+      const y = yMin + (m + 0.5) * dy;
+      let area = 0;
+      for (let k = 0; k < n; k++) {
+        const covered = bothSides.some(({ lo: sLo, hi: sHi }) => sLo[k] <= y && y <= sHi[k]);
+        if (covered) area += 2 * Math.PI * rhoSides[k] * dRho;
+      }
+      washer += area * dy;
+    }
+  }
+  return { washer, shell, crossesAxis };
+}
+
+/** Longitud de la unión de a lo sumo dos segmentos [l, h]. */
+function unionLength(segments: number[][]): number {
+  if (segments.length === 0) return 0;
+  if (segments.length === 1) return segments[0][1] - segments[0][0];
+  const [[l1, h1], [l2, h2]] = segments;
+  const overlap = Math.max(0, Math.min(h1, h2) - Math.max(l1, l2));
+  return h1 - l1 + (h2 - l2) - overlap;
+}
+
+/** Punto (x, y) del plano de la región girado un ángulo θ alrededor del eje; θ = 0 lo deja en z = 0. */
+function revolvePoint(source: RevolutionSource, x: number, y: number, theta: number): Vec3 {
+  const c = source.axisAt;
+  if (source.axis === "horizontal") return [x, c + (y - c) * Math.cos(theta), (y - c) * Math.sin(theta)];
+  return [c + (x - c) * Math.cos(theta), y, (x - c) * Math.sin(theta)];
+}
+
+export type RevolutionMesh = {
+  /** (x, y, z) por vértice */
+  positions: Float32Array;
+  /** superficie barrida por el borde de la región (g, h y los segmentos en x = a, x = b) */
+  surfaceIndices: number[];
+  /** la región en θ = 0 y en θ = sweep (las caras del corte; vacías si el giro es completo) */
+  sectionIndices: number[];
+};
+
+/**
+ * Malla del sólido barrido de 0 a `sweep` radianes. Los vértices indefinidos (g o h NaN) no generan
+ * triángulos. Lanza EvaluationBudgetError si las curvas son muy costosas.
+ */
+export function buildRevolutionMesh(profile: Profile, source: RevolutionSource, sweep: number): RevolutionMesh {
+  const n = Math.max(2, Math.round(source.samples)) + 1;
+  const { x, lo, hi } = sampleProfile(profile, source.a, source.b, n, false);
+  // el borde de la región como poligonales en el plano; los segmentos de los extremos van en 4 tramos
+  const edge = (x0: number, y0: number, y1: number) =>
+    Array.from({ length: 5 }, (_, k): [number, number] => [x0, y0 + ((y1 - y0) * k) / 4]);
+  const borders: Array<Array<[number, number]>> = [
+    Array.from(x, (xi, i): [number, number] => [xi, hi[i]]),
+    Array.from(x, (xi, i): [number, number] => [xi, lo[i]]),
+    edge(x[0], lo[0], hi[0]),
+    edge(x[n - 1], lo[n - 1], hi[n - 1]),
+  ];
+  const angular = Math.max(2, Math.ceil((64 * Math.abs(sweep)) / (2 * Math.PI)));
+
+  const positions: number[] = [];
+  const validity: boolean[] = [];
+  const addVertex = (px: number, py: number, theta: number) => {
+    const p = revolvePoint(source, px, py, theta);
+    const ok = p.every(Number.isFinite);
+    positions.push(...(ok ? p : [0, 0, 0]));
+    validity.push(ok);
+    return validity.length - 1;
+  };
+  // rejilla de (cols + 1) × (rows + 1) vértices: dos triángulos por celda con sus cuatro vértices válidos
+  const addQuads = (cols: number, rows: number, vertex: (i: number, j: number) => number, out: number[]) => {
+    const ids: number[] = [];
+    for (let j = 0; j <= rows; j++) for (let i = 0; i <= cols; i++) ids.push(vertex(i, j));
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        const p = ids[i + (cols + 1) * j];
+        const q = ids[i + 1 + (cols + 1) * j];
+        const r = ids[i + 1 + (cols + 1) * (j + 1)];
+        const s = ids[i + (cols + 1) * (j + 1)];
+        if (validity[p] && validity[q] && validity[r] && validity[s]) out.push(p, q, r, p, r, s);
+      }
+    }
+  };
+
+  const surfaceIndices: number[] = [];
+  for (const border of borders) {
+    addQuads(border.length - 1, angular, (i, j) => addVertex(border[i][0], border[i][1], (sweep * j) / angular), surfaceIndices);
+  }
+  const sectionIndices: number[] = [];
+  if (Math.abs(sweep) < 2 * Math.PI - 1e-6) {
+    for (const theta of [0, sweep]) {
+      addQuads(n - 1, 1, (i, j) => addVertex(x[i], j === 0 ? lo[i] : hi[i], theta), sectionIndices);
+    }
+  }
+  return { positions: new Float32Array(positions), surfaceIndices, sectionIndices };
+}
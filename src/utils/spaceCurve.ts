@@ -0,0 +1,106 @@
+// Muestreo y geometría diferencial de curvas r(t) = (x, y, z): longitud de arco y triedro de Frenet.
+
+import { evaluationBudget, type Component, type SpaceCurve } from "./compileExpression";
+import type { Vec3 } from "./parametricMesh";
+
+/** Curva tal como la describe el usuario: componentes en t, intervalo y cantidad de tramos. */
+export type CurveSource = Record<Component, string> & { tMin: number; tMax: number; samples: number };
+
+export type CurveSamples = {
+  t: Float64Array;
+  /** (x, y, z) por muestra; NaN donde r no está definida */
+  positions: Float64Array;
+  /** longitud de arco acumulada desde tMin (los tramos con un extremo indefinido no suman) */
+  arcLength: Float64Array;
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const norm = (a: Vec3) => Math.hypot(a[0], a[1], a[2]);
+const scale = (a: Vec3, k: number): Vec3 => [a[0] * k, a[1] * k, a[2] * k];
+
+/** Evalúa r en `samples` tramos iguales de [tMin, tMax]. Lanza EvaluationBudgetError si es muy costosa. */
+export function sampleCurve(curve: SpaceCurve, tMin: number, tMax: number, samples: number): CurveSamples {
+  const n = Math.max(2, Math.round(samples)) + 1;
+  const t = new Float64Array(n);
+  const positions = new Float64Array(3 * n);
+  const arcLength = new Float64Array(n);
+  const tick = evaluationBudget();
+  for (let k = 0; k < n; k++) {
+    tick();
+    const tk = tMin + ((tMax - tMin) * k) / (n - 1);
+    t[k] = tk;
+    positions[3 * k] = curve.fn.x(tk);
+    positions[3 * k + 1] = curve.fn.y(tk);
+    positions[3 * k + 2] = curve.fn.z(tk);
+    if (k === 0) continue;
+    const chord = Math.hypot(
+      positions[3 * k] - positions[3 * k - 3],
+      positions[3 * k + 1] - positions[3 * k - 2],
+      positions[3 * k + 2] - positions[3 * k - 1]
+    );
+    arcLength[k] = arcLength[k - 1] + (Number.isFinite(chord) ? chord : 0);
+  }
+  return { t, positions, arcLength };
+}
+
+/** Longitud de arco desde tMin hasta t, interpolada linealmente en la tabla acumulada. */
+export function arcLengthAt(samples: CurveSamples, t: number): number {
+  const { t: ts, arcLength } = samples;
+  const last = ts.length - 1;
+  const s = (t - ts[0]) / (ts[last] - ts[0]);
+  if (!Number.isFinite(s)) return 0;
+  const k = Math.min(last - 1, Math.max(0, Math.floor(s * last)));
+  const w = Math.min(1, Math.max(0, s * last - k));
+  return arcLength[k] + w * (arcLength[k + 1] - arcLength[k]);
+}
+
+/** r(t), r'(t), triedro T, N, B, curvatura κ y torsión τ. N, B y τ son NaN donde r' × r'' = 0. */
+export type FrenetFrame = {
+  r: Vec3;
+  velocity: Vec3;
+  T: Vec3;
+  N: Vec3;
+  B: Vec3;
+  speed: number;
+  curvature: number;
+  torsion: number;
+  /** true si r', r'', r''' salen de las derivadas simbólicas */
+  exact: boolean;
+};
+
+export function frenetFrame(curve: SpaceCurve, t: number, h = 1e-3): FrenetFrame {
+  const at = (s: number): Vec3 => [curve.fn.x(s), curve.fn.y(s), curve.fn.z(s)];
+  const r = at(t);
+  let d1: Vec3;
+  let d2: Vec3;
+  let d3: Vec3;
+  if (curve.derivatives) {
+    const [first, second, third] = curve.derivatives;
+    d1 = [first.x(t), first.y(t), first.z(t)];
+    d2 = [second.x(t), second.y(t), second.z(t)];
+    d3 = [third.x(t), third.y(t), third.z(t)];
+  } else {
+    // diferencias centrales de primer, segundo y tercer orden
+    const p1 = at(t + h);
+    const m1 = at(t - h);
+    const p2 = at(t + 2 * h);
+    const m2 = at(t - 2 * h);
+    d1 = [0, 1, 2].map((i) => (p1[i] - m1[i]) / (2 * h)) as Vec3;
+    d2 = [0, 1, 2].map((i) => (p1[i] - 2 * r[i] + m1[i]) / (h * h)) as Vec3;
+    d3 = [0, 1, 2].map((i) => (p2[i] - 2 * p1[i] + 2 * m1[i] - m2[i]) / (2 * h * h * h)) as Vec3;
+  }
+
+  const speed = norm(d1);
+  const T: Vec3 = speed > 0 ? scale(d1, 1 / speed) : [NaN, NaN, NaN];
+  const c = cross(d1, d2);
+  const cNorm = norm(c);
+  // κ = |r' × r''| / |r'|³ y τ = (r' × r'') · r''' / |r' × r''|²
+  const curvature = cNorm / (speed * speed * speed);
+  // en tramos rectos (r' × r'' = 0) N y B no están definidos
+  const straight = !(cNorm > 1e-12 * speed * speed * speed);
+  const B: Vec3 = straight ? [NaN, NaN, NaN] : scale(c, 1 / cNorm);
+  const N: Vec3 = straight ? [NaN, NaN, NaN] : cross(B, T);
+  const torsion = straight ? NaN : dot(c, d3) / (cNorm * cNorm);
+  return { r, velocity: d1, T, N, B, speed, curvature, torsion, exact: curve.derivatives !== null };
+}
@@ -0,0 +1,185 @@
+// Funciones especiales para las expresiones (gamma, erf, Bessel, ruido...).
+// Todas trabajan en los reales: fuera de su dominio devuelven NaN, igual que Math.sqrt o Math.log.
+
+// coeficientes de Lanczos (g = 7, n = 9), precisión ~1e-15
+const LANCZOS_G = 7;
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** Γ(x); NaN en los polos (0, -1, -2, ...). */
+export function gamma(x: number): number {
+  if (Number.isNaN(x)) return NaN;
+  if (x <= 0 && Number.isInteger(x)) return NaN;
+  if (x < 0.5) {
+    // reflexión: Γ(x) Γ(1-x) = π / sin(πx)
+    return Math.PI / (Math.sin(Math.PI * x) * gamma(1 - x));
+  }
+  if (x > 171.7) return Infinity;
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + LANCZOS_G + 0.5;
+  // t^(z+0.5) se separa en dos potencias para no desbordar antes de tiempo cerca de x = 171
+  const half = Math.pow(t, (z + 0.5) / 2);
+  return Math.sqrt(2 * Math.PI) * half * (half * Math.exp(-t)) * sum;
+}
+
+/** Complemento de la función error; aproximación de Chebyshev con error relativo < 1.2e-7. */
+export function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+    );
+  return x >= 0 ? r : 2 - r;
+}
+
+/** Función error erf(x) = 1 - erfc(x). */
+export function erf(x: number): number {
+  // cerca de 0 la serie evita perder dígitos en 1 - erfc(x)
+  if (Math.abs(x) < 0.5) {
+    const x2 = x * x;
+    let term = x;
+    let sum = x;
+    for (let n = 1; n < 12; n++) {
+      term *= -x2 / n;
+      sum += term / (2 * n + 1);
+    }
+    return (2 / Math.sqrt(Math.PI)) * sum;
+  }
+  return 1 - erfc(x);
+}
+
+/** Bessel de primera especie J₀(x) (aproximaciones racionales, error ~1e-8). */
+export function besselJ0(x: number): number {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const p =
+      57568490574.0 +
+      y * (-13362590354.0 + y * (651619640.7 + y * (-11214424.18 + y * (77392.33017 + y * -184.9052456))));
+    const q = 57568490411.0 + y * (1029532985.0 + y * (9494680.718 + y * (59272.64853 + y * (267.8532712 + y))));
+    return p / q;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 0.785398164;
+  const p = 1 + y * (-0.1098628627e-2 + y * (0.2734510407e-4 + y * (-0.2073370639e-5 + y * 0.2093887211e-6)));
+  const q = -0.1562499995e-1 + y * (0.1430488765e-3 + y * (-0.6911147651e-5 + y * (0.7621095161e-6 - y * 0.934935152e-7)));
+  return Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+}
+
+/** Bessel de primera especie J₁(x) (aproximaciones racionales, error ~1e-8). */
+export function besselJ1(x: number): number {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const p =
+      x *
+      (72362614232.0 +
+        y * (-7895059235.0 + y * (242396853.1 + y * (-2972611.439 + y * (15704.4826 + y * -30.16036606)))));
+    const q = 144725228442.0 + y * (2300535178.0 + y * (18583304.74 + y * (99447.43394 + y * (376.9991397 + y))));
+    return p / q;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 2.356194491;
+  const p = 1 + y * (0.183105e-2 + y * (-0.3516396496e-4 + y * (0.2457520174e-5 + y * -0.240337019e-6)));
+  const q = 0.04687499995 + y * (-0.2002690873e-3 + y * (0.8449199096e-5 + y * (-0.88228987e-6 + y * 0.105787412e-6)));
+  const r = Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+  return x < 0 ? -r : r;
+}
+
+/** sin(x)/x, con sinc(0) = 1 (versión sin normalizar, la del cálculo). */
+export function sinc(x: number): number {
+  return x === 0 ? 1 : Math.sin(x) / x;
+}
+
+/** Escalón de Heaviside: 0 si x < 0, 1 si x > 0 y 1/2 en x = 0. */
+export function heaviside(x: number): number {
+  if (Number.isNaN(x)) return NaN;
+  return x > 0 ? 1 : x < 0 ? 0 : 0.5;
+}
+
+/** v limitado al intervalo [lo, hi]; NaN si lo > hi. */
+export function clamp(v: number, lo: number, hi: number): number {
+  if (!(lo <= hi)) return NaN;
+  return Math.min(Math.max(v, lo), hi);
+}
+
+/** Módulo matemático: el resultado tiene el signo de b (mod(-1, 3) = 2, a diferencia de -1 % 3). */
+export function mod(a: number, b: number): number {
+  if (b === 0) return NaN;
+  return a - b * Math.floor(a / b);
+}
+
+const FACTORIALS: number[] = [1];
+for (let n = 1; n <= 170; n++) FACTORIALS[n] = FACTORIALS[n - 1] * n;
+
+/** n! para enteros n ≥ 0 (Infinity desde 171!); NaN para negativos o no enteros (usa gamma(x+1)). */
+export function factorial(n: number): number {
+  if (!(n >= 0) || !Number.isInteger(n)) return NaN;
+  return n < FACTORIALS.length ? FACTORIALS[n] : Infinity;
+}
+
+/** Coeficiente binomial generalizado C(n, k) = n(n-1)···(n-k+1)/k!, con n real y k entero ≥ 0. */
+export function binomial(n: number, k: number): number {
+  if (!(k >= 0) || !Number.isInteger(k) || Number.isNaN(n)) return NaN;
+  // simetría para enteros: C(n, k) = C(n, n-k) acorta el producto
+  if (Number.isInteger(n) && n >= 0) {
+    if (k > n) return 0;
+    k = Math.min(k, n - k);
+  }
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result *= (n - k + i) / i;
+    if (!Number.isFinite(result)) return result;
+  }
+  return Number.isInteger(n) ? Math.round(result) : result;
+}
+
+/** Hash entero de una celda de la grilla y la semilla, uniforme en [-1, 1]. */
+function latticeValue(ix: number, iy: number, seed: number): number {
+  let h = Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iy, 0x165667b1) ^ Math.imul(seed, 0x9e3779b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
+
+// interpolación quíntica: continua hasta la segunda derivada en los bordes de celda
+const fade = (s: number) => s * s * s * (s * (s * 6 - 15) + 10);
+
+/**
+ * Ruido suave (value noise) en [-1, 1], con celdas de lado 1. Es determinista: la misma semilla
+ * da siempre la misma superficie, y semillas distintas dan superficies independientes.
+ */
+export function noise(x: number, y: number, seed: number = 0): number {
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(seed)) return NaN;
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const sx = fade(x - ix);
+  const sy = fade(y - iy);
+  const s = Math.round(seed) | 0;
+  const v00 = latticeValue(ix, iy, s);
+  const v10 = latticeValue(ix + 1, iy, s);
+  const v01 = latticeValue(ix, iy + 1, s);
+  const v11 = latticeValue(ix + 1, iy + 1, s);
+  const a = v00 + sx * (v10 - v00);
+  const b = v01 + sx * (v11 - v01);
+  return a + sy * (b - a);
+}
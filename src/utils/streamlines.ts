@@ -0,0 +1,145 @@
+// Líneas de flujo de un campo v(p): integración RK4 con paso adaptativo (doble paso) a partir de una
+// semilla, hacia adelante y hacia atrás. Se integra la dirección v/|v|, así el paso mide longitud de
+// arco y la línea avanza parejo aunque |v| cambie mucho.
+
+import type { Vec3 } from "./parametricMesh";
+
+export type Velocity = (p: Vec3) => Vec3;
+
+/** Por qué terminó cada mitad de la línea. */
+export type StopReason = "critical" | "boundary" | "undefined" | "length";
+
+export type Streamline = {
+  /** de la punta hacia atrás a la punta hacia adelante, pasando por la semilla */
+  points: Vec3[];
+  forward: StopReason;
+  backward: StopReason;
+};
+
+export type StreamlineOptions = {
+  /** la línea se corta al salir de la caja [min, max] (en cada eje) */
+  min: Vec3;
+  max: Vec3;
+  /** además de la caja, la línea se corta al salir de esta región (p.ej. el dominio h ≤ 0) */
+  inside?: (p: Vec3) => boolean;
+  /** tolerancia del error local por paso (en unidades de longitud) */
+  tolerance: number;
+  /** pasos inicial, mínimo y máximo */
+  h0: number;
+  hMin: number;
+  hMax: number;
+  /** longitud máxima de cada mitad */
+  maxLength: number;
+  /** |v| por debajo de esto cuenta como punto crítico */
+  minSpeed: number;
+};
+
+const MAX_STEPS = 5000;
+
+const add = (a: Vec3, b: Vec3, k: number): Vec3 => [a[0] + k * b[0], a[1] + k * b[1], a[2] + k * b[2]];
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+function inside(p: Vec3, options: StreamlineOptions) {
+  const inBox = p.every((c, i) => c >= options.min[i] && c <= options.max[i]);
+  return inBox && (!options.inside || options.inside(p));
+}
+
+/** Media línea desde `seed` en el sentido `sign` (+1 adelante, -1 atrás); no incluye la semilla. */
+function integrate(velocity: Velocity, seed: Vec3, sign: 1 | -1, options: StreamlineOptions) {
+  // dirección unitaria del campo; null en puntos críticos o indefinidos
+  let lastSpeed = NaN;
+  const direction = (p: Vec3): Vec3 | null => {
+    const v = velocity(p);
+    const speed = Math.hypot(v[0], v[1], v[2]);
+    lastSpeed = speed;
+    if (!Number.isFinite(speed) || speed < options.minSpeed) return null;
+    return [(sign * v[0]) / speed, (sign * v[1]) / speed, (sign * v[2]) / speed];
+  };
+  const rk4 = (p: Vec3, h: number): Vec3 | null => {
+    const k1 = direction(p);
+    if (!k1) return null;
+    const k2 = direction(add(p, k1, h / 2));
+    if (!k2) return null;
+    const k3 = direction(add(p, k2, h / 2));
+    if (!k3) return null;
+    const k4 = direction(add(p, k3, h));
+    if (!k4) return null;
+    return [0, 1, 2].map((i) => p[i] + (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])) as Vec3;
+  };
+
+  const points: Vec3[] = [];
+  let p = seed;
+  let h = options.h0;
+  let length = 0;
+  for (let step = 0; step < MAX_STEPS; step++) {
+    if (length >= options.maxLength) return { points, stop: "length" as StopReason };
+    const heading = direction(p);
+    if (!heading) {
+      return { points, stop: (Number.isFinite(lastSpeed) ? "critical" : "undefined") as StopReason };
+    }
+    // doble paso: un paso h contra dos pasos h/2; la diferencia estima el error local
+    const full = rk4(p, h);
+    const half = rk4(p, h / 2);
+    const double = half && rk4(half, h / 2);
+    if (!full || !double) {
+      // el paso cruzó un punto crítico o un hueco: se reintenta más corto
+      if (h / 2 < options.hMin) {
+        return { points, stop: (Number.isFinite(lastSpeed) ? "critical" : "undefined") as StopReason };
+      }
+      h /= 2;
+      continue;
+    }
+    // extrapolación de Richardson: corrige double con la estimación del error
+    const error = distance(full, double) / 15;
+    const next = [0, 1, 2].map((i) => double[i] + (double[i] - full[i]) / 15) as Vec3;
+    // el paso saltó por encima de un sumidero (o fuente, hacia atrás) si la dirección se invierte o si,
+    // yendo a velocidad unitaria, avanzó mucho menos que h (las etapas de RK4 se anularon entre sí)
+    const after = direction(next);
+    const overshoot =
+      distance(p, next) < 0.5 * h ||
+      (after !== null && after[0] * heading[0] + after[1] * heading[1] + after[2] * heading[2] < 0);
+    if (error > options.tolerance || overshoot) {
+      // cerca del punto crítico el paso se achica sin fin: ahí se corta
+      if (h / 2 < options.hMin) return { points, stop: "critical" as StopReason };
+      h /= 2;
+      continue;
+    }
+    if (!inside(next, options)) return { points, stop: "boundary" as StopReason };
+    length += distance(p, next);
+    points.push(next);
+    p = next;
+    if (error < options.tolerance / 32) h = Math.min(options.hMax, h * 2);
+  }
+  return { points, stop: "length" as StopReason };
+}
+
+/** Línea de flujo completa por `seed`: hacia atrás y hacia adelante hasta cada condición de corte. */
+export function traceStreamline(velocity: Velocity, seed: Vec3, options: StreamlineOptions): Streamline {
+  const forward = integrate(velocity, seed, 1, options);
+  const backward = integrate(velocity, seed, -1, options);
+  return {
+    points: [...backward.points.reverse(), seed, ...forward.points],
+    forward: forward.stop,
+    backward: backward.stop,
+  };
+}
+
+/** Opciones razonables para una caja cuadrada [-range, range]² en el plano z = 0. */
+export function planeStreamlineOptions(range: number): StreamlineOptions {
+  return {
+    min: [-range, -range, 0],
+    max: [range, range, 0],
+    tolerance: 1e-5 * range,
+    h0: 0.01 * range,
+    hMin: 1e-5 * range,
+    hMax: 0.05 * range,
+    maxLength: 20 * range,
+    minSpeed: 1e-9,
+  };
+}
+
+/** `count` semillas equiespaciadas en el segmento de `a` a `b` (un rastrillo). */
+export function seedRake(a: Vec3, b: Vec3, count: number): Vec3[] {
+  const n = Math.max(2, Math.round(count));
+  return Array.from({ length: n }, (_, k) => add(a, [b[0] - a[0], b[1] - a[1], b[2] - a[2]], k / (n - 1)));
+}
@@ -0,0 +1,61 @@
+// Conversión de las mallas paramétricas e implícitas a BufferGeometry, con el mismo degradado por
+// altura que los visores de z = f(x,y) (azul abajo, rojo arriba; gris en vértices indefinidos), y
+// escalas de color para otros escalares (módulo, divergencia...).
+
+import * as THREE from "three";
+import type { ImplicitMesh } from "./implicitMesh";
+import type { ParametricMesh } from "./parametricMesh";
+
+const NEGATIVE = new THREE.Color(0x2255cc);
+const POSITIVE = new THREE.Color(0xcc2222);
+const WHITE = new THREE.Color(0xffffff);
+
+/**
+ * Color de `value` en `target`: el degradado por altura entre min y max, o, si `diverging`, blanco en 0
+ * hacia azul (negativos) y rojo (positivos), saturado en ±max. Gris si el valor no es finito.
+ */
+export function scalarColor(value: number, min: number, max: number, diverging: boolean, target: THREE.Color) {
+  if (!Number.isFinite(value)) return target.setRGB(0.75, 0.75, 0.75);
+  if (diverging) {
+    const s = THREE.MathUtils.clamp(max > 0 ? value / max : 0, -1, 1);
+    return target.copy(WHITE).lerp(s < 0 ? NEGATIVE : POSITIVE, Math.abs(s));
+  }
+  const normalized = THREE.MathUtils.clamp((value - min) / (max > min ? max - min : 1), 0, 1);
+  return target.setHSL(0.7 - normalized * 0.7, 0.8, 0.5);
+}
+
+function heightColors(positions: Float32Array, validity: Uint8Array | null, zMin: number, zMax: number) {
+  const count = positions.length / 3;
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+  for (let k = 0; k < count; k++) {
+    scalarColor(!validity || validity[k] ? positions[3 * k + 2] : NaN, zMin, zMax, false, color);
+    colors[3 * k] = color.r;
+    colors[3 * k + 1] = color.g;
+    colors[3 * k + 2] = color.b;
+  }
+  return colors;
+}
+
+export function parametricGeometry(mesh: ParametricMesh): THREE.BufferGeometry {
+  const { positions, uv, validity, indices, zMin, zMax } = mesh;
+  const geometry = new THREE.BufferGeometry();
+  geometry.setIndex(indices);
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(heightColors(positions, validity, zMin, zMax), 3));
+  // el raycaster interpola este atributo: hit.uv son los parámetros (u, v) del punto
+  geometry.setAttribute("uv", new THREE.BufferAttribute(uv, 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/** Las normales ya vienen de ∇F: no se recalculan a partir de los triángulos. */
+export function implicitGeometry(mesh: ImplicitMesh): THREE.BufferGeometry {
+  const { positions, normals, indices, zMin, zMax } = mesh;
+  const geometry = new THREE.BufferGeometry();
+  geometry.setIndex(indices);
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(heightColors(positions, null, zMin, zMax), 3));
+  return geometry;
+}
@@ -0,0 +1,151 @@
+// Capas: gráficos z = g(x,y,t) adicionales que el Inspector y el Draggable dibujan junto a la
+// superficie principal (p.ej. f y su polinomio de Taylor), cada uno con color, opacidad y alambre.
+
+import * as THREE from "three";
+import {
+  findFreeParameters,
+  tryCompileExpression3,
+  type CompileResult,
+  type Definitions,
+  type Fn3,
+  type Grid,
+  type GridFn3,
+  type Parameters,
+} from "./compileExpression";
+import { createJumpTest, gridIndices } from "./meshDiscontinuities";
+
+export type SurfaceLayer = {
+  /** identificador estable para las keys de React (no cambia al reordenar) */
+  id: number;
+  expression: string;
+  /** color CSS (#rrggbb) */
+  color: string;
+  opacity: number;
+  wireframe: boolean;
+  visible: boolean;
+};
+
+/** Colores que van tomando las capas nuevas. */
+export const LAYER_COLORS = ["#2a9d8f", "#e76f51", "#8e44ad", "#e9c46a", "#264653", "#d62828"];
+
+export function createLayer(id: number, expression: string): SurfaceLayer {
+  return { id, expression, color: LAYER_COLORS[id % LAYER_COLORS.length], opacity: 0.6, wireframe: false, visible: true };
+}
+
+export type CompiledLayer = {
+  id: number;
+  expression: string;
+  compiled: CompileResult<Fn3, GridFn3>;
+  /** si usa t: solo entonces se rehace en cada fotograma */
+  animated: boolean;
+};
+
+/**
+ * Clave de lo que hay que compilar: id y expresión de las capas visibles. El color, la opacidad y el
+ * alambre no entran, así que cambiarlos no recompila ni rehace las mallas (ver styleLayerMaterial).
+ */
+export function layerSourcesKey(layers: SurfaceLayer[]): string {
+  return JSON.stringify(
+    layers.filter((layer) => layer.visible && layer.expression.trim()).map(({ id, expression }) => ({ id, expression }))
+  );
+}
+
+/** Compila las capas de la clave; las que tienen errores quedan fuera (su error se muestra en la lista). */
+export function compileLayers(
+  sourcesKey: string,
+  parameters?: Parameters,
+  definitions?: Definitions
+): CompiledLayer[] {
+  const sources: Array<Pick<SurfaceLayer, "id" | "expression">> = JSON.parse(sourcesKey);
+  return sources
+    .map(({ id, expression }) => ({
+      id,
+      expression,
+      compiled: tryCompileExpression3(expression, parameters, definitions),
+      animated: findFreeParameters([expression], definitions, ["x", "y"]).includes("t"),
+    }))
+    .filter(({ compiled }) => !compiled.error);
+}
+
+export type LayerGeometry = {
+  geometry: THREE.BufferGeometry;
+  /** reescribe z (y el índice si hace falta) para este t; lanza EvaluationBudgetError */
+  update: (t: number) => void;
+};
+
+/**
+ * Malla de z = g(x,y,t) sobre `surfaceGrid`, recortada por los valores de la máscara ≤ 0 ya evaluados en
+ * esa malla (la misma que la superficie principal), con un solo color. Los buffers se crean una vez y
+ * `update` los reescribe; el índice solo se rehace si cambian los vértices válidos o hay ramas.
+ */
+export function createLayerGeometry(
+  { fn, grid, branch }: CompileResult<Fn3, GridFn3>,
+  surfaceGrid: Grid,
+  maskValues: Float64Array | null
+): LayerGeometry {
+  const cols = surfaceGrid.nx - 1;
+  const rows = surfaceGrid.ny - 1;
+  const count = surfaceGrid.nx * surfaceGrid.ny;
+  const zValues = new Float64Array(count);
+  const validity = new Uint8Array(count);
+  const positions = new Float32Array(count * 3);
+  for (let j = 0; j <= rows; j++) {
+    for (let i = 0; i <= cols; i++) {
+      const k = i + (cols + 1) * j;
+      positions[3 * k] = surfaceGrid.x0 + i * surfaceGrid.dx;
+      positions[3 * k + 1] = surfaceGrid.y0 + j * surfaceGrid.dy;
+    }
+  }
+
+  const position = new THREE.BufferAttribute(positions, 3);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", position);
+  geometry.setIndex([]); // sin triángulos hasta el primer update
+  let indexed = false;
+
+  const update = (t: number) => {
+    grid(surfaceGrid, t, zValues);
+    let validityChanged = !indexed;
+    for (let k = 0; k < count; k++) {
+      const ok = Number.isFinite(zValues[k]) && (!maskValues || maskValues[k] <= 0) ? 1 : 0;
+      if (validity[k] !== ok) validityChanged = true;
+      validity[k] = ok;
+      positions[3 * k + 2] = ok ? zValues[k] : 0;
+    }
+    if (validityChanged || branch) {
+      const jump = createJumpTest(fn, branch, t, positions);
+      geometry.setIndex(gridIndices(validity, jump, cols, rows));
+      indexed = true;
+    }
+    position.needsUpdate = true;
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+  };
+  return { geometry, update };
+}
+
+/** Material de una capa; su color, opacidad y alambre los pone styleLayerMaterial. */
+export function layerMaterial(): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    side: THREE.DoubleSide,
+    metalness: 0.05,
+    roughness: 0.8,
+  });
+}
+
+/**
+ * Aplica el estilo de la capa a su material sin recrearlo. Las capas translúcidas no escriben
+ * profundidad para que se vea lo que queda detrás; el orden de la lista fija el orden de dibujo
+ * (renderOrder).
+ */
+export function styleLayerMaterial(material: THREE.MeshStandardMaterial, layer: SurfaceLayer) {
+  const translucent = layer.opacity < 1;
+  material.color.set(layer.color);
+  material.opacity = layer.opacity;
+  material.depthWrite = !translucent;
+  if (material.transparent !== translucent || material.wireframe !== layer.wireframe) {
+    material.transparent = translucent;
+    material.wireframe = layer.wireframe;
+    material.needsUpdate = true;
+  }
+}
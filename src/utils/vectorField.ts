@@ -0,0 +1,84 @@
+// Evaluación de campos vectoriales F = (P, Q, R): valor, divergencia y rotacional en un punto, y los
+// escalares que colorean los cortes.
+
+import { COMPONENTS, type Component, type VectorField } from "./compileExpression";
+import type { Vec3 } from "./parametricMesh";
+
+/** Campo tal como lo escribe el usuario; en el plano (`planar`) R no se usa y z no es variable. */
+export type VectorFieldSource = Record<Component, string> & { planar: boolean };
+
+/** Escalar con el que se colorean los cortes. */
+export type SliceColoring = "none" | "magnitude" | "divergence" | "curl";
+
+export function fieldAt(field: VectorField, x: number, y: number, z: number): Vec3 {
+  return [field.fn.x(x, y, z), field.fn.y(x, y, z), field.fn.z(x, y, z)];
+}
+
+/** Jacobiana J[c][v] = ∂F_c/∂v en el punto: simbólica si existe, si no diferencias centrales con paso h. */
+function jacobianAt(field: VectorField, x: number, y: number, z: number, h: number): Record<Component, Vec3> {
+  const { jacobian } = field;
+  if (jacobian) {
+    const row = (c: Component): Vec3 => [jacobian[c].x(x, y, z), jacobian[c].y(x, y, z), jacobian[c].z(x, y, z)];
+    return { x: row("x"), y: row("y"), z: row("z") };
+  }
+  const px = fieldAt(field, x + h, y, z);
+  const mx = fieldAt(field, x - h, y, z);
+  const py = fieldAt(field, x, y + h, z);
+  const my = fieldAt(field, x, y - h, z);
+  const pz = fieldAt(field, x, y, z + h);
+  const mz = fieldAt(field, x, y, z - h);
+  const row = (i: number): Vec3 => [(px[i] - mx[i]) / (2 * h), (py[i] - my[i]) / (2 * h), (pz[i] - mz[i]) / (2 * h)];
+  return { x: row(0), y: row(1), z: row(2) };
+}
+
+/** div F = P_x + Q_y + R_z y rot F = (R_y - Q_z, P_z - R_x, Q_x - P_y). */
+export function divergenceAndCurl(
+  field: VectorField,
+  x: number,
+  y: number,
+  z: number,
+  h = 1e-4
+): { divergence: number; curl: Vec3 } {
+  const J = jacobianAt(field, x, y, z, h);
+  return {
+    divergence: J.x[0] + J.y[1] + J.z[2],
+    curl: [J.z[1] - J.y[2], J.x[2] - J.z[0], J.y[0] - J.x[1]],
+  };
+}
+
+/**
+ * Escalar de `coloring` en el punto; para el rotacional se usa la componente normal al corte
+ * (rot F · n, la circulación por unidad de área en ese plano).
+ */
+export function sliceScalar(
+  field: VectorField,
+  coloring: SliceColoring,
+  normal: Component,
+  x: number,
+  y: number,
+  z: number
+): number {
+  switch (coloring) {
+    case "none":
+      return NaN;
+    case "magnitude": {
+      const [p, q, r] = fieldAt(field, x, y, z);
+      return Math.hypot(p, q, r);
+    }
+    case "divergence":
+      return divergenceAndCurl(field, x, y, z).divergence;
+    case "curl":
+      return divergenceAndCurl(field, x, y, z).curl[COMPONENTS.indexOf(normal)];
+  }
+}
+
+/** Cómo se dibuja el campo: flechas en una red 3D o sobre cortes x = a, y = b, z = c. */
+export type FieldDisplay = {
+  mode: "lattice" | "slices";
+  /** flechas por eje */
+  density: number;
+  /** largo de la flecha más larga, en separaciones de la red */
+  scale: number;
+  slices: Record<Component, { enabled: boolean; at: number }>;
+  coloring: SliceColoring;
+};
@@ -0,0 +1,40 @@
+// Worker de análisis: recibe un pedido, compila las expresiones aquí mismo (las funciones no se
+// pueden enviar entre hilos) y responde con avances parciales y el resultado final.
+
+import { absoluteExtrema } from "../utils/absoluteExtrema";
+import { computeGlobalStats, extractContours, scanExtrema, type Report } from "../utils/gridAnalysis";
+import { solveLagrange } from "../utils/lagrange";
+import type { AnalysisRequest, AnalysisResults, WorkerRequest, WorkerResponse } from "./analysisProtocol";
+
+// el tsconfig usa la lib DOM, así que el ámbito del worker se tipa a mano
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+function run(request: AnalysisRequest, report: Report<AnalysisResults[keyof AnalysisResults]>) {
+  switch (request.kind) {
+    case "stats":
+      return computeGlobalStats(request.source, report);
+    case "extrema":
+      return scanExtrema(request.source, report);
+    case "contours":
+      return extractContours(request.source, report);
+    case "lagrange":
+      return solveLagrange(request.source, report);
+    case "absolute":
+      return absoluteExtrema(request.source, report);
+  }
+}
+
+scope.onmessage = (event) => {
+  const { id, request } = event.data;
+  try {
+    const result = run(request, (partial, done, total) =>
+      scope.postMessage({ id, type: "progress", done, total, partial })
+    );
+    scope.postMessage({ id, type: "result", result });
+  } catch (error) {
+    scope.postMessage({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
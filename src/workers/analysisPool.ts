@@ -0,0 +1,119 @@
+// Pool de workers para los análisis de malla del Inspector.
+// Cada pedido devuelve una función de cancelación: si el pedido aún espera en la cola se descarta,
+// y si ya se está calculando se termina ese worker (el cálculo no tiene puntos de corte) y se
+// reemplaza por uno nuevo. Tras cancelar no se llama a ningún callback.
+
+import type {
+  AnalysisKind,
+  AnalysisRequest,
+  AnalysisResults,
+  WorkerRequest,
+  WorkerResponse,
+} from "./analysisProtocol";
+
+export type { AnalysisKind, AnalysisResults } from "./analysisProtocol";
+
+export type AnalysisHandlers<K extends AnalysisKind> = {
+  /** avance en [0, 1] con el resultado acumulado hasta ese momento */
+  onProgress?: (progress: number, partial: AnalysisResults[K]) => void;
+  onResult: (result: AnalysisResults[K]) => void;
+  onError?: (message: string) => void;
+};
+
+type Job = {
+  id: number;
+  request: AnalysisRequest;
+  handlers: AnalysisHandlers<AnalysisKind>;
+};
+
+type Slot = {
+  worker: Worker;
+  job: Job | null;
+};
+
+// deja un núcleo libre para el hilo principal
+const POOL_SIZE = Math.max(1, Math.min(3, (navigator.hardwareConcurrency || 2) - 1));
+
+const slots: Slot[] = [];
+const queue: Job[] = [];
+let nextId = 1;
+
+function createWorker(): Worker {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const current = slots.find((s) => s.worker === worker);
+    const job = current?.job;
+    const message = event.data;
+    if (!current || !job || job.id !== message.id) return;
+    switch (message.type) {
+      case "progress":
+        job.handlers.onProgress?.(message.total > 0 ? message.done / message.total : 1, message.partial);
+        return;
+      case "result":
+        current.job = null;
+        job.handlers.onResult(message.result);
+        break;
+      case "error":
+        current.job = null;
+        job.handlers.onError?.(message.message);
+        break;
+    }
+    schedule();
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const current = slots.find((s) => s.worker === worker);
+    const job = current?.job;
+    if (!current || !job) return;
+    current.job = null;
+    job.handlers.onError?.(event.message);
+    schedule();
+  };
+  return worker;
+}
+
+function schedule() {
+  while (queue.length > 0) {
+    let slot = slots.find((s) => !s.job);
+    if (!slot && slots.length < POOL_SIZE) {
+      slot = { worker: createWorker(), job: null };
+      slots.push(slot);
+    }
+    if (!slot) return;
+    const job = queue.shift()!;
+    slot.job = job;
+    const message: WorkerRequest = { id: job.id, request: job.request };
+    slot.worker.postMessage(message);
+  }
+}
+
+/**
+ * Encola un análisis de malla y devuelve la función que lo cancela (pensada para usarse como
+ * limpieza de un efecto de React, de modo que los pedidos viejos nunca pisen a los nuevos).
+ */
+export function runAnalysis<K extends AnalysisKind>(
+  request: AnalysisRequest & { kind: K },
+  handlers: AnalysisHandlers<K>
+): () => void {
+  const job: Job = {
+    id: nextId++,
+    request,
+    handlers: handlers as unknown as AnalysisHandlers<AnalysisKind>,
+  };
+  queue.push(job);
+  schedule();
+
+  return () => {
+    const queued = queue.indexOf(job);
+    if (queued >= 0) {
+      queue.splice(queued, 1);
+      return;
+    }
+    const slot = slots.find((s) => s.job === job);
+    if (!slot) return; // ya terminó
+    slot.worker.terminate();
+    slot.job = null;
+    slot.worker = createWorker();
+    schedule();
+  };
+}
@@ -0,0 +1,27 @@
+// Mensajes entre el hilo principal y los workers de análisis de malla.
+
+import type { AbsoluteExtrema } from "../utils/absoluteExtrema";
+import type { AnalysisSource, Contours, CriticalPoint, GlobalStats } from "../utils/gridAnalysis";
+import type { ConstrainedExtrema } from "../utils/lagrange";
+
+/** Resultado de cada tipo de cálculo. */
+export type AnalysisResults = {
+  stats: GlobalStats;
+  extrema: CriticalPoint[];
+  contours: Contours;
+  lagrange: ConstrainedExtrema;
+  absolute: AbsoluteExtrema;
+};
+
+export type AnalysisKind = keyof AnalysisResults;
+
+export type AnalysisRequest = { kind: AnalysisKind; source: AnalysisSource };
+
+/** Hilo principal -> worker. */
+export type WorkerRequest = { id: number; request: AnalysisRequest };
+
+/** Worker -> hilo principal: avance con el resultado parcial, resultado final o error. */
+export type WorkerResponse =
+  | { id: number; type: "progress"; done: number; total: number; partial: AnalysisResults[AnalysisKind] }
+  | { id: number; type: "result"; result: AnalysisResults[AnalysisKind] }
+  | { id: number; type: "error"; message: string };